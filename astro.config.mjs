@@ -1,10 +1,44 @@
 // @ts-check
 import { defineConfig } from 'astro/config';
+import { pathToFileURL } from 'node:url';
 import svelte from '@astrojs/svelte';
 import netlify from '@astrojs/netlify';
 
+const NODE_WORKER = '?node-worker';
+
+/**
+ * `?node-worker` imports: bundle the module as a chunk of its own and resolve to its URL,
+ * for `new Worker(url)` on the server. Vite does this for browser workers only. The dev
+ * server has no chunks, so there it resolves to the source file.
+ * @returns {import('vite').Plugin}
+ */
+function nodeWorker() {
+  let serve = false;
+  return {
+    name: 'node-worker',
+    configResolved(config) {
+      serve = config.command === 'serve';
+    },
+    async resolveId(id, importer) {
+      if (!id.endsWith(NODE_WORKER)) return null;
+      const resolved = await this.resolve(id.slice(0, -NODE_WORKER.length), importer);
+      return resolved && `${resolved.id}${NODE_WORKER}`;
+    },
+    load(id) {
+      if (!id.endsWith(NODE_WORKER)) return null;
+      const file = id.slice(0, -NODE_WORKER.length);
+      if (serve) return `export default ${JSON.stringify(pathToFileURL(file).href)};`;
+      const ref = this.emitFile({ type: 'chunk', id: file });
+      return `export default import.meta.ROLLUP_FILE_URL_${ref};`;
+    },
+  };
+}
+
 // https://astro.build/config
 export default defineConfig({
   adapter: netlify({ edgeMiddleware: false }),
   integrations: [svelte()],
+  vite: {
+    plugins: [nodeWorker()],
+  },
 });
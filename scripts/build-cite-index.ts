@@ -8,7 +8,9 @@
  *   - supremecourt.gov/opinions/slipopinion/{termCode}  — slip opinion PDF URLs
  *   - courtlistener.com REST API (SCOTUS opinions)      — US Reports citations
  *
- * The two datasets are joined on docket number.
+ * The two datasets are joined on docket number. Consolidated cases share one
+ * opinion, and either source may list any of their dockets, so every docket a
+ * row or citation names is tried.
  *
  * Oyez's citation.page is null for OT2015+ cases, so we use CourtListener
  * instead which reliably has the full "VVV U.S. PPP" citation string.
@@ -25,7 +27,17 @@ import { resolve } from 'path';
 interface CiteEntry {
   term: string;     // 2-digit SCOTUS term code, e.g. "24"
   filename: string; // e.g. "24-354_x1q3.pdf"
-  docket: string;   // e.g. "24-354"
+  docket: string;   // e.g. "24-354"; the lead docket for consolidated cases
+  dockets?: string[]; // every consolidated docket, when there are several
+}
+
+// Docket numbers: "XX-XXXXX" format
+const DOCKET_RE = /\b\d{2}-\d{1,5}\b/g;
+
+interface ListingEntry {
+  termCode: string;
+  filename: string;
+  dockets: string[];
 }
 
 // OT2019 is the earliest term with accessible SCOTUS listing pages.
@@ -41,9 +53,7 @@ const TERMS = [
 
 // ─── SCOTUS listing scraper ────────────────────────────────────────────────
 
-async function fetchScotusListing(
-  termCode: string
-): Promise<Map<string, { termCode: string; filename: string }>> {
+async function fetchScotusListing(termCode: string): Promise<ListingEntry[]> {
   const url = `https://www.supremecourt.gov/opinions/slipopinion/${termCode}`;
   const resp = await fetch(url, {
     headers: { 'User-Agent': 'Mozilla/5.0' },
@@ -56,7 +66,7 @@ async function fetchScotusListing(
     throw new Error(`SCOTUS ${termCode}: redirected (term not available)`);
   }
 
-  const result = new Map<string, { termCode: string; filename: string }>();
+  const result: ListingEntry[] = [];
   const rowRegex = /<tr[^>]*>(.*?)<\/tr>/gis;
   let match;
   while ((match = rowRegex.exec(html)) !== null) {
@@ -66,18 +76,18 @@ async function fetchScotusListing(
     const pdfTermCode = pdfMatch[1];
     const filename = pdfMatch[2];
 
-    // Docket numbers: "XX-XXXXX" format
-    const docketMatch = row.match(/\b(\d{2}-\d{1,5})\b/);
-    if (!docketMatch) continue;
+    const dockets = [...new Set(row.match(DOCKET_RE) ?? [])];
+    if (dockets.length === 0) continue;
 
-    result.set(docketMatch[1], { termCode: pdfTermCode, filename });
+    result.push({ termCode: pdfTermCode, filename, dockets });
   }
   return result;
 }
 
 // ─── CourtListener scraper ─────────────────────────────────────────────────
 // Fetches all SCOTUS opinions filed since OT2019 start, extracts
-// docketNumber → {volume, page} from the "NNN U.S. NNN" citation string.
+// docketNumber → {volume, page} from the "NNN U.S. NNN" citation string, for
+// each docket a consolidated case's docketNumber lists ("24-1287, 25-250").
 
 async function fetchCourtListenerCitations(): Promise<Map<string, { volume: string; page: string }>> {
   const result = new Map<string, { volume: string; page: string }>();
@@ -106,8 +116,8 @@ async function fetchCourtListenerCitations(): Promise<Map<string, { volume: stri
     process.stdout.write('.');
 
     for (const r of data.results ?? []) {
-      const docket = (r.docketNumber ?? '').trim();
-      if (!docket) continue;
+      const dockets: string[] = (r.docketNumber ?? '').replace(/\u2013/g, '-').match(DOCKET_RE) ?? [];
+      if (dockets.length === 0) continue;
 
       // citation is an array of strings like ["603 U.S. 593", "144 S. Ct. 2312"]
       const citations: string[] = r.citation ?? [];
@@ -115,7 +125,7 @@ async function fetchCourtListenerCitations(): Promise<Map<string, { volume: stri
         // Match "NNN U.S. NNN" (with or without spaces/periods in "U.S.")
         const m = c.match(/^(\d+)\s+U\.?\s*S\.?\s+(\d+)/);
         if (m) {
-          result.set(docket, { volume: m[1], page: m[2] });
+          for (const docket of dockets) result.set(docket, { volume: m[1], page: m[2] });
           break;
         }
       }
@@ -152,25 +162,26 @@ async function main() {
 
   for (const { termCode } of TERMS) {
     process.stdout.write(`  SCOTUS term ${termCode}: `);
-    let scotusMap: Map<string, { termCode: string; filename: string }>;
+    let listing: ListingEntry[];
     try {
-      scotusMap = await fetchScotusListing(termCode);
+      listing = await fetchScotusListing(termCode);
     } catch (err) {
       console.log(`SKIP — ${err instanceof Error ? err.message : err}`);
       continue;
     }
 
     let matched = 0;
-    for (const [docket, fileInfo] of scotusMap) {
-      const citation = clMap.get(docket);
+    for (const { termCode: pdfTermCode, filename, dockets } of listing) {
+      const citation = dockets.map((docket) => clMap.get(docket)).find(Boolean);
       if (!citation) continue;
       const key = `${citation.volume}:${citation.page}`;
       if (!index[key]) totalNew++;
-      index[key] = { term: fileInfo.termCode, filename: fileInfo.filename, docket };
+      index[key] = { term: pdfTermCode, filename, docket: dockets[0] };
+      if (dockets.length > 1) index[key].dockets = dockets;
       matched++;
     }
 
-    console.log(`${scotusMap.size} opinions, ${matched} matched with citations`);
+    console.log(`${listing.length} opinions, ${matched} matched with citations`);
     await new Promise(r => setTimeout(r, 200));
   }
 
@@ -0,0 +1,218 @@
+/**
+ * Golden snapshots of parsed opinions, and the diff between two of them.
+ *
+ * A snapshot keeps what a reader sees and drops what a parse stamps on its way out
+ * (source URL, schema and parser versions, spans, which are derived from the text):
+ * one line per paragraph, footnote and holding, grouped by chapter, so that both this
+ * diff and `git diff` of the committed JSON read paragraph by paragraph.
+ */
+
+import type { Chapter, ParsedOpinion } from '../src/lib/types';
+
+export interface GoldenChapter {
+  id: string;
+  /** Title, kind, author, role and joinders on one line */
+  heading: string;
+  /** `[kind pages] text` for each paragraph */
+  paragraphs: string[];
+  /** `[N] text` for each note */
+  footnotes: string[];
+}
+
+export interface GoldenSnapshot {
+  /** The PDF it was parsed from: "23-939_e2pg.pdf", or "502bv.pdf@1" for a bound-volume case */
+  source: string;
+  /** `field: value` lines for the caption, dates, judgment and diagnostics */
+  opinion: string[];
+  holdings: string[];
+  chapters: GoldenChapter[];
+}
+
+export type GoldenChange =
+  | { kind: 'added'; at: number; text: string }
+  | { kind: 'removed'; at: number; text: string }
+  | { kind: 'changed'; at: number; before: string; after: string };
+
+/** The changes to one part of a snapshot: "opinion", "holdings", a chapter's paragraphs or notes */
+export interface GoldenSectionDiff {
+  section: string;
+  /** Chapters only: the chapter is new, or gone */
+  status?: 'added' | 'removed';
+  changes: GoldenChange[];
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function chapterHeading(ch: Chapter): string {
+  const joined = ch.joinedBy.map((j) => {
+    if (j.parts) return `${j.justice} (${j.parts.join(', ')})`;
+    if (j.exceptParts) return `${j.justice} (except ${j.exceptParts.join(', ')})`;
+    return j.justice;
+  });
+  return [
+    ch.title,
+    ch.kind,
+    ch.author ?? '-',
+    ch.role || '-',
+    joined.length > 0 ? `joined by ${joined.join(', ')}` : '',
+  ].filter(Boolean).join(' | ');
+}
+
+export function toSnapshot(source: string, opinion: ParsedOpinion): GoldenSnapshot {
+  const { dates, diagnostics } = opinion;
+  return {
+    source,
+    opinion: [
+      `caseTitle: ${opinion.caseTitle}`,
+      ...opinion.dockets.map((d) => `docket: ${d.number} | ${d.caption} | ${d.lowerCourt} | ${d.lowerCourtId}`),
+      `decided: ${opinion.decidedDate} | ${dates.decided}`,
+      `argued: ${dates.argued}${dates.reargued ? ` | reargued ${dates.reargued}` : ''}`,
+      `disposition: ${opinion.disposition}`,
+      `confidence: ${diagnostics.confidence}`,
+      ...diagnostics.warnings.map((w) => `warning: ${w.code} in ${w.chapterId}: ${w.message}`),
+      ...diagnostics.repairs.map((r) => `repair: ${r.code} in ${r.chapterId}: ${r.message}${r.page === null ? '' : ` (p. ${r.page})`}`),
+    ],
+    holdings: opinion.holdings.map((h) => `${'  '.repeat(h.level)}${h.label ? `${h.label} ` : ''}${oneLine(h.text)}`),
+    chapters: opinion.chapters.map((ch) => ({
+      id: ch.id,
+      heading: chapterHeading(ch),
+      paragraphs: ch.paragraphs.map((p) => {
+        const pages = p.pages.length > 0 ? ` ${p.pages.join(',')}` : '';
+        return `[${p.kind}${pages}] ${oneLine(p.text)}`;
+      }),
+      footnotes: ch.footnotes.map((fn) => `[${fn.id}] ${oneLine(fn.text)}`),
+    })),
+  };
+}
+
+/**
+ * Line-by-line diff by longest common subsequence. A run of removed lines followed by a
+ * run of added ones is read as lines changed in place, pair by pair, which is what a
+ * reworded paragraph looks like. `at` is the line's 1-based number in `after`, or in
+ * `before` for a removed line.
+ */
+export function diffLines(before: string[], after: string[]): GoldenChange[] {
+  // Most of a chapter is unchanged; only the middle needs the table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endB = before.length;
+  let endA = after.length;
+  while (endB > start && endA > start && before[endB - 1] === after[endA - 1]) { endB--; endA--; }
+
+  const rows = endB - start;
+  const cols = endA - start;
+  // lcs[i][j]: common lines of before[start+i..endB) and after[start+j..endA)
+  const lcs = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[start + i] === after[start + j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: GoldenChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({ kind: 'changed', at: added[k] + 1, before: before[removed[k]], after: after[added[k]] });
+    }
+    for (const i of removed.slice(paired)) changes.push({ kind: 'removed', at: i + 1, text: before[i] });
+    for (const j of added.slice(paired)) changes.push({ kind: 'added', at: j + 1, text: after[j] });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && before[start + i] === after[start + j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(start + j++);
+    } else {
+      removed.push(start + i++);
+    }
+  }
+  flush();
+  return changes;
+}
+
+export function diffSnapshots(before: GoldenSnapshot, after: GoldenSnapshot): GoldenSectionDiff[] {
+  const diffs: GoldenSectionDiff[] = [];
+  const section = (name: string, a: string[], b: string[], status?: GoldenSectionDiff['status']) => {
+    const changes = diffLines(a, b);
+    if (changes.length > 0) diffs.push({ section: name, changes, ...(status && { status }) });
+  };
+
+  section('opinion', before.opinion, after.opinion);
+  section('holdings', before.holdings, after.holdings);
+
+  const was = new Map(before.chapters.map((ch) => [ch.id, ch]));
+  const now = new Set(after.chapters.map((ch) => ch.id));
+  for (const ch of after.chapters) {
+    const old = was.get(ch.id);
+    const status = old ? undefined : 'added';
+    section(ch.id, old ? [old.heading] : [], [ch.heading], status);
+    section(`${ch.id} paragraphs`, old?.paragraphs ?? [], ch.paragraphs, status);
+    section(`${ch.id} footnotes`, old?.footnotes ?? [], ch.footnotes, status);
+  }
+  for (const old of before.chapters) {
+    if (now.has(old.id)) continue;
+    section(old.id, [old.heading], [], 'removed');
+    section(`${old.id} paragraphs`, old.paragraphs, [], 'removed');
+    section(`${old.id} footnotes`, old.footnotes, [], 'removed');
+  }
+  return diffs;
+}
+
+const CONTEXT = 60;
+const MAX_LINE = 240;
+
+function clip(text: string): string {
+  return text.length > MAX_LINE ? `${text.slice(0, MAX_LINE)}…` : text;
+}
+
+/** A changed line shown as the part that changed, in `[-old-]{+new+}` form, with some context */
+export function inlineChange(before: string, after: string): string {
+  let pre = 0;
+  while (pre < before.length && pre < after.length && before[pre] === after[pre]) pre++;
+  let suf = 0;
+  while (
+    suf < before.length - pre && suf < after.length - pre &&
+    before[before.length - 1 - suf] === after[after.length - 1 - suf]
+  ) suf++;
+  // Whole words read better than "[-Revers-]{+Affirm+}ed"
+  const inWord = (ch: string | undefined) => ch !== undefined && !/\s/.test(ch);
+  if (inWord(before[pre]) || inWord(after[pre])) {
+    while (pre > 0 && inWord(before[pre - 1])) pre--;
+  }
+  if (inWord(before[before.length - suf - 1]) || inWord(after[after.length - suf - 1])) {
+    while (suf > 0 && inWord(before[before.length - suf])) suf--;
+  }
+
+  const head = pre > CONTEXT ? `…${before.slice(pre - CONTEXT, pre)}` : before.slice(0, pre);
+  const tailEnd = before.length - suf;
+  const tail = suf > CONTEXT ? `${before.slice(tailEnd, tailEnd + CONTEXT)}…` : before.slice(tailEnd);
+  const removed = before.slice(pre, tailEnd);
+  const added = after.slice(pre, after.length - suf);
+  return `${head}${removed ? `[-${clip(removed)}-]` : ''}${added ? `{+${clip(added)}+}` : ''}${tail}`;
+}
+
+/** The diff as the CLI prints it, one block per section */
+export function formatDiff(diffs: GoldenSectionDiff[]): string {
+  const out: string[] = [];
+  for (const { section, status, changes } of diffs) {
+    out.push(`  ${section}${status ? ` (${status})` : ''}`);
+    for (const change of changes) {
+      const at = `#${change.at}`.padEnd(5);
+      if (change.kind === 'changed') out.push(`    ~ ${at} ${inlineChange(change.before, change.after)}`);
+      else out.push(`    ${change.kind === 'added' ? '+' : '-'} ${at} ${clip(change.text)}`);
+    }
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,179 @@
+#!/usr/bin/env tsx
+/**
+ * Golden-corpus regression check for the parsers.
+ *
+ * Parses every PDF in tests/fixtures, and in any corpus directory given, and compares
+ * each opinion with its committed snapshot, paragraph by paragraph (see golden-diff.ts).
+ * Nothing is fetched: the PDFs are local and so are the snapshots.
+ *
+ * Slip opinions and preliminary prints go through parsePdf. A bound volume ("502bv.pdf")
+ * holds many cases, so a corpus directory lists the ones to check in bound-volumes.json,
+ * by starting page: { "502bv.pdf": [1, 15] }.
+ *
+ * Snapshots for tests/fixtures live in tests/golden; a corpus directory keeps its own in
+ * <dir>/golden.
+ *
+ * Usage:
+ *   npx tsx scripts/golden.ts                      # diff; exits 1 on any change
+ *   npx tsx scripts/golden.ts --corpus ~/opinions  # also check a local corpus
+ *   npx tsx scripts/golden.ts 23-939               # only sources whose name contains "23-939"
+ *   npx tsx scripts/golden.ts --approve [name…]    # accept the current output as the snapshots
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parsePdf } from '../src/lib/parser';
+import { parseBoundVolumeCase } from '../src/lib/bv-parser';
+import type { ParsedOpinion } from '../src/lib/types';
+import { diffSnapshots, formatDiff, toSnapshot, type GoldenSnapshot } from './golden-diff';
+
+interface Source {
+  /** Snapshot file name, without .json */
+  name: string;
+  /** As recorded in the snapshot */
+  label: string;
+  snapshotDir: string;
+  parse: () => Promise<ParsedOpinion>;
+}
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = resolve(__dirname, '..');
+const BV_FILE = /^(\d+)bv\.pdf$/i;
+
+function readPdf(path: string): ArrayBuffer {
+  const buf = readFileSync(path);
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+}
+
+function listSources(pdfDir: string, snapshotDir: string): Source[] {
+  const manifestPath = join(pdfDir, 'bound-volumes.json');
+  const boundVolumes: Record<string, number[]> = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, 'utf-8'))
+    : {};
+
+  const sources: Source[] = [];
+  for (const file of readdirSync(pdfDir).filter((f) => f.toLowerCase().endsWith('.pdf')).sort()) {
+    const path = join(pdfDir, file);
+    const bv = file.match(BV_FILE);
+    if (!bv) {
+      sources.push({
+        name: file.replace(/\.pdf$/i, ''),
+        label: file,
+        snapshotDir,
+        parse: () => parsePdf(readPdf(path), pathToFileURL(path).href),
+      });
+      continue;
+    }
+    const pages = boundVolumes[file];
+    if (!pages) {
+      console.warn(`  ${file}: no cases listed in bound-volumes.json; skipped`);
+      continue;
+    }
+    for (const page of pages) {
+      sources.push({
+        name: `${file.replace(/\.pdf$/i, '')}@${page}`,
+        label: `${file}@${page}`,
+        snapshotDir,
+        parse: () => parseBoundVolumeCase(readPdf(path), Number(bv[1]), page),
+      });
+    }
+  }
+  return sources;
+}
+
+function parseArgs(argv: string[]) {
+  const corpora: string[] = [];
+  const filters: string[] = [];
+  let approve = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--approve') approve = true;
+    else if (arg === '--corpus') corpora.push(resolve(argv[++i] ?? '.'));
+    else if (arg.startsWith('--corpus=')) corpora.push(resolve(arg.slice('--corpus='.length)));
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else filters.push(arg);
+  }
+  return { approve, corpora, filters };
+}
+
+async function main() {
+  const { approve, corpora, filters } = parseArgs(process.argv.slice(2));
+  const dirs: [string, string][] = [
+    [join(ROOT, 'tests/fixtures'), join(ROOT, 'tests/golden')],
+    ...corpora.map((dir): [string, string] => [dir, join(dir, 'golden')]),
+  ];
+
+  let sources = dirs.flatMap(([pdfDir, snapshotDir]) => listSources(pdfDir, snapshotDir));
+  if (filters.length > 0) sources = sources.filter((s) => filters.some((f) => s.name.includes(f)));
+
+  let changed = 0;
+  let failed = 0;
+  for (const source of sources) {
+    const file = join(source.snapshotDir, `${source.name}.json`);
+    let snapshot: GoldenSnapshot;
+    try {
+      snapshot = toSnapshot(source.label, await source.parse());
+    } catch (err) {
+      console.log(`✗ ${source.label}: parse failed: ${(err as Error).message}`);
+      failed++;
+      changed++;
+      continue;
+    }
+
+    if (approve) {
+      mkdirSync(source.snapshotDir, { recursive: true });
+      writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+      console.log(`✓ ${source.label}: approved`);
+      continue;
+    }
+    if (!existsSync(file)) {
+      console.log(`+ ${source.label}: new, no snapshot yet`);
+      changed++;
+      continue;
+    }
+    const diffs = diffSnapshots(JSON.parse(readFileSync(file, 'utf-8')), snapshot);
+    if (diffs.length === 0) {
+      console.log(`✓ ${source.label}`);
+      continue;
+    }
+    const count = diffs.reduce((n, d) => n + d.changes.length, 0);
+    console.log(`~ ${source.label}: ${count} change${count === 1 ? '' : 's'}`);
+    console.log(formatDiff(diffs));
+    changed++;
+  }
+
+  // Snapshots whose PDF is gone; approving a full run clears them out
+  if (filters.length === 0) {
+    const names = new Set(sources.map((s) => join(s.snapshotDir, `${s.name}.json`)));
+    for (const [, snapshotDir] of dirs) {
+      if (!existsSync(snapshotDir)) continue;
+      for (const f of readdirSync(snapshotDir).filter((f) => f.endsWith('.json'))) {
+        const file = join(snapshotDir, f);
+        if (names.has(file)) continue;
+        if (approve) {
+          rmSync(file);
+          console.log(`- ${f}: removed, its PDF is gone`);
+        } else {
+          console.log(`- ${f}: its PDF is gone`);
+          changed++;
+        }
+      }
+    }
+  }
+
+  if (approve) {
+    if (failed > 0) process.exit(1);
+    return;
+  }
+  if (changed > 0) {
+    console.log(`\n${changed} of ${sources.length} differ. Review the diff, then approve with --approve.`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${sources.length} match their snapshots.`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
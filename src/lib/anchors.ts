@@ -0,0 +1,95 @@
+import type { Chapter, Paragraph } from './types';
+import { spansToPlainText } from './spans';
+
+/**
+ * Paragraph anchors, for deep links and saved reading positions. A paragraph is found by
+ * its chapter, the printed page it starts on and its place among the paragraphs that
+ * start there: `dissenting-thomas/p-14-3` is the third paragraph of Justice Thomas's
+ * dissent to begin on page 14 (`p-3`, the third of the chapter, when the PDF has no page
+ * numbers). Pages are the printed ones, so an anchor outlives any parser change that
+ * doesn't move paragraph breaks on its page.
+ *
+ * Each paragraph also carries a hash of its text, normalized down to letters and digits,
+ * so it's blind to spacing, punctuation, emphasis and footnote numbering. Together they
+ * survive a re-parse: the hash finds a paragraph whose anchor moved, and the anchor one
+ * whose text was fixed.
+ */
+
+export interface ParagraphTarget {
+  chapterId: string;
+  anchor: string;
+  /** When known, as in a saved position: it wins over the anchor */
+  textHash?: string;
+}
+
+/** FNV-1a over the paragraph's letters and digits, as 8 hex digits */
+export function textHash(paragraph: Pick<Paragraph, 'spans'>): string {
+  const normalized = spansToPlainText(paragraph.spans)
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Set `anchor` and `textHash` on a chapter's paragraphs, in order */
+export function anchorParagraphs(paragraphs: Pick<Paragraph, 'spans' | 'pages' | 'anchor' | 'textHash'>[]): void {
+  const onPage = new Map<number, number>();
+  paragraphs.forEach((para, i) => {
+    const page = para.pages[0];
+    if (page === undefined) {
+      para.anchor = `p-${i + 1}`;
+    } else {
+      const n = (onPage.get(page) ?? 0) + 1;
+      onPage.set(page, n);
+      para.anchor = `p-${page}-${n}`;
+    }
+    para.textHash = textHash(para);
+  });
+}
+
+/** "dissenting-thomas/p-14-3" from a URL fragment, with or without its "#" */
+export function parseAnchorFragment(fragment: string): ParagraphTarget | null {
+  const m = decodeURIComponent(fragment.replace(/^#/, '')).match(/^([\w-]+)\/(p-\d+(?:-\d+)?)$/);
+  return m ? { chapterId: m[1], anchor: m[2] } : null;
+}
+
+/**
+ * The paragraph a target points at, as an index into its chapter's paragraphs: the one
+ * with its text hash (the nearest to its anchor's page, if the text repeats), else the
+ * one with its anchor, else the nearest paragraph on its page. Null if the chapter's gone.
+ */
+export function findParagraph(chapters: Chapter[], target: ParagraphTarget): number | null {
+  const chapter = chapters.find((c) => c.id === target.chapterId);
+  if (!chapter || chapter.paragraphs.length === 0) return null;
+  const { paragraphs } = chapter;
+  const m = target.anchor.match(/^p-(\d+)(?:-(\d+))?$/);
+  const page = m?.[2] ? Number(m[1]) : null;
+
+  if (target.textHash) {
+    const same = paragraphs
+      .map((para, i) => ({ para, i }))
+      .filter(({ para }) => para.textHash === target.textHash);
+    const exact = same.find(({ para }) => para.anchor === target.anchor);
+    if (exact) return exact.i;
+    if (same.length > 0) {
+      const distance = (para: Paragraph) => page === null || para.pages[0] === undefined ? 0 : Math.abs(para.pages[0] - page);
+      return same.reduce((best, cur) => (distance(cur.para) < distance(best.para) ? cur : best)).i;
+    }
+  }
+
+  const exact = paragraphs.findIndex((para) => para.anchor === target.anchor);
+  if (exact >= 0) return exact;
+  if (!m) return null;
+  if (page === null) return Math.min(Number(m[1]), paragraphs.length) - 1;
+
+  // Paragraph breaks on the page moved: the last that starts there by then, or one running over it
+  const starting = paragraphs.map((para, i) => (para.pages[0] === page ? i : -1)).filter((i) => i >= 0);
+  if (starting.length > 0) return starting[Math.min(Number(m[2]), starting.length) - 1];
+  const spanning = paragraphs.findIndex((para) => para.pages.includes(page));
+  return spanning >= 0 ? spanning : null;
+}
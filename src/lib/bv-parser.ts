@@ -1,4 +1,14 @@
-import type { ParsedOpinion } from './types';
+import type { Chapter, ParsedOpinion } from './types';
+import { OPINION_SCHEMA_VERSION, PARSER_VERSION } from './schema';
+import { describeChapters } from './joinders';
+import { extractHoldings } from './syllabus';
+import { extractDockets } from './dockets';
+import { extractProceduralDates } from './dates';
+import { chiefJusticeOn } from './justices';
+import { diagnoseOpinion } from './diagnostics';
+import { reconcileChapterFootnotes, reconcilePageFootnotes } from './footnotes';
+import type { CitedCases, Emphasis, SectionHeader } from './parser';
+import { isPageNumber, LAYOUT_PROFILES } from './layout';
 
 interface TextItem {
   str: string;
@@ -12,6 +22,8 @@ interface PageTextContent {
   items: (TextItem | { type: string })[];
 }
 
+const LAYOUT = LAYOUT_PROFILES['bound-volume'];
+
 /**
  * Find the front matter offset for a bound volume PDF.
  * Scans pages looking for the first page with a "Cite as:" header containing
@@ -37,7 +49,7 @@ async function findFrontMatterOffset(doc: any): Promise<number> {
     for (const item of textContent.items) {
       if ('str' in item && item.str.trim()) {
         const y = item.transform[5];
-        if (y >= pageHeight * 0.80) {
+        if (y >= pageHeight * LAYOUT.headerBand.min) {
           headerItems.push({ text: item.str.trim(), y, x: item.transform[4] });
         }
       }
@@ -52,10 +64,8 @@ async function findFrontMatterOffset(doc: any): Promise<number> {
     // For bound volumes "Cite as: X U.S. Y" is the CASE START page, not the current
     // printed page. The actual printed page number appears as a standalone 3+-digit
     // number at the left or right margin of the upper band row (y > 83%).
-    const upperItems = headerItems.filter(it => it.y > pageHeight * 0.83);
-    const pageNumItem = upperItems.find(
-      it => /^\d+$/.test(it.text) && (it.x < 200 || it.x > 400)
-    );
+    const upperItems = headerItems.filter(it => it.y > pageHeight * LAYOUT.topRow.min);
+    const pageNumItem = upperItems.find(it => isPageNumber(LAYOUT, it.text, it.x));
     if (pageNumItem) {
       // Bound volume: offset = pdfIndex - printed page number
       return i - parseInt(pageNumItem.text);
@@ -85,7 +95,7 @@ async function getCiteAsPage(doc: any, pageIndex: number): Promise<number | null
     if ('str' in item && item.str.trim()) {
       const y = item.transform[5];
       // Check both slip-opinion top area (> 90%) and bound-volume band (80–84%)
-      if (y >= pageHeight * 0.80) {
+      if (y >= pageHeight * LAYOUT.headerBand.min) {
         headerItems.push({ text: item.str.trim() });
       }
     }
@@ -145,7 +155,7 @@ export async function parseBoundVolumeCase(
     const sc: PageTextContent = await sp.getTextContent();
     const upperItems: { text: string; x: number }[] = [];
     for (const item of sc.items) {
-      if ('str' in item && item.str.trim() && item.transform[5] > sh * 0.83) {
+      if ('str' in item && item.str.trim() && item.transform[5] > sh * LAYOUT.topRow.min) {
         upperItems.push({ text: item.str.trim(), x: item.transform[4] });
       }
     }
@@ -159,8 +169,8 @@ export async function parseBoundVolumeCase(
     if (!new RegExp(`Cite\\s+as:\\s*\\d+\\s+U\\.\\s*S\\.\\s+${startPage}\\b`).test(upperText)) continue;
 
     // Found the "Cite as: X U.S. startPage" page. The standalone page number
-    // at left (x < 200) or right (x > 400) margin gives the current printed page.
-    const pageNumItem = upperItems.find(it => /^\d+$/.test(it.text) && (it.x < 200 || it.x > 400));
+    // at the left or right margin gives the current printed page.
+    const pageNumItem = upperItems.find(it => isPageNumber(LAYOUT, it.text, it.x));
     if (pageNumItem) {
       firstPdfPage = startPage + (si - parseInt(pageNumItem.text));
     } else {
@@ -184,7 +194,7 @@ export async function parseBoundVolumeCase(
     const lh = lp.getViewport({ scale: 1.0 }).height;
     const lc: PageTextContent = await lp.getTextContent();
     const bandText = lc.items
-      .filter(item => 'str' in item && item.str.trim() && item.transform[5] >= lh * 0.80)
+      .filter(item => 'str' in item && item.str.trim() && item.transform[5] >= lh * LAYOUT.headerBand.min)
       .map(item => (item as TextItem).str.trim())
       .join(' ');
 
@@ -210,9 +220,9 @@ export async function parseBoundVolumeCase(
 
       const upperBandItems: { text: string; x: number }[] = [];
       for (const item of tc.items) {
-        // Stay within the header band (80–90%): avoids typesetter codes at the very top (> 90%)
+        // Stay within the top row: avoids typesetter codes at the very top
         if ('str' in item && item.str.trim() &&
-            item.transform[5] > th * 0.83 && item.transform[5] <= th * 0.90) {
+            item.transform[5] > th * LAYOUT.topRow.min && item.transform[5] <= th * LAYOUT.topRow.max) {
           upperBandItems.push({ text: item.str.trim(), x: item.transform[4] });
         }
       }
@@ -223,7 +233,7 @@ export async function parseBoundVolumeCase(
 
       // Exclude standalone page numbers at left/right margins
       const nameItems = upperBandItems.filter(
-        it => !(/^\d+$/.test(it.text) && (it.x < 200 || it.x > 400))
+        it => !isPageNumber(LAYOUT, it.text, it.x)
       );
       const candidateText = nameItems.map(it => it.text.trim()).join(' ').trim();
       if (!candidateText) continue; // first case page or page with only a page number
@@ -234,10 +244,13 @@ export async function parseBoundVolumeCase(
   }
 
   // Extract text from our page range using the same approach as parsePdf
-  const { buildParagraphs, tagBoilerplate, parseSectionHeader, dehyphenate, markCitations } = await import('./parser');
+  const {
+    buildParagraphs, tagBoilerplate, toParagraphs, toFootnotes, collectCitedCases, withPageMarker, readPage, stripEmphasis,
+  } = await import('./parser');
+  const fontEmphases = new Map<string, Emphasis | null>();
 
   interface PageResult {
-    sectionHeader: { raw: string; normalized: string; id: string; title: string; author: string | null } | null;
+    sectionHeader: SectionHeader | null;
     bodyLines: string[];
     footnotes: Map<number, string>;
     footnoteContinuation: string;
@@ -246,281 +259,23 @@ export async function parseBoundVolumeCase(
   const pages: PageResult[] = [];
 
   for (let i = firstPdfPage; i <= lastPdfPage; i++) {
-    const page = await doc.getPage(i);
-    const textContent: PageTextContent = await page.getTextContent();
-    const viewport = page.getViewport({ scale: 1.0 });
-    const pageHeight = viewport.height;
-
-    const hYMin = pageHeight * 0.80;
-    const hYMax = pageHeight * 0.84;
-
-    const allItems: { y: number; x: number; text: string; fontSize: number }[] = [];
-    for (const item of textContent.items) {
-      if ('str' in item && item.str.trim()) {
-        allItems.push({
-          y: item.transform[5],
-          x: item.transform[4],
-          text: item.str,
-          fontSize: Math.abs(item.transform[0]),
-        });
-      }
-    }
-
-    // Extract section header using lowest-y-row approach.
-    // Bound volumes (and prelim prints) have two rows in the band:
-    //   upper row (y ≈ 83–84%): page number + "Cite as:" or case name
-    //   lower row (y ≈ 80–81%): section label (Syllabus, Opinion of the Court, etc.)
-    // By selecting only the lowest-y row we isolate the section label.
-    const headerItems = allItems.filter(it => it.y >= hYMin && it.y <= hYMax);
-    let sectionHeader = null;
-    if (headerItems.length > 0) {
-      const snapY = (y: number) => Math.round(y / 2) * 2;
-      const minY = Math.min(...headerItems.map(it => snapY(it.y)));
-      const lowestRow = headerItems.filter(it => snapY(it.y) <= minY + 4);
-      lowestRow.sort((a, b) => a.x - b.x);
-      const headerText = lowestRow.map(it => it.text.trim()).join(' ');
-      sectionHeader = parseSectionHeader(headerText);
-    }
-
-    // Body text
-    const bodyItems = allItems.filter(it => {
-      const y = it.y;
-      if (y >= hYMin) return false;
-      if (y < 60) return false;
-      if (y > pageHeight - 60) {
-        const t = it.text.trim();
-        if (/^Cite as:/.test(t)) return false;
-        if (/^\d+$/.test(t)) return false;
-        if (/^\(Slip Opinion\)/.test(t)) return false;
-      }
-      return true;
-    });
-
-    bodyItems.sort((a, b) => {
-      const dy = Math.round(b.y) - Math.round(a.y);
-      return dy !== 0 ? dy : a.x - b.x;
+    const text = await readPage(await doc.getPage(i), LAYOUT, fontEmphases);
+
+    // Pages within a case are consecutive, so the printed page follows from firstPdfPage
+    const printedPage = startPage + (i - firstPdfPage);
+    pages.push({
+      sectionHeader: text.sectionHeader,
+      bodyLines: withPageMarker(text.bodyLines, printedPage, text.startsParagraph),
+      footnotes: text.footnotes,
+      footnoteContinuation: text.footnoteContinuation,
     });
-
-    // Dominant body font size
-    const itemFSFreq = new Map<number, number>();
-    for (const item of bodyItems) {
-      const fs = Math.round(item.fontSize);
-      itemFSFreq.set(fs, (itemFSFreq.get(fs) || 0) + 1);
-    }
-    let bodyFS = 0;
-    let maxFreq = 0;
-    for (const [fs, freq] of itemFSFreq) {
-      if (freq > maxFreq) { maxFreq = freq; bodyFS = fs; }
-    }
-
-    // Find footnote separator
-    let separatorY = -1;
-    for (const item of bodyItems) {
-      if (/^——+$/.test(item.text.trim()) && bodyFS > 0 && item.fontSize < bodyFS - 1) {
-        separatorY = item.y;
-        break;
-      }
-    }
-
-    // Snap superscript footnote refs
-    for (let idx = 0; idx < bodyItems.length; idx++) {
-      const item = bodyItems[idx];
-      const trimmedText = item.text.trim();
-      const isAboveSep = separatorY < 0 || item.y > separatorY + 2;
-      const isSuperRef = (
-        isAboveSep &&
-        /^\d{1,2}$/.test(trimmedText) &&
-        bodyFS > 0 &&
-        item.fontSize < bodyFS - 2.5
-      );
-      if (!isSuperRef) continue;
-
-      let onBodyLine = false;
-      for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
-        if (j === idx) continue;
-        const other = bodyItems[j];
-        if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - 2.5) continue;
-        if (Math.abs(Math.round(other.y) - Math.round(item.y)) <= 2) {
-          onBodyLine = true;
-          break;
-        }
-      }
-      if (onBodyLine) continue;
-
-      let nearestY = item.y;
-      let minDist = Infinity;
-      for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
-        if (j === idx) continue;
-        const other = bodyItems[j];
-        if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - 2.5) continue;
-        const dist = Math.abs(other.y - item.y);
-        if (dist < minDist) {
-          minDist = dist;
-          nearestY = other.y;
-        }
-      }
-      bodyItems[idx] = { ...item, y: nearestY };
-    }
-
-    bodyItems.sort((a, b) => {
-      const dy = Math.round(b.y) - Math.round(a.y);
-      return dy !== 0 ? dy : a.x - b.x;
-    });
-
-    // Build text lines
-    const textLines: { text: string; avgFontSize: number; startX: number }[] = [];
-    let curText = '';
-    let curStartX = 0;
-    let lastY = -1;
-    let lastFontSize = 0;
-    let fsSum = 0;
-    let fsCount = 0;
-
-    for (const item of bodyItems) {
-      const trimmedItem = item.text.trim();
-      const isAboveSeparator = separatorY < 0 || item.y > separatorY + 2;
-      const isSuperscriptRef = (
-        isAboveSeparator &&
-        /^\d{1,2}$/.test(trimmedItem) &&
-        bodyFS > 0 &&
-        item.fontSize < bodyFS - 2.5
-      );
-
-      if (lastY >= 0 && Math.abs(item.y - lastY) > 2) {
-        if (curText.trim()) textLines.push({ text: curText.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
-        if (isSuperscriptRef) {
-          curText = `{{fn:${trimmedItem}}}`;
-        } else {
-          curText = item.text;
-        }
-        curStartX = item.x;
-        fsSum = item.fontSize;
-        fsCount = 1;
-      } else {
-        const isSmallCap = (
-          trimmedItem.length > 0 &&
-          /^[A-Z]+$/.test(trimmedItem) &&
-          item.fontSize < lastFontSize - 0.5 &&
-          curText.length > 0 &&
-          /[A-Z]$/.test(curText)
-        );
-
-        if (isSuperscriptRef) {
-          curText += `{{fn:${trimmedItem}}}`;
-        } else if (isSmallCap) {
-          curText += trimmedItem;
-        } else {
-          if (!curText) curStartX = item.x;
-          curText += (curText && !curText.endsWith(' ') ? ' ' : '') + item.text;
-        }
-        fsSum += item.fontSize;
-        fsCount++;
-      }
-      lastY = item.y;
-      lastFontSize = item.fontSize;
-    }
-    if (curText.trim()) textLines.push({ text: curText.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
-
-    // Find dominant left margin
-    const bodyFontLines = textLines.filter(
-      l => l.avgFontSize > 0 && bodyFS > 0 && l.avgFontSize >= bodyFS - 1
-    );
-    const xFreq = new Map<number, number>();
-    for (const line of bodyFontLines) {
-      const rx = Math.round(line.startX);
-      xFreq.set(rx, (xFreq.get(rx) || 0) + 1);
-    }
-    let bodyLeftMargin = 0;
-    let maxXFreq = 0;
-    for (const [x, freq] of xFreq) {
-      if (freq > maxXFreq) { maxXFreq = freq; bodyLeftMargin = x; }
-    }
-
-    // Split into body and footnotes
-    const bodyLines: string[] = [];
-    const footnotes = new Map<number, string>();
-
-    let separatorIdx = -1;
-    for (let li = 0; li < textLines.length; li++) {
-      if (/^——+$/.test(textLines[li].text.trim())) {
-        const isSmall = textLines[li].avgFontSize > 0 && bodyFS > 0 && textLines[li].avgFontSize < bodyFS - 1;
-        if (isSmall) {
-          separatorIdx = li;
-          break;
-        }
-      }
-    }
-
-    const bodyEnd = separatorIdx >= 0 ? separatorIdx : textLines.length;
-    for (let li = 0; li < bodyEnd; li++) {
-      const line = textLines[li];
-      const trimmed = line.text.trim();
-
-      const indent = line.startX - bodyLeftMargin;
-      const isBodyFont = Math.abs(line.avgFontSize - bodyFS) < 1.5;
-      const isCentered = bodyLeftMargin > 0 && indent > 50 && isBodyFont;
-
-      if (isCentered && /^(I{1,4}V?|VI{0,3}|IX|X{0,3})$/.test(trimmed)) {
-        bodyLines.push('');
-        bodyLines.push(`{{h1:${trimmed}}}`);
-        bodyLines.push('');
-        continue;
-      }
-      if (isCentered && /^[A-Z]$/.test(trimmed)) {
-        bodyLines.push('');
-        bodyLines.push(`{{h2:${trimmed}}}`);
-        bodyLines.push('');
-        continue;
-      }
-      if (isCentered && /^\d{1,2}$/.test(trimmed)) {
-        bodyLines.push('');
-        bodyLines.push(`{{h3:${trimmed}}}`);
-        bodyLines.push('');
-        continue;
-      }
-
-      const isParagraphIndent = bodyLeftMargin > 0 && indent > 5 && indent < 50 && isBodyFont;
-      if (isParagraphIndent && bodyLines.length > 0) {
-        bodyLines.push('');
-      }
-
-      bodyLines.push(line.text);
-    }
-
-    let footnoteContinuation = '';
-    if (separatorIdx >= 0) {
-      let fnId = 0;
-      let fnText = '';
-
-      for (let li = separatorIdx + 1; li < textLines.length; li++) {
-        const line = textLines[li];
-        const trimmed = line.text.trim();
-
-        if (/^\d{1,2}$/.test(trimmed) && line.avgFontSize < bodyFS - 3) {
-          if (fnId > 0) footnotes.set(fnId, fnText.trim());
-          fnId = parseInt(trimmed);
-          fnText = '';
-          continue;
-        }
-
-        if (/^——+$/.test(trimmed)) continue;
-
-        if (fnId > 0) {
-          fnText += ' ' + trimmed;
-        } else {
-          footnoteContinuation += ' ' + trimmed;
-        }
-      }
-      if (fnId > 0) footnotes.set(fnId, fnText.trim());
-      footnoteContinuation = footnoteContinuation.trim();
-    }
-
-    pages.push({ sectionHeader, bodyLines, footnotes, footnoteContinuation });
   }
 
+  const repairs = reconcilePageFootnotes(pages);
+
   // Group pages into chapters (same logic as parsePdf)
   interface ChapterData {
-    header: { raw: string; normalized: string; id: string; title: string; author: string | null };
+    header: SectionHeader;
     text: string;
     footnotes: Map<number, string>;
   }
@@ -541,10 +296,10 @@ export async function parseBoundVolumeCase(
       // lookahead window of the next few lines to check for the confirmation keyword.
       let splitIdx = -1;
       for (let i = 0; i < page.bodyLines.length; i++) {
-        const t = page.bodyLines[i].trim();
+        const t = stripEmphasis(page.bodyLines[i]).trim();
         if (!t) continue;
         if (/^(Justice\s+\w+|Chief\s+Justice\s+\w+|The\s+Chief\s+Justice)\b/i.test(t)) {
-          const window = page.bodyLines.slice(i, Math.min(i + 5, page.bodyLines.length)).join(' ');
+          const window = stripEmphasis(page.bodyLines.slice(i, Math.min(i + 5, page.bodyLines.length)).join(' '));
           if (/\b(delivered|concurring|dissenting|join\b)/i.test(window)) {
             splitIdx = i;
             break;
@@ -553,6 +308,9 @@ export async function parseBoundVolumeCase(
       }
       const preLines = splitIdx > 0 ? page.bodyLines.slice(0, splitIdx) : [];
       const newLines = splitIdx >= 0 ? page.bodyLines.slice(splitIdx) : [...page.bodyLines];
+      // The new chapter starts mid-page: give it the page's marker too
+      const pageMarker = preLines.find(l => /^\{\{pg:\d+\}\}$/.test(l));
+      if (pageMarker) newLines.unshift(pageMarker);
 
       if (currentHeader) {
         currentLines.push(...preLines);
@@ -596,20 +354,25 @@ export async function parseBoundVolumeCase(
     chapterDatas.push({ header: currentHeader, text: currentLines.join('\n'), footnotes: currentFootnotes });
   }
 
-  // Build final chapters
-  const finalChapters = chapterDatas.map(cd => {
-    const footnotes: { id: number; text: string }[] = [];
-    for (const [id, text] of cd.footnotes) {
-      footnotes.push({ id, text: markCitations(dehyphenate(text)) });
-    }
-    footnotes.sort((a, b) => a.id - b.id);
+  // The transition page's notes went to the new chapter, whatever section references them
+  repairs.push(...reconcileChapterFootnotes(chapterDatas));
+
+  // The decision date settles which Justices a surname or "THE CHIEF JUSTICE" means
+  const dates = extractProceduralDates(stripEmphasis(pages.slice(0, 3).map((p) => p.bodyLines.join('\n')).join('\n')));
 
+  // Build final chapters (sharing one full-cite registry so short forms resolve across them)
+  const citedCases: CitedCases = new Map();
+  const finalChapters: Chapter[] = chapterDatas.map(cd => {
+    collectCitedCases([cd.text, ...cd.footnotes.values()], citedCases);
     return {
       id: cd.header.id,
       title: cd.header.title,
+      kind: 'other',
       author: cd.header.author,
-      paragraphs: tagBoilerplate(buildParagraphs(cd.text)),
-      footnotes,
+      role: '',
+      joinedBy: [],
+      paragraphs: toParagraphs(tagBoilerplate(buildParagraphs(cd.text, citedCases, dates.decided)), dates.decided),
+      footnotes: toFootnotes(cd.footnotes, citedCases, dates.decided),
     };
   });
 
@@ -618,19 +381,33 @@ export async function parseBoundVolumeCase(
     finalChapters.push({
       id: 'opinion',
       title: 'Opinion',
+      kind: 'other',
       author: null,
-      paragraphs: buildParagraphs(allText),
+      role: '',
+      joinedBy: [],
+      paragraphs: toParagraphs(buildParagraphs(allText, new Map(), dates.decided), dates.decided),
       footnotes: [],
     });
   }
 
+  describeChapters(finalChapters, chiefJusticeOn(dates.decided).name);
+
   const sourceUrl = `https://www.supremecourt.gov/opinions/boundvolumes/${volume}bv.pdf`;
 
+  const dockets = extractDockets(finalChapters);
+
   return {
+    schemaVersion: OPINION_SCHEMA_VERSION,
+    parserVersion: PARSER_VERSION,
     caseTitle,
-    docketNumber: '',
+    docketNumber: dockets[0]?.number ?? '',
+    dockets,
     decidedDate: '',
+    dates,
+    lowerCourtId: dockets[0]?.lowerCourtId ?? '',
     sourceUrl,
     chapters: finalChapters,
+    ...extractHoldings(finalChapters),
+    diagnostics: diagnoseOpinion({ chapters: finalChapters }, repairs),
   };
 }
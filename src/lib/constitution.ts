@@ -0,0 +1,76 @@
+import constitution from '../data/constitution.json';
+
+/**
+ * The text of the Constitution, bundled so the Reader can show a cited clause without
+ * a network call. Clause numbers follow the conventional numbering the Court cites
+ * ("Art. I, §8, cl. 3"); provisions without numbered sections (Art. V–VII, most
+ * amendments) hold a single section whose number is null.
+ */
+
+export interface ConstitutionSection {
+  number: string | null;
+  clauses: string[];
+}
+
+export interface ConstitutionProvision {
+  /** Year an amendment was ratified; absent for the original articles */
+  ratified?: number;
+  repealed?: number;
+  sections: ConstitutionSection[];
+}
+
+const ARTICLES: Record<string, ConstitutionProvision> = constitution.articles;
+const AMENDMENTS: Record<string, ConstitutionProvision> = constitution.amendments;
+
+const ROMAN: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+/** "XIV" → "14"; anything that isn't a Roman numeral comes back unchanged. */
+export function romanToArabic(numeral: string): string {
+  if (!/^[IVX]+$/.test(numeral)) return numeral;
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN[numeral[i]];
+    const next = ROMAN[numeral[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return String(total);
+}
+
+/** An article (Roman numeral, "I"–"VII") or amendment (Arabic, "1"–"27"), if it exists. */
+export function getProvision(part: 'article' | 'amendment', number: string): ConstitutionProvision | null {
+  return (part === 'article' ? ARTICLES[number] : AMENDMENTS[number]) ?? null;
+}
+
+/**
+ * Whether "Art. I, §8, cl. 3" names a real provision. Treaties and state constitutions
+ * use the same "Art." abbreviation, so a section or clause the Constitution doesn't
+ * have means the citation isn't to it. Empty strings mean the part wasn't cited.
+ */
+export function isConstitutionProvision(
+  part: 'article' | 'amendment', number: string, section: string, clause: string
+): boolean {
+  const provision = getProvision(part, number);
+  if (!provision) return false;
+  if (!section) {
+    if (!clause) return true;
+    // "Art. VI, cl. 2" — only provisions without numbered sections have bare clauses
+    const unnumbered = provision.sections.find((s) => s.number === null);
+    return !!unnumbered && parseInt(clause) >= 1 && parseInt(clause) <= unnumbered.clauses.length;
+  }
+  const sec = provision.sections.find((s) => s.number === section);
+  if (!sec) return false;
+  return !clause || (parseInt(clause) >= 1 && parseInt(clause) <= sec.clauses.length);
+}
+
+/** Heading for the modal: "Article I" / "Amendment XIV". */
+export function provisionTitle(part: 'article' | 'amendment', number: string): string {
+  if (part === 'article') return `Article ${number}`;
+  const n = parseInt(number);
+  const numerals: [number, string][] = [[10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let roman = '';
+  let rest = n;
+  for (const [value, numeral] of numerals) {
+    while (rest >= value) { roman += numeral; rest -= value; }
+  }
+  return `Amendment ${roman}`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Expand the court abbreviations used in Supreme Court citation parentheticals
+ * ("CA9 2021", "SDNY 2019", "ND Cal. 2020") into readable court names, and reduce the
+ * court names printed in captions back to those abbreviations.
+ */
+
+const CIRCUITS: Record<string, string> = {
+  '1': 'First', '2': 'Second', '3': 'Third', '4': 'Fourth', '5': 'Fifth', '6': 'Sixth',
+  '7': 'Seventh', '8': 'Eighth', '9': 'Ninth', '10': 'Tenth', '11': 'Eleventh',
+};
+
+const STATES: Record<string, string> = {
+  'Ala.': 'Alabama', 'Alaska': 'Alaska', 'Ariz.': 'Arizona', 'Ark.': 'Arkansas', 'Cal.': 'California',
+  'Colo.': 'Colorado', 'Conn.': 'Connecticut', 'Del.': 'Delaware', 'Fla.': 'Florida', 'Ga.': 'Georgia',
+  'Haw.': 'Hawaii', 'Idaho': 'Idaho', 'Ill.': 'Illinois', 'Ind.': 'Indiana', 'Iowa': 'Iowa',
+  'Kan.': 'Kansas', 'Ky.': 'Kentucky', 'La.': 'Louisiana', 'Me.': 'Maine', 'Md.': 'Maryland',
+  'Mass.': 'Massachusetts', 'Mich.': 'Michigan', 'Minn.': 'Minnesota', 'Miss.': 'Mississippi',
+  'Mo.': 'Missouri', 'Mont.': 'Montana', 'Neb.': 'Nebraska', 'Nev.': 'Nevada', 'N. H.': 'New Hampshire',
+  'N. J.': 'New Jersey', 'N. M.': 'New Mexico', 'N. Y.': 'New York', 'N. C.': 'North Carolina',
+  'N. D.': 'North Dakota', 'Ohio': 'Ohio', 'Okla.': 'Oklahoma', 'Ore.': 'Oregon', 'Pa.': 'Pennsylvania',
+  'R. I.': 'Rhode Island', 'S. C.': 'South Carolina', 'S. D.': 'South Dakota', 'Tenn.': 'Tennessee',
+  'Tex.': 'Texas', 'Utah': 'Utah', 'Vt.': 'Vermont', 'Va.': 'Virginia', 'Wash.': 'Washington',
+  'W. Va.': 'West Virginia', 'Wis.': 'Wisconsin', 'Wyo.': 'Wyoming', 'P. R.': 'Puerto Rico',
+};
+
+const DISTRICT_PREFIXES: Record<string, string> = {
+  N: 'Northern', S: 'Southern', E: 'Eastern', W: 'Western', C: 'Central', M: 'Middle',
+};
+
+// SDNY / EDNY etc. are written without a space, so they can't be split mechanically
+const NY_DISTRICTS: Record<string, string> = {
+  SDNY: 'Southern District of New York', EDNY: 'Eastern District of New York',
+  NDNY: 'Northern District of New York', WDNY: 'Western District of New York',
+};
+
+/** Normalize "N.Y." / "N. Y." / "NY" spacing so the state table can be keyed one way. */
+function normalizeState(state: string): string {
+  return state.replace(/^([A-Z])\.?\s*([A-Z])\.?$/, '$1. $2.').replace(/^([A-Z])\.?\s*([A-Z][a-z]+)\.$/, '$1. $2.');
+}
+
+/**
+ * Readable name of the court that decided a cited case.
+ * `court` is the parenthetical abbreviation; when it's empty the reporter implies the court.
+ */
+export function describeCourt(court: string, reporter: string): string {
+  const c = court.trim();
+  if (!c) {
+    if (/^(S\. Ct\.|L\. Ed\.)/.test(reporter)) return 'Supreme Court of the United States';
+    if (/^F\. Supp\./.test(reporter)) return 'U.S. District Court';
+    return 'U.S. Court of Appeals';
+  }
+
+  const circuit = c.match(/^CA(\d{1,2})$/);
+  if (circuit && CIRCUITS[circuit[1]]) return `U.S. Court of Appeals for the ${CIRCUITS[circuit[1]]} Circuit`;
+  if (/^CADC$/.test(c)) return 'U.S. Court of Appeals for the D.C. Circuit';
+  if (/^(CAFC|CA ?Fed\.)$/.test(c)) return 'U.S. Court of Appeals for the Federal Circuit';
+  if (/^(DC|D\. ?D\. ?C\.)$/.test(c)) return 'U.S. District Court for the District of Columbia';
+  if (NY_DISTRICTS[c]) return `U.S. District Court for the ${NY_DISTRICTS[c]}`;
+
+  // "ND Cal." / "E. D. Va." / "D. Mass."
+  const district = c.match(/^([NSEWCM])?\.?\s*D\.?\s+(.+)$/);
+  if (district) {
+    const state = STATES[normalizeState(district[2])] ?? STATES[district[2]];
+    if (state) {
+      const prefix = district[1] ? `${DISTRICT_PREFIXES[district[1]]} ` : '';
+      return `U.S. District Court for the ${prefix}District of ${state}`;
+    }
+  }
+
+  return c;
+}
+
+const CIRCUIT_NUMBERS = Object.fromEntries(Object.entries(CIRCUITS).map(([n, name]) => [name.toLowerCase(), n]));
+
+const STATE_ABBREVIATIONS = Object.fromEntries(Object.entries(STATES).map(([abbr, name]) => [name.toLowerCase(), abbr]));
+
+/**
+ * The court a case came up from, as printed in a caption ("United States Court of Appeals for
+ * the Fifth Circuit", "Court of Appeal of Louisiana, First Circuit"), reduced to the
+ * abbreviation the Court cites it by ("CA5", "La. App."), which `describeCourt` reads back.
+ * Empty when the court isn't recognized.
+ */
+export function lowerCourtId(name: string): string {
+  const n = name.replace(/\s+/g, ' ').trim().toLowerCase();
+  if (!n) return '';
+
+  const circuit = n.match(/court of appeals for the (\w+) circuit/);
+  if (circuit) {
+    if (circuit[1] === 'federal') return 'CAFC';
+    return CIRCUIT_NUMBERS[circuit[1]] ? `CA${CIRCUIT_NUMBERS[circuit[1]]}` : '';
+  }
+  if (/court of appeals for the district of columbia circuit/.test(n)) return 'CADC';
+  if (/court of appeals for the armed forces/.test(n)) return 'CAAF';
+  if (/court of international trade/.test(n)) return 'CIT';
+
+  const district = n.match(/district court for the (?:(northern|southern|eastern|western|central|middle) )?district of (.+?)(?:,|$)/);
+  if (district) {
+    if (district[2] === 'columbia') return 'DC';
+    const prefix = district[1] ? district[1][0].toUpperCase() : '';
+    if (district[2] === 'new york' && prefix) return `${prefix}DNY`;
+    const state = STATE_ABBREVIATIONS[district[2]];
+    if (!state) return '';
+    return prefix ? `${prefix}D ${state}` : `D. ${state}`;
+  }
+
+  // State courts: "Supreme Court of Ohio", "Court of Criminal Appeals of Texas", "Court of Appeal of California, ..."
+  const state = Object.keys(STATE_ABBREVIATIONS).find((s) => new RegExp(`\\bof (?:the state of )?${s}\\b`).test(n));
+  if (!state) return '';
+  const abbr = STATE_ABBREVIATIONS[state];
+  if (/criminal appeals/.test(n)) return `${abbr} Crim. App.`;
+  if (/superior court/.test(n)) return `${abbr} Super.`;
+  // Highest courts, including West Virginia's Supreme Court of Appeals, New York's Court of
+  // Appeals, and Maryland's until 2022
+  if (/^supreme (?:judicial )?court\b|^court of appeals of (new york|maryland)$/.test(n)) return abbr;
+  if (/court of appeals?\b|appellate/.test(n)) return `${abbr} App.`;
+  return abbr;
+}
+
+/** CourtListener's citation lookup resolves a reporter/volume/page triple to the opinion. */
+export function courtListenerUrl(reporter: string, volume: string, page: string): string {
+  return `https://www.courtlistener.com/c/${encodeURIComponent(reporter)}/${volume}/${page}/`;
+}
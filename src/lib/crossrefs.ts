@@ -0,0 +1,101 @@
+import type { Chapter, InlineSpan } from './types';
+
+/**
+ * Resolving an opinion's references to itself — "ante, at 5–6", "Part II–A, infra",
+ * "Part III, post (THOMAS, J., dissenting)" — to the chapter they point into and, for
+ * Parts, the heading paragraph they name. Footnote refs ("n. 3, supra") always mean the
+ * current chapter's own notes, so the Reader looks those up directly.
+ */
+
+type PageRef = Extract<InlineSpan, { type: 'ref' }>;
+type PartRef = Extract<InlineSpan, { type: 'part' }>;
+
+/** Chapter ids of the opinion of the Court (or the per curiam / unsigned opinion). */
+const MAIN_OPINION_IDS = new Set(['opinion-majority', 'opinion-per-curiam', 'opinion']);
+
+export function isMainOpinion(chapter: Pick<Chapter, 'id'>): boolean {
+  return MAIN_OPINION_IDS.has(chapter.id);
+}
+
+export function chapterHasPage(chapter: Chapter, page: number): boolean {
+  return chapter.paragraphs.some((p) => p.pages.includes(page));
+}
+
+/** The chapter(s) a parenthetical names, best match first; empty without one. */
+function namedChapters(chapters: Chapter[], author: string, role: string): Chapter[] {
+  if (!author) return role === 'court' ? chapters.filter(isMainOpinion) : [];
+  const byAuthor = chapters.filter((c) => c.author?.toLowerCase() === author.toLowerCase());
+  return [
+    ...byAuthor.filter((c) => role && c.id.startsWith(role)),
+    ...byAuthor.filter((c) => !role || !c.id.startsWith(role)),
+  ];
+}
+
+/**
+ * Chapters a reference could point into, most likely first. "supra" / "infra" stay in the
+ * current chapter. A parenthetical decides for "ante" / "post"; otherwise "ante" nearly
+ * always means the opinion of the Court, then the nearest opinions in the cited direction.
+ * Preliminary prints and bound volumes paginate continuously, so the current chapter comes last.
+ */
+export function refCandidates(
+  chapters: Chapter[], currentId: string, direction: string, author: string, role: string
+): Chapter[] {
+  const currentIdx = chapters.findIndex((c) => c.id === currentId);
+  if (currentIdx < 0) return [];
+  const current = chapters[currentIdx];
+  if (direction === 'supra' || direction === 'infra') return [current];
+
+  const named = namedChapters(chapters, author, role);
+  if (named.length > 0) return named;
+
+  const before = chapters.slice(0, currentIdx).reverse();
+  const after = chapters.slice(currentIdx + 1);
+  const inDirection = (direction === 'ante' ? before : after).filter((c) => c.id !== 'syllabus');
+  const main = direction === 'ante' ? inDirection.find(isMainOpinion) : undefined;
+  return [...(main ? [main] : []), ...inDirection.filter((c) => c !== main), current];
+}
+
+/**
+ * Where "ante, at 14" leads: the first candidate chapter with that printed page, or — when
+ * the pages weren't recovered — the opinion a parenthetical names, read from its start.
+ */
+export function resolvePageRef(
+  chapters: Chapter[], currentId: string, ref: PageRef
+): { chapterId: string; page: number | null } | null {
+  const page = parseInt(ref.page);
+  const candidates = refCandidates(chapters, currentId, ref.direction, ref.author, ref.role);
+  const withPage = candidates.find((c) => chapterHasPage(c, page));
+  if (withPage) return { chapterId: withPage.id, page };
+  if (ref.author || ref.role) {
+    const named = namedChapters(chapters, ref.author, ref.role)[0];
+    if (named) return { chapterId: named.id, page: null };
+  }
+  return null;
+}
+
+/** Full heading path ("III–B–1") of each heading paragraph, by paragraph index. */
+export function headingPaths(chapter: Chapter): Map<number, string> {
+  const paths = new Map<number, string>();
+  let h1 = '', h2 = '', h3 = '';
+  chapter.paragraphs.forEach((para, i) => {
+    const span = para.spans[0];
+    if (span?.type !== 'heading') return;
+    if (span.level === 1) { h1 = span.label; h2 = ''; h3 = ''; }
+    else if (span.level === 2) { h2 = span.label; h3 = ''; }
+    else { h3 = span.label; }
+    paths.set(i, [h1, h2, h3].filter(Boolean).join('–'));
+  });
+  return paths;
+}
+
+/** The heading a Part ref names, in the first candidate chapter that has it. */
+export function resolvePartRef(
+  chapters: Chapter[], currentId: string, ref: PartRef
+): { chapterId: string; paragraphIndex: number } | null {
+  for (const chapter of refCandidates(chapters, currentId, ref.direction, ref.author, ref.role)) {
+    for (const [paragraphIndex, path] of headingPaths(chapter)) {
+      if (path === ref.label) return { chapterId: chapter.id, paragraphIndex };
+    }
+  }
+  return null;
+}
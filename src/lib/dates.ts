@@ -0,0 +1,34 @@
+import type { ProceduralDates } from './types';
+
+/** When a case was argued and decided, read from the line under the syllabus caption. */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * A printed date, allowing a second day of argument: "April 25, 2024", "Dec. 1–2, 1952",
+ * "February 28 and March 1, 2023" (the first day is kept).
+ */
+const PRINTED_DATE = String.raw`([A-Z][a-z]+)\.?\s+(\d{1,2})(?:\s*[–-]\s*\d{1,2}|\s+and\s+(?:[A-Z][a-z]+\s+)?\d{1,2})?,\s+(\d{4})`;
+
+function isoDate(month: string, day: string, year: string): string {
+  const m = MONTHS.indexOf(month.slice(0, 3).toLowerCase());
+  if (m < 0) return '';
+  return `${year}-${String(m + 1).padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * "Argued April 19, 2022—Reargued October 3, 2022—Decided June 13, 2023" in ISO form;
+ * without a syllabus, the bracketed date under the caption is the decision date.
+ */
+export function extractProceduralDates(text: string): ProceduralDates {
+  const after = (label: string) => {
+    const m = text.match(new RegExp(String.raw`\b${label}\s+${PRINTED_DATE}`));
+    return m ? isoDate(m[1], m[2], m[3]) : '';
+  };
+  const bracket = text.match(new RegExp(String.raw`\[${PRINTED_DATE}\]`));
+  return {
+    argued: after('Argued'),
+    reargued: after('Reargued'),
+    decided: after('Decided') || (bracket ? isoDate(bracket[1], bracket[2], bracket[3]) : ''),
+  };
+}
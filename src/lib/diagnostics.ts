@@ -0,0 +1,72 @@
+import type { Chapter, ParseDiagnostics, ParsedOpinion, ParseRepair, ParseWarning, ParseWarningCode } from './types';
+
+/**
+ * Signs that a parse went wrong, found by checking the finished opinion against how
+ * opinions are put together: every footnote reference has its note and notes run without
+ * gaps, each signed writing names its author, and the caption boilerplate ends at a
+ * delivery line. Each warning costs the confidence score its weight; the repairs footnote
+ * reconciliation made (footnotes.ts) are reported alongside.
+ */
+
+const WEIGHTS: Record<ParseWarningCode, number> = {
+  'no-sections': 0.3,
+  'unclosed-boilerplate': 0.15,
+  'missing-author': 0.1,
+  'orphan-footnote-ref': 0.05,
+  'skipped-footnote': 0.05,
+};
+
+/** Writings that are never signed */
+const UNSIGNED_KINDS = new Set(['syllabus', 'per-curiam', 'appendix', 'order']);
+
+function footnoteWarnings(chapter: Chapter): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+  const notes = new Set(chapter.footnotes.map((fn) => fn.id));
+  const refs = new Set<number>();
+  for (const para of chapter.paragraphs) {
+    for (const span of para.spans) if (span.type === 'fn') refs.add(span.id);
+  }
+
+  for (const id of refs) {
+    if (notes.has(id)) continue;
+    warnings.push({ code: 'orphan-footnote-ref', chapterId: chapter.id, message: `Footnote ${id} is referenced but its note was not found` });
+  }
+  // A writing's notes needn't start at 1 (an appendix continues its opinion's), but run on from there
+  const numbers = [...notes, ...refs];
+  if (numbers.length === 0) return warnings;
+  const first = Math.min(...numbers);
+  const last = Math.max(...numbers);
+  for (let id = first + 1; id < last; id++) {
+    if (notes.has(id) || refs.has(id)) continue;
+    warnings.push({ code: 'skipped-footnote', chapterId: chapter.id, message: `No footnote ${id}, though notes run from ${first} to ${last}` });
+  }
+  return warnings;
+}
+
+/** Caption boilerplate with no delivery line after it: the body was likely swallowed into it */
+function boilerplateUnclosed(chapter: Chapter): boolean {
+  const lead = chapter.paragraphs[0]?.spans[0];
+  if (lead?.type !== 'boilerplate' || chapter.kind === 'syllabus') return false;
+  return !chapter.paragraphs.some((p) => p.spans[0]?.type === 'boilerplate' && p.spans[0].delivery);
+}
+
+export function diagnoseOpinion(opinion: Pick<ParsedOpinion, 'chapters'>, repairs: ParseRepair[] = []): ParseDiagnostics {
+  const warnings: ParseWarning[] = [];
+  const { chapters } = opinion;
+  if (chapters.length === 1 && chapters[0].id === 'opinion') {
+    warnings.push({ code: 'no-sections', chapterId: 'opinion', message: 'No section headers were recognized; the whole document is one chapter' });
+  }
+
+  for (const chapter of chapters) {
+    if (!chapter.author && !UNSIGNED_KINDS.has(chapter.kind) && chapter.id !== 'opinion') {
+      warnings.push({ code: 'missing-author', chapterId: chapter.id, message: `No author found for “${chapter.title}”` });
+    }
+    if (chapter.kind !== 'order' && boilerplateUnclosed(chapter)) {
+      warnings.push({ code: 'unclosed-boilerplate', chapterId: chapter.id, message: `The caption of “${chapter.title}” never reaches a delivery line` });
+    }
+    warnings.push(...footnoteWarnings(chapter));
+  }
+
+  const penalty = warnings.reduce((sum, w) => sum + WEIGHTS[w.code], 0);
+  return { warnings, repairs, confidence: Math.round(Math.max(0, 1 - penalty) * 100) / 100 };
+}
@@ -0,0 +1,157 @@
+import type { Chapter, DocketEntry } from './types';
+import { isMainOpinion } from './crossrefs';
+import { spansToPlainText } from './spans';
+import { lowerCourtId } from './courts';
+
+/**
+ * The cases an opinion decides. Consolidated cases share one opinion under a header like
+ * "Nos. 24–1287 and 25–250", followed by one caption per case:
+ *
+ *   LEARNING RESOURCES, INC., ET AL., PETITIONERS 24–1287 v.
+ *   DONALD J. TRUMP, ... ON WRIT OF CERTIORARI BEFORE JUDGMENT TO THE UNITED STATES COURT ...
+ *
+ * Preliminary prints and per curiam opinions set a single caption above the number instead
+ * ("KEMP v. UNITED STATES certiorari to the ... No. 21–5726."), and the syllabus footnotes
+ * the other cases ("*Together with No. 25–250, Trump v. V.O.S. Selections, Inc., ...").
+ */
+
+/** "24–1287", "25– 250" (broken across a line), "25A914", "22O145" */
+const DOCKET = String.raw`\d+[A-Z]?\d*(?:\s*[-–]\s*\d+)?`;
+
+const DOCKET_LIST_RE = new RegExp(
+  String.raw`\bNos?\.\s*(${DOCKET}(?:(?:,\s*(?:and\s+)?|,?\s+and\s+)${DOCKET})*)`
+);
+
+/** Where each slip opinion caption turns from petitioner to respondent: ", PETITIONERS 24–1287 v." */
+const CAPTION_HEAD_RE = new RegExp(
+  String.raw`,\s+(?:PETITIONERS?|APPELLANTS?|APPLICANTS?|PLAINTIFFS?)\s+(?:(${DOCKET})\s+)?v\.\s*`, 'g'
+);
+
+/** How the case came up: "ON WRIT OF CERTIORARI TO ...", "ON APPLICATION FOR STAY", "ON BILL OF COMPLAINT" */
+const HOW_UP_RE = /\bON\s+(?:WRITS?|APPLICATIONS?|APPEALS?|BILL|MOTION|PETITION|CERTIFICATE)\b/;
+
+/** A caption set before the number: "KEMP v. UNITED STATES certiorari to the ... No. 21–5726." */
+const HEADNOTE_CAPTION_RE = new RegExp(
+  String.raw`(\S[^]*?\sv\.\s[^]*?)\s+((?:certiorari|appeal)\b[^]*?)\s*\*?\s*No\.\s*(${DOCKET})\.`, 'i'
+);
+
+const TOGETHER_WITH_RE = new RegExp(
+  String.raw`Together with No\.\s*(${DOCKET}),\s*(.+?\sv\.\s.+?),\s*(?:also\s+)?on\s+((?:certiorari|appeal)\b.+?)\.(?:\s|$)`, 'g'
+);
+
+const MINOR_WORDS = new Set(['of', 'the', 'for', 'and', 'to', 'in', 'at', 'on']);
+
+function docketNumber(raw: string): string {
+  return raw.replace(/\s+/g, '').replace(/–/g, '-');
+}
+
+function docketNumbersIn(list: string): string[] {
+  return list.split(/,\s*(?:and\s+)?|,?\s+and\s+/).map(docketNumber);
+}
+
+/** "LEARNING RESOURCES, INC., ET AL." → "LEARNING RESOURCES, INC., et al.", as case titles are kept */
+function partyName(raw: string): string {
+  return raw
+    .replace(/\s+/g, ' ')
+    .replace(/\bET AL\b\.?/gi, 'et al.')
+    .trim()
+    .replace(/[,\s]+$/, '');
+}
+
+/**
+ * The court below from "WRIT OF CERTIORARI BEFORE JUDGMENT TO THE UNITED STATES COURT OF
+ * APPEALS FOR THE FEDERAL CIRCUIT" → "United States Court of Appeals for the Federal Circuit".
+ * Empty for original actions; `previous` for "to the same court".
+ */
+function lowerCourtFrom(howUp: string, previous: string): string {
+  const court = howUp.match(/\b(?:to|from)\s+(?:the\s+)?(.+)$/is);
+  if (!court) return '';
+  if (/^same court$/i.test(court[1].trim())) return previous;
+  return court[1]
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/\S+/g, (word, offset: number) =>
+      offset > 0 && MINOR_WORDS.has(word) ? word : word[0].toUpperCase() + word.slice(1));
+}
+
+/** Plain text of the boilerplate a chapter opens with, one paragraph per line */
+function captionText(chapter: Chapter | undefined): string {
+  const lines: string[] = [];
+  for (const para of chapter?.paragraphs ?? []) {
+    const lead = para.spans[0];
+    if (para.kind !== 'boilerplate' || lead?.type !== 'boilerplate' || lead.delivery) break;
+    lines.push(spansToPlainText(para.spans));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Split slip opinion captions. Everything is in capitals, so where one caption's court ends
+ * and the next caption's petitioner begins is only told by the line break between them;
+ * the last caption runs to the date ("[February 20, 2026]").
+ */
+function slipCaptions(text: string): { number: string; caption: string; howUp: string }[] {
+  const heads = [...text.matchAll(CAPTION_HEAD_RE)];
+  const captions: { number: string; caption: string; howUp: string }[] = [];
+  let start = 0;
+  heads.forEach((head, i) => {
+    const petitioner = text.slice(start, head.index);
+    const restStart = head.index + head[0].length;
+    const last = i === heads.length - 1;
+    const rest = text.slice(restStart, last ? text.length : heads[i + 1].index).replace(/\[[^]*$/, '');
+    const on = rest.search(HOW_UP_RE);
+    const lineEnd = (from: number) => {
+      const newline = rest.indexOf('\n', from);
+      return last || newline < 0 ? rest.length : newline;
+    };
+    const respondentEnd = on >= 0 ? on : lineEnd(0);
+    const howUpEnd = on >= 0 ? lineEnd(on) : respondentEnd;
+    captions.push({
+      number: head[1] ? docketNumber(head[1]) : '',
+      caption: `${partyName(petitioner)} v. ${partyName(rest.slice(0, respondentEnd))}`,
+      howUp: rest.slice(respondentEnd, howUpEnd),
+    });
+    start = restStart + howUpEnd;
+  });
+  // Captions grouped under one "ON WRITS OF CERTIORARI ..." share the last one's
+  const shared = captions[captions.length - 1]?.howUp ?? '';
+  for (const caption of captions) caption.howUp ||= shared;
+  return captions;
+}
+
+export function extractDockets(chapters: Chapter[]): DocketEntry[] {
+  const syllabus = chapters.find((c) => c.id === 'syllabus');
+  const opinion = chapters.find(isMainOpinion) ?? chapters.find((c) => c !== syllabus);
+  const dockets: DocketEntry[] = [];
+  const add = (number: string, caption: string, howUp: string) => {
+    if (!number || dockets.some((d) => d.number === number)) return;
+    const previous = dockets[dockets.length - 1]?.lowerCourt ?? '';
+    const lowerCourt = lowerCourtFrom(howUp, previous);
+    dockets.push({ number, caption, lowerCourt, lowerCourtId: lowerCourtId(lowerCourt) });
+  };
+
+  const slip = captionText(opinion);
+  const list = slip.match(DOCKET_LIST_RE);
+  const numbers = list ? docketNumbersIn(list[1]) : [];
+  if (list) {
+    const captions = slipCaptions(slip.slice(list.index! + list[0].length).replace(/_{3,}/g, ' ').trim());
+    captions.forEach((c, i) => add(c.number || numbers[i], c.caption, c.howUp));
+  }
+
+  if (dockets.length === 0) {
+    for (const text of [slip, captionText(syllabus)]) {
+      const m = text.replace(/^[^]*SUPREME COURT OF THE UNITED STATES\s*/, '').match(HEADNOTE_CAPTION_RE);
+      if (!m) continue;
+      add(docketNumber(m[3]), partyName(m[1]), m[2]);
+      break;
+    }
+  }
+  for (const number of numbers) add(number, '', '');
+
+  const syllabusText = syllabus?.paragraphs.map((p) => spansToPlainText(p.spans)).join('\n') ?? '';
+  for (const m of syllabusText.matchAll(TOGETHER_WITH_RE)) {
+    add(docketNumber(m[1]), partyName(m[2]), m[3]);
+  }
+  return dockets;
+}
@@ -0,0 +1,158 @@
+import type { ParseRepair } from './types';
+
+/**
+ * Footnote reconciliation: the checks run between reading the pages and building the
+ * chapters, which put each note back with the writing and number that reference it.
+ *
+ * Each writing numbers its notes from 1, a note sits at the foot of the page that
+ * references it, and a long note runs on at the top of the next page's note area
+ * (`footnoteContinuation`). When a page's separator rule isn't recognized its notes are
+ * read as body text ("...of law.{{fn:1}} ... {{fn:1}} Compare Spinar v. ..."); when a
+ * writing starts mid-page, the continuation of the previous writing's last note lands on
+ * a page headed by the new one; and a chapter split off mid-page leaves its notes with
+ * the chapter it came from. Every repair is recorded for the diagnostics.
+ */
+
+/** A page as the parsers read it, before pages are grouped into chapters. */
+export interface NotedPage {
+  sectionHeader: { id: string } | null;
+  bodyLines: string[];
+  footnotes: Map<number, string>;
+  footnoteContinuation: string;
+}
+
+/** A chapter's text and notes, before paragraphs are built. */
+export interface NotedChapter {
+  header: { id: string };
+  text: string;
+  footnotes: Map<number, string>;
+}
+
+const SEPARATOR_RE = /^——+$/;
+
+/** A note's number as the superscript pass wraps it, or as printed after a separator rule */
+const NOTE_START_RE = /^\{\{fn:(\d+)\}\}\s*/;
+const PLAIN_NOTE_START_RE = /^(\d{1,2})\s+(?=\S)/;
+
+function printedPage(page: NotedPage): number | null {
+  const marker = page.bodyLines.find((line) => /^\{\{pg:\d+\}\}$/.test(line));
+  return marker ? parseInt(marker.slice(5)) : null;
+}
+
+function refsIn(text: string): Set<number> {
+  return new Set([...text.matchAll(/\{\{fn:(\d+)\}\}/g)].map((m) => parseInt(m[1])));
+}
+
+function stripToggles(line: string): string {
+  return line.replace(/[\uE000-\uE003]/g, '').trim();
+}
+
+/**
+ * Notes read as body text at the foot of a page: from a stray separator rule, or from the
+ * first line that opens with a reference the page has already made, to the end of the page.
+ */
+function recoverLeakedNotes(page: NotedPage, chapterId: string, repairs: ParseRepair[]): void {
+  const lines = page.bodyLines;
+  let start = -1;
+  let afterRule = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripToggles(lines[i]);
+    if (SEPARATOR_RE.test(line)) {
+      start = i;
+      afterRule = true;
+      break;
+    }
+    const m = line.match(NOTE_START_RE);
+    if (m && refsIn(lines.slice(0, i).join('\n')).has(parseInt(m[1]))) {
+      start = i;
+      break;
+    }
+  }
+  if (start < 0) return;
+
+  const notes = new Map<number, string>();
+  let current = 0;
+  for (const raw of lines.slice(start)) {
+    const line = stripToggles(raw);
+    if (!line || SEPARATOR_RE.test(line)) continue;
+    const m = line.match(NOTE_START_RE) ?? (afterRule ? line.match(PLAIN_NOTE_START_RE) : null);
+    if (m) {
+      current = parseInt(m[1]);
+      notes.set(current, raw.replace(/^([\uE000-\uE003]*)\s*(?:\{\{fn:\d+\}\}|\d{1,2})\s*/, '$1'));
+    } else if (current) {
+      notes.set(current, `${notes.get(current)} ${raw}`);
+    }
+  }
+  // A rule with no numbered note under it is some other kind of line; leave the page alone
+  if (notes.size === 0) return;
+
+  page.bodyLines = lines.slice(0, start);
+  for (const [id, text] of notes) {
+    if (page.footnotes.has(id)) continue;
+    page.footnotes.set(id, text.trim());
+    repairs.push({
+      code: 'leaked-footnote', chapterId, footnote: id, page: printedPage(page),
+      message: `Footnote ${id} was read as body text and moved to the notes`,
+    });
+  }
+}
+
+/** Reconcile notes page by page, before the pages are grouped into chapters. */
+export function reconcilePageFootnotes(pages: NotedPage[]): ParseRepair[] {
+  const repairs: ParseRepair[] = [];
+  let chapterId = '';
+  let chapterHasNotes = false;
+  // The last note read, on whichever page and in whichever writing
+  let lastNote: { page: NotedPage; id: number; chapterId: string } | null = null;
+
+  for (const page of pages) {
+    const header = page.sectionHeader;
+    if (header && header.id !== chapterId) {
+      chapterId = header.id;
+      chapterHasNotes = false;
+    }
+    recoverLeakedNotes(page, chapterId, repairs);
+
+    // Run-on text at the top of the first page of a writing belongs to the writing before
+    if (page.footnoteContinuation && !chapterHasNotes && lastNote) {
+      const { page: notePage, id } = lastNote;
+      notePage.footnotes.set(id, `${notePage.footnotes.get(id)} ${page.footnoteContinuation}`.trim());
+      repairs.push({
+        code: 'footnote-continuation', chapterId: lastNote.chapterId, footnote: id, page: printedPage(page),
+        message: `Text continuing footnote ${id} onto the next writing's first page was moved back to it`,
+      });
+      page.footnoteContinuation = '';
+    }
+
+    if (page.footnotes.size > 0) {
+      chapterHasNotes = true;
+      lastNote = { page, id: Math.max(...page.footnotes.keys()), chapterId };
+    }
+  }
+  return repairs;
+}
+
+/**
+ * Reconcile notes across chapters: a reference with no note in its own chapter takes the
+ * note of that number from another chapter that never references it.
+ */
+export function reconcileChapterFootnotes(chapters: NotedChapter[]): ParseRepair[] {
+  const repairs: ParseRepair[] = [];
+  const refs = chapters.map((chapter) => refsIn(chapter.text));
+  chapters.forEach((chapter, i) => {
+    for (const id of refs[i]) {
+      if (chapter.footnotes.has(id)) continue;
+      // Nearest chapter before this one first: a split leaves notes with the chapter it came from
+      const order = [...chapters.keys()].slice(0, i).reverse().concat([...chapters.keys()].slice(i + 1));
+      const donor = order.find((j) => chapters[j].footnotes.has(id) && !refs[j].has(id));
+      if (donor === undefined) continue;
+      chapter.footnotes.set(id, chapters[donor].footnotes.get(id)!);
+      chapters[donor].footnotes.delete(id);
+      repairs.push({
+        code: 'moved-footnote', chapterId: chapter.header.id, footnote: id, page: null,
+        message: `Footnote ${id} was filed under ${chapters[donor].header.id} and moved to the writing that references it`,
+      });
+    }
+  });
+  return repairs;
+}
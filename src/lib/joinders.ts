@@ -0,0 +1,228 @@
+import type { Chapter, ChapterKind, Joinder, Paragraph } from './types';
+import { isMainOpinion } from './crossrefs';
+import { spansToPlainText } from './spans';
+import { findJustice, chiefJusticeOn } from './justices';
+
+/**
+ * What each writing is, who wrote it, and who joined it — read from the line that
+ * opens each writing ("JUSTICE GORSUCH, with whom JUSTICE THOMAS joins, dissenting.") and
+ * from the vote summary closing the syllabus ("SOTOMAYOR, J., delivered the opinion of the
+ * Court, in which ... JJ., joined."). The opening line wins where both speak; the summary
+ * is the only place that names who joined the opinion of the Court.
+ */
+
+export interface Vote {
+  authors: string[];
+  role: string;
+  joinedBy: Joinder[];
+}
+
+/** A surname as printed: "THOMAS", "Sotomayor", "O'CONNOR", or hyphenated across a line "BAR - RETT" */
+const NAME = String.raw`\p{Lu}[\p{L}'’]*(?:\s*-\s*\p{Lu}+)?`;
+
+/** A Part label ("II", "III–B–1"), then a list of them ("Parts I, II–A–1, and II–B"). */
+const PART = String.raw`[IVX]+(?:\s*[–-]\s*[A-Z0-9]+)*`;
+const PART_LIST = String.raw`${PART}(?:(?:,\s*(?:and\s+)?|,?\s+and\s+)${PART})*`;
+
+/** "with whom JUSTICE THOMAS and JUSTICE ALITO join" / "... joins as to Part I" */
+const WITH_WHOM_RE = new RegExp(
+  String.raw`with whom\s+(.+?)\s+joins?(?:\s+in full)?(?:\s+(except\s+)?as to Parts?\s+(${PART_LIST}))?(?=\s*[,.;*]|$)`, 'g'
+);
+
+/** "in which THOMAS and ALITO, JJ., joined" / "... joined except as to Part III–C" */
+const IN_WHICH_RE = new RegExp(
+  String.raw`(?:with respect to Parts?\s+(${PART_LIST}),\s*)?in which\s+(.+?),?\s+(?:C\.\s*)?JJ?\.,\s*joined(?:\s+in full)?(?:,?\s+(except\s+)?as to Parts?\s+(${PART_LIST}))?`, 'g'
+);
+
+/** Name as printed ("O'CONNOR", "Bar - rett", "McREYNOLDS") → as stored on chapters ("O'Connor") */
+function justiceName(raw: string): string {
+  const name = raw.replace(/\s*-\s*/g, '');
+  return findJustice(name)?.name ?? name
+    .toLowerCase()
+    .replace(/(^|['’])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+/**
+ * Justices named in a list: "JUSTICE THOMAS and JUSTICE ALITO", "ROBERTS, C. J., and
+ * THOMAS, ALITO, JJ.", "THE CHIEF JUSTICE". `chiefJustice` answers for the unnamed Chief.
+ */
+function justicesIn(list: string, chiefJustice: string): string[] {
+  return list
+    .replace(/\bTHE\s+CHIEF\s+JUSTICE\b/gi, chiefJustice)
+    .replace(/\b(?:CHIEF\s+)?JUSTICES?\b|\bC\.\s*J\.|\bJJ?\./gi, ' ')
+    .split(/,|\band\b/i)
+    .map((name) => name.trim())
+    .filter((name) => /^\p{Lu}/u.test(name))
+    .map(justiceName);
+}
+
+function partsIn(list: string): string[] {
+  return list.split(/,\s*(?:and\s+)?|,?\s+and\s+/).map((part) => part.replace(/\s+/g, ''));
+}
+
+/** One Joinder per justice, merging the Parts of a justice named in several clauses. */
+function addJoinder(joinedBy: Joinder[], justice: string, parts?: string[], except?: boolean): void {
+  const existing = joinedBy.find((j) => j.justice === justice);
+  if (!existing) {
+    joinedBy.push(!parts ? { justice } : except ? { justice, exceptParts: [...parts] } : { justice, parts: [...parts] });
+  } else if (existing.parts && parts && !except) {
+    existing.parts.push(...parts.filter((part) => !existing.parts!.includes(part)));
+  }
+}
+
+function joindersIn(text: string, re: RegExp, chiefJustice: string): Joinder[] {
+  const joinedBy: Joinder[] = [];
+  const inWhich = re === IN_WHICH_RE;
+  for (const m of text.matchAll(re)) {
+    const [respectTo, list, except, asTo] = inWhich ? [m[1], m[2], m[3], m[4]] : [undefined, m[1], m[2], m[3]];
+    const parts = asTo ? partsIn(asTo) : respectTo ? partsIn(respectTo) : undefined;
+    for (const justice of justicesIn(list, chiefJustice)) addJoinder(joinedBy, justice, parts, !!except && !!asTo);
+  }
+  return joinedBy;
+}
+
+/** "announced the judgment of the Court and delivered an opinion" → "plurality opinion" */
+function mainOpinionRole(text: string): string {
+  if (/opinion (?:of|for) (?:the|a unanimous) Court/i.test(text)) return 'opinion of the Court';
+  if (/announced the judgment/i.test(text)) return 'plurality opinion';
+  return '';
+}
+
+/**
+ * The line that opens a writing: its author, role ("opinion of the Court", "dissenting",
+ * "concurring in part and concurring in the judgment") and joiners. Null for anything else.
+ */
+export function parseDeliveryLine(
+  line: string, chiefJustice = chiefJusticeOn().name
+): { author: string | null; role: string; joinedBy: Joinder[] } | null {
+  const text = line.replace(/\*+$/, '').trim();
+  if (/^Per Curiam\.?$/i.test(text)) return { author: null, role: 'per curiam', joinedBy: [] };
+
+  const m = text.match(new RegExp(
+    String.raw`^(?:(THE\s+CHIEF\s+JUSTICE)|(?:CHIEF\s+)?JUSTICE\s+(${NAME}))(,|\s+(?:delivered|announced)\b)`, 'iu'
+  ));
+  if (!m) return null;
+  const author = m[1] ? chiefJustice : justiceName(m[2]);
+  const rest = text.slice(m[0].length - m[3].length);
+
+  if (m[3] !== ',') {
+    return { author, role: mainOpinionRole(rest), joinedBy: joindersIn(rest, IN_WHICH_RE, chiefJustice) };
+  }
+  const role = rest.replace(WITH_WHOM_RE, '').match(/,\s*((?:concurring|dissenting)\b[^.]*?)\s*\.?$/i);
+  if (!role) return null;
+  return { author, role: role[1], joinedBy: joindersIn(rest, WITH_WHOM_RE, chiefJustice) };
+}
+
+/** "filed a dissenting opinion" / "filed an opinion concurring in part" → the role */
+function separateOpinionRole(filed: string): string {
+  const phrase = filed.match(/opinions?\s+((?:concurring|dissenting)\b.*?)(?=,\s*in which|$)/i);
+  if (phrase) return phrase[1];
+  const adjective = filed.match(/\b(concurring|dissenting)\s+opinions?\b/i);
+  return adjective ? adjective[1].toLowerCase() : '';
+}
+
+/**
+ * The syllabus's closing vote summary, one entry per sentence naming authors ("fled" is
+ * "filed" with its fi ligature lost in extraction):
+ * "GORSUCH, J., filed a dissenting opinion, in which THOMAS and ALITO, JJ., joined, and in
+ * which BARRETT, J., joined as to Part I." Only a single author's sentence carries joiners.
+ */
+export function parseVoteSummary(text: string, chiefJustice = chiefJusticeOn().name): Vote[] {
+  const start = text.search(new RegExp(String.raw`${NAME},\s*(?:C\.\s*)?J\.,\s*(?:announced|delivered)\b`, 'u'));
+  if (start < 0) return [];
+  const votes: Vote[] = [];
+  for (const sentence of text.slice(start).split(new RegExp(String.raw`\.\s+(?=${NAME},\s*(?:C\.\s*)?J\.,)`, 'u'))) {
+    const m = sentence.match(/^(.+?),?\s+(announced|delivered|fi?led)\b(.*)$/s);
+    if (!m) continue;
+    const authors = justicesIn(m[1], chiefJustice);
+    const role = m[2].startsWith('f') ? separateOpinionRole(m[3].replace(/\.$/, '')) : mainOpinionRole(m[3]);
+    if (authors.length === 0 || !role) continue;
+    votes.push({ authors, role, joinedBy: authors.length === 1 ? joindersIn(m[3], IN_WHICH_RE, chiefJustice) : [] });
+  }
+  return votes;
+}
+
+/** Paragraphs searched for an opening line set in running text */
+const LEADING_PARAGRAPHS = 5;
+
+/**
+ * A writing's opening line and its paragraph index: the `bpj` paragraph or, in preliminary
+ * prints and bound volumes (which set it in running text), a short paragraph among the
+ * first few, since the end of the syllabus and the counsel listing can run on ahead of it.
+ */
+function deliveryLine(chapter: Chapter): { line: string; index: number } | null {
+  const bpj = chapter.paragraphs.findIndex((p) => p.spans[0]?.type === 'boilerplate' && p.spans[0].delivery);
+  if (bpj >= 0) return { line: spansToPlainText(chapter.paragraphs[bpj].spans), index: bpj };
+  let seen = 0;
+  for (const [index, p] of chapter.paragraphs.entries()) {
+    if (p.kind === 'heading' || seen++ === LEADING_PARAGRAPHS) break;
+    if (p.kind !== 'body') continue;
+    const line = spansToPlainText(p.spans);
+    if (line.length < 400 && parseDeliveryLine(line)) return { line, index };
+  }
+  return null;
+}
+
+/**
+ * The syllabus's paragraphs, with the end of it that a preliminary print or bound volume
+ * runs onto the main opinion's first page, ahead of the opening line.
+ */
+export function syllabusParagraphs(chapters: Chapter[]): Paragraph[] {
+  const syllabus = chapters.find((c) => c.id === 'syllabus');
+  if (!syllabus) return [];
+  const main = chapters.find(isMainOpinion);
+  const ranOn = main ? main.paragraphs.slice(0, deliveryLine(main)?.index ?? 0) : [];
+  return [...syllabus.paragraphs, ...ranOn.filter((p) => p.kind === 'body')];
+}
+
+/** The chapter a summary vote describes: same author, and a matching kind of writing. */
+function chapterForVote(chapters: Chapter[], author: string, role: string): Chapter | undefined {
+  if (role === 'opinion of the Court' || role === 'plurality opinion') return chapters.find(isMainOpinion);
+  const kind = role.split(' ')[0];
+  const byAuthor = chapters.filter((c) => !isMainOpinion(c) && c.author?.toLowerCase() === author.toLowerCase());
+  return byAuthor.find((c) => c.id.startsWith(kind)) ?? byAuthor[0];
+}
+
+/**
+ * Kind of writing from the section header (the chapter id) and the opening line's role,
+ * which is more specific where both exist: a "concurring-" header also covers
+ * "concurring in part and dissenting in part".
+ */
+export function chapterKind(chapter: Pick<Chapter, 'id' | 'role'>): ChapterKind {
+  const { id, role } = chapter;
+  if (id === 'syllabus' || id === 'order') return id;
+  if (id.startsWith('appendix-')) return 'appendix';
+  if (id.startsWith('statement-')) return 'statement';
+  if (role === 'per curiam' || id === 'opinion-per-curiam') return 'per-curiam';
+  if (role === 'plurality opinion') return 'plurality';
+  if (role === 'opinion of the Court' || isMainOpinion(chapter)) return 'majority';
+  const stance = role || id;
+  if (/dissenting/.test(stance)) return /concurring|dissenting in part/.test(stance) ? 'partial-dissent' : 'dissent';
+  if (/concurring/.test(stance)) return /in the judgment/.test(stance) ? 'concurrence-in-judgment' : 'concurrence';
+  return 'other';
+}
+
+/** Fill in each chapter's `kind`, `role` and `joinedBy` (and a missing `author`). */
+export function describeChapters(chapters: Chapter[], chiefJustice = chiefJusticeOn().name): void {
+  const opinions = chapters.filter((c) => !['syllabus', 'order'].includes(c.id) && !/^(appendix|statement)-/.test(c.id));
+  for (const chapter of opinions) {
+    const found = deliveryLine(chapter);
+    const delivery = found ? parseDeliveryLine(found.line, chiefJustice) : null;
+    if (!delivery) continue;
+    chapter.author ??= delivery.author;
+    chapter.role = delivery.role;
+    chapter.joinedBy = delivery.joinedBy;
+  }
+
+  const summary = syllabusParagraphs(chapters).map((p) => spansToPlainText(p.spans)).join('\n');
+  for (const vote of parseVoteSummary(summary, chiefJustice)) {
+    for (const author of vote.authors) {
+      const chapter = chapterForVote(opinions, author, vote.role);
+      if (!chapter) continue;
+      if (!chapter.role) chapter.role = vote.role;
+      if (chapter.joinedBy.length === 0) chapter.joinedBy = vote.joinedBy;
+    }
+  }
+
+  for (const chapter of chapters) chapter.kind = chapterKind(chapter);
+}
@@ -0,0 +1,71 @@
+import roster from '../data/justices.json';
+
+/**
+ * Every Justice of the Supreme Court, one entry per seat held: a Justice elevated to Chief
+ * (White, Hughes, Stone, Rehnquist) or appointed twice (John Rutledge) appears once for each.
+ * Dates are oath of office to the end of service, ISO; `end` is empty while still serving.
+ *
+ * Opinions name Justices by surname alone ("HARLAN, J., dissenting"), and some surnames
+ * belong to more than one Justice — the two Harlans, Marshalls, Whites and Robertses, three
+ * Jacksons — so a name resolves against the date the case was decided.
+ */
+
+export interface Justice {
+  id: string;
+  /** Surname as opinions print it in running text: "O'Connor", "Van Devanter" */
+  name: string;
+  fullName: string;
+  seat: 'chief' | 'associate';
+  start: string;
+  end: string;
+  /** Oyez portrait, where there is one */
+  thumb?: string;
+}
+
+export const JUSTICES = roster as Justice[];
+
+/** "O’CONNOR", "O'Connor", "Van Devanter" → "OCONNOR", "VANDEVANTER" */
+export function justiceKey(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+const BY_KEY = new Map<string, Justice[]>();
+for (const justice of JUSTICES) {
+  const key = justiceKey(justice.name);
+  BY_KEY.set(key, [...(BY_KEY.get(key) ?? []), justice]);
+}
+
+function servedOn(justice: Justice, date: string): boolean {
+  return justice.start <= date && (!justice.end || date <= justice.end);
+}
+
+/** Days between `date` and a Justice's time on the Court; 0 while serving */
+function distance(justice: Justice, date: string): number {
+  const day = Date.parse(date);
+  if (date < justice.start) return Date.parse(justice.start) - day;
+  if (justice.end && date > justice.end) return day - Date.parse(justice.end);
+  return 0;
+}
+
+/**
+ * The Justice a printed surname refers to on `date` (ISO): whoever of that name was serving,
+ * else the one whose service was nearest. Without a date, the most recent of the name.
+ */
+export function findJustice(name: string, date = ''): Justice | null {
+  const matches = BY_KEY.get(justiceKey(name)) ?? [];
+  if (!date || matches.length < 2) return matches[matches.length - 1] ?? null;
+  return matches.find((j) => servedOn(j, date))
+    ?? matches.reduce((best, j) => (distance(j, date) < distance(best, date) ? j : best));
+}
+
+/** "THE CHIEF JUSTICE" on `date`; without a date, the present Chief */
+export function chiefJusticeOn(date = ''): Justice {
+  const chiefs = JUSTICES.filter((j) => j.seat === 'chief');
+  if (!date) return chiefs[chiefs.length - 1];
+  return chiefs.findLast((j) => j.start <= date) ?? chiefs[0];
+}
+
+/** The Justices sitting on `date`; without a date, the present Court */
+export function benchOn(date = ''): Justice[] {
+  return JUSTICES.filter((j) => (date ? servedOn(j, date) : !j.end));
+}
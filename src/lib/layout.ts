@@ -0,0 +1,129 @@
+/**
+ * Page layouts of the PDF families the parsers read. A profile holds the geometry and
+ * font thresholds that tell a page's parts apart — the section-label band, the top row
+ * with the printed page number, the footer, superscripts and notes — so the page reader
+ * (`readPage` in parser.ts) has no family of its own. Supporting a new family of PDFs
+ * means adding a profile here and a way to recognize it in `detectLayout`.
+ *
+ * Heights are fractions of the page height, measured up from the bottom as PDF
+ * coordinates are; x positions and font differences are in points.
+ */
+
+export type LayoutName = 'slip-opinion' | 'preliminary-print' | 'bound-volume' | 'us-reports' | 'order-list';
+
+export interface LayoutProfile {
+  name: LayoutName;
+  /** The band holding the section label ("Syllabus", "THOMAS, J., dissenting"); body text ends below it */
+  headerBand: { min: number; max: number };
+  /** The top row, above the label: printed page number, running head, "Cite as:" */
+  topRow: { min: number; max: number };
+  /** A lone number in the top row left of `left` or right of `right` is the printed page */
+  pageNumberX: { left: number; right: number };
+  /** Height of the footer strip, in points; the same strip at the top holds running-head leftovers */
+  margin: number;
+  /** Baselines are compared to the nearest this many points when ordering items into lines */
+  baselineSnap: number;
+  /** The body font is the largest size with at least this many items on a page; 0 takes the most common size */
+  bodyFontMinItems: number;
+  /** How much smaller than the body font each kind of small text is set */
+  fontDrop: {
+    /** Footnote references in the text */
+    superscript: number;
+    /** Note text and the rule above it */
+    footnote: number;
+    /** The number opening each note */
+    noteNumber: number;
+    /** The lowered capitals after a small-cap initial ("J" + "USTICE") */
+    smallCap: number;
+  };
+  /** Lines within this much of the body font size are body text */
+  bodyFontTolerance: number;
+  /** A body line indented more than `min` past the margin starts a paragraph; past `max` it's centered */
+  paragraphIndent: { min: number; max: number };
+  /** Printed across pages and never part of the text */
+  watermark: RegExp | null;
+  /** Page 1 is a cover, with no opinion text */
+  coverPage: boolean;
+  /** Printed page numbers run on across writings, rather than restarting with each */
+  continuousPagination: boolean;
+  /** The section label can lag a writing that opens mid-page; split chapters at its opening line too */
+  splitAtOpeners: boolean;
+}
+
+const SLIP_OPINION: LayoutProfile = {
+  name: 'slip-opinion',
+  // Labels sit at ~81.8–82.3%; a 0.80 floor keeps the body line just below out of the band
+  headerBand: { min: 0.80, max: 0.84 },
+  topRow: { min: 0.83, max: 1 },
+  pageNumberX: { left: 200, right: 400 },
+  margin: 60,
+  // Sub-point jitter ("HOMAS" at y=307.500, body text at 307.499) mustn't split a line
+  baselineSnap: 2,
+  // Not the most common size: on a note-heavy page the note font can outnumber the body's
+  bodyFontMinItems: 5,
+  fontDrop: { superscript: 2.5, footnote: 1, noteNumber: 3, smallCap: 0.5 },
+  bodyFontTolerance: 1.5,
+  paragraphIndent: { min: 5, max: 50 },
+  watermark: null,
+  coverPage: false,
+  continuousPagination: false,
+  splitAtOpeners: false,
+};
+
+export const LAYOUT_PROFILES: Record<LayoutName, LayoutProfile> = {
+  'slip-opinion': SLIP_OPINION,
+  // Two rows in the band: the running head at ~83–84% and the label at ~80.3–80.8%,
+  // which a 0.79 floor still catches when a dissent's label drops low. The watermark
+  // runs mid-page in large type.
+  'preliminary-print': {
+    ...SLIP_OPINION,
+    name: 'preliminary-print',
+    headerBand: { min: 0.79, max: 0.84 },
+    watermark: /Page Proof/,
+    coverPage: true,
+    continuousPagination: true,
+    splitAtOpeners: true,
+  },
+  // A whole volume of cases; within a case, pages are counted on from its first
+  'bound-volume': {
+    ...SLIP_OPINION,
+    name: 'bound-volume',
+    // Typesetter codes sit above 90%
+    topRow: { min: 0.83, max: 0.90 },
+    baselineSnap: 1,
+    bodyFontMinItems: 0,
+    continuousPagination: true,
+  },
+  // govinfo.gov's US Reports granules: one case cut from a bound volume
+  'us-reports': {
+    ...SLIP_OPINION,
+    name: 'us-reports',
+    continuousPagination: true,
+  },
+  'order-list': {
+    ...SLIP_OPINION,
+    name: 'order-list',
+    continuousPagination: true,
+  },
+};
+
+/**
+ * The layout of a document, from the text of its first page. Preliminary prints carry
+ * their "Page Proof Pending Publication" watermark on the cover; order lists open with
+ * "(ORDER LIST: 601 U.S.)"; slip opinions with "(Slip Opinion)" or the Court's name.
+ * A first page with a term heading and none of those is a US Reports case. Bound
+ * volumes are never detected: a volume is only parsed by asking for a case in it.
+ */
+export function detectLayout(firstPageText: string): LayoutProfile {
+  const text = firstPageText.replace(/\s+/g, ' ');
+  if (/Page Proof/.test(text)) return LAYOUT_PROFILES['preliminary-print'];
+  if (/\(ORDER LIST:/.test(text)) return LAYOUT_PROFILES['order-list'];
+  if (/\(Slip Opinion\)|SUPREME COURT OF THE UNITED STATES/.test(text)) return LAYOUT_PROFILES['slip-opinion'];
+  if (/OCTOBER TERM,? \d{4}/.test(text)) return LAYOUT_PROFILES['us-reports'];
+  return LAYOUT_PROFILES['slip-opinion'];
+}
+
+/** Whether a top-row item is a lone printed page number at either end of the row */
+export function isPageNumber(layout: LayoutProfile, text: string, x: number): boolean {
+  return /^\d{1,4}$/.test(text) && (x < layout.pageNumberX.left || x > layout.pageNumberX.right);
+}
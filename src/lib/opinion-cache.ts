@@ -0,0 +1,53 @@
+import type { NetlifyLocals } from '@astrojs/netlify';
+import { getCached } from './s3cache';
+import { migrateOpinion, PARSER_VERSION } from './schema';
+import type { ParsedOpinion } from './types';
+
+/**
+ * Parsed opinions in S3, checked against the parser that made them. An opinion from an
+ * older parser (`parserVersion` below PARSER_VERSION) is stale: it is still served, as
+ * the best answer on hand, while the API re-parses it in the background and overwrites
+ * the entry. The CDN keeps a stale answer only briefly, so the re-parse shows up soon.
+ */
+
+export interface CachedOpinion {
+  /** Upgraded to the current schema */
+  opinion: ParsedOpinion;
+  stale: boolean;
+}
+
+const FRESH_S_MAXAGE = 2592000; // 30 days
+const STALE_S_MAXAGE = 300;
+
+export function isStale(opinion: Pick<ParsedOpinion, 'parserVersion'>): boolean {
+  return opinion.parserVersion < PARSER_VERSION;
+}
+
+export async function getCachedOpinion(key: string): Promise<CachedOpinion | null> {
+  const cached = await getCached<unknown>(key);
+  if (!cached) return null;
+  // Entries cached by older parsers predate the current schema; upgrade on read
+  const opinion = migrateOpinion(cached);
+  return { opinion, stale: isStale(opinion) };
+}
+
+/** The JSON response for an opinion, cached at the CDN for as long as it's current */
+export function opinionResponse(opinion: ParsedOpinion): Response {
+  const sMaxAge = isStale(opinion) ? STALE_S_MAXAGE : FRESH_S_MAXAGE;
+  return new Response(JSON.stringify(opinion), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `max-age=0, s-maxage=${sMaxAge}`,
+      'X-Parser-Version': String(opinion.parserVersion),
+    },
+  });
+}
+
+/**
+ * Re-parse a stale entry once the response has gone; `refresh` parses and caches it as a
+ * miss would. On Netlify the function is kept alive until it's done.
+ */
+export function refreshInBackground(locals: object, key: string, refresh: () => Promise<unknown>): void {
+  const work = refresh().catch((err) => console.error(`Background re-parse of ${key} failed:`, err));
+  (locals as Partial<NetlifyLocals>).netlify?.context.waitUntil(work);
+}
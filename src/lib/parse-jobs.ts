@@ -0,0 +1,113 @@
+import type { Chapter, ParsedOpinion } from './types';
+
+/**
+ * The documents being parsed right now, one job per cache key, shared by every request
+ * for that document. A request that joins late is caught up on the chapters already read;
+ * a request that goes away leaves the job, and the job is cancelled once nobody is left
+ * waiting on it. Finished jobs leave the registry: their result is in the cache by then.
+ */
+
+export type ParseJobState = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ParseJob {
+  key: string;
+  startedAt: number;
+  state: ParseJobState;
+  /** Chapters read so far, in order */
+  chapters: Chapter[];
+  /** Requests waiting on the job */
+  waiting: number;
+  result: Promise<ParsedOpinion>;
+}
+
+/** Starts a job's work: `emit` each chapter as it's read, and stop when `signal` aborts */
+export type ParseJobRunner = (emit: (chapter: Chapter) => void, signal: AbortSignal) => Promise<ParsedOpinion>;
+
+export interface JoinOptions {
+  onChapter?: (chapter: Chapter) => void;
+  /** This request going away; the job goes on while others wait on it */
+  signal?: AbortSignal;
+}
+
+interface Entry extends ParseJob {
+  controller: AbortController;
+  listeners: Set<(chapter: Chapter) => void>;
+}
+
+export class ParseJobRegistry {
+  private jobs = new Map<string, Entry>();
+
+  get(key: string): ParseJob | undefined {
+    return this.jobs.get(key);
+  }
+
+  list(): ParseJob[] {
+    return [...this.jobs.values()];
+  }
+
+  /** Wait on the job for `key`, starting it with `run` if none is running. */
+  join(key: string, run: ParseJobRunner, { onChapter, signal }: JoinOptions = {}): Promise<ParsedOpinion> {
+    if (signal?.aborted) return Promise.reject(new Error('PARSE_CANCELLED'));
+    // A cancelled job may still be winding down; a new request starts afresh
+    const running = this.jobs.get(key);
+    const job = running?.state === 'running' ? running : this.start(key, run);
+
+    if (onChapter) {
+      for (const chapter of job.chapters) onChapter(chapter);
+      job.listeners.add(onChapter);
+    }
+    job.waiting++;
+
+    return new Promise((resolve, reject) => {
+      // Once only: an aborted request still hears the job settle
+      let left = false;
+      const leave = () => {
+        if (left) return;
+        left = true;
+        if (onChapter) job.listeners.delete(onChapter);
+        job.waiting--;
+      };
+      const onAbort = () => {
+        leave();
+        if (job.waiting === 0 && job.state === 'running') {
+          job.state = 'cancelled';
+          job.controller.abort();
+        }
+        reject(new Error('PARSE_CANCELLED'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      job.result.then(
+        (opinion) => {
+          signal?.removeEventListener('abort', onAbort);
+          leave();
+          resolve(opinion);
+        },
+        (err) => {
+          signal?.removeEventListener('abort', onAbort);
+          leave();
+          reject(err);
+        },
+      );
+    });
+  }
+
+  private start(key: string, run: ParseJobRunner): Entry {
+    const controller = new AbortController();
+    const chapters: Chapter[] = [];
+    const listeners = new Set<(chapter: Chapter) => void>();
+    const result = run((chapter) => {
+      chapters.push(chapter);
+      for (const listener of listeners) listener(chapter);
+    }, controller.signal);
+    const job: Entry = { key, startedAt: Date.now(), state: 'running', chapters, waiting: 0, result, controller, listeners };
+    this.jobs.set(key, job);
+
+    result.then(
+      () => { job.state = 'done'; },
+      () => { if (job.state === 'running') job.state = 'failed'; },
+    ).finally(() => {
+      if (this.jobs.get(key) === job) this.jobs.delete(key);
+    });
+    return job;
+  }
+}
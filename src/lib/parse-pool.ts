@@ -0,0 +1,150 @@
+import { Worker } from 'node:worker_threads';
+import type { Chapter, ParsedOpinion } from './types';
+
+/**
+ * Parses PDFs off the request thread, in Node worker threads. At most `size` run at once;
+ * the rest wait their turn. Each parse gets a fresh worker with a capped heap and a time
+ * budget, so a pathological PDF costs one thread, not the function instance.
+ *
+ * Cancellation is cooperative: the pool raises a flag the parser checks before each page
+ * (see parse-worker.ts), and terminates the worker if it hasn't stopped within a grace period.
+ *
+ * Failures reject with an Error whose message is a code, like the fetch errors in parse.ts:
+ * PARSE_TIMEOUT, PARSE_CANCELLED, PARSE_OUT_OF_MEMORY, or the parser's own message.
+ */
+
+export interface ParsePoolOptions {
+  /** Worker threads parsing at once */
+  size: number;
+  /** Parse-time budget per document, from the moment its worker starts */
+  timeoutMs: number;
+  /** Old-generation heap cap per worker */
+  maxMemoryMb: number;
+  /** How long a cancelled or timed-out parse has to stop before its worker is terminated */
+  graceMs?: number;
+}
+
+export interface ParseTaskOptions {
+  onChapter?: (chapter: Chapter) => void;
+  signal?: AbortSignal;
+}
+
+/** What a parse worker is started with; `pdf` is transferred, not copied */
+export interface ParseWorkerData {
+  pdf: ArrayBuffer;
+  sourceUrl: string;
+  /** One Int32, set to 1 to ask the parse to stop */
+  cancelFlag: SharedArrayBuffer;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'chapter'; chapter: Chapter }
+  | { type: 'done'; opinion: ParsedOpinion }
+  | { type: 'error'; message: string };
+
+interface Task {
+  pdf: ArrayBuffer;
+  sourceUrl: string;
+  options: ParseTaskOptions;
+  resolve: (opinion: ParsedOpinion) => void;
+  reject: (err: Error) => void;
+}
+
+const DEFAULT_GRACE_MS = 1_000;
+
+export class ParsePool {
+  private running = 0;
+  private queue: Task[] = [];
+
+  constructor(
+    private readonly workerUrl: URL | string,
+    private readonly options: ParsePoolOptions,
+  ) {}
+
+  /** Parses waiting for a free worker */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /** Workers alive, including any still stopping after a cancel or timeout */
+  get active(): number {
+    return this.running;
+  }
+
+  parse(pdf: ArrayBuffer, sourceUrl: string, options: ParseTaskOptions = {}): Promise<ParsedOpinion> {
+    if (options.signal?.aborted) return Promise.reject(new Error('PARSE_CANCELLED'));
+    return new Promise((resolve, reject) => {
+      const task: Task = { pdf, sourceUrl, options, resolve, reject };
+      this.queue.push(task);
+      // Leaving the queue needs no worker; a running task handles its own signal
+      options.signal?.addEventListener('abort', () => {
+        const i = this.queue.indexOf(task);
+        if (i < 0) return;
+        this.queue.splice(i, 1);
+        reject(new Error('PARSE_CANCELLED'));
+      }, { once: true });
+      this.next();
+    });
+  }
+
+  private next(): void {
+    while (this.running < this.options.size && this.queue.length > 0) {
+      this.start(this.queue.shift()!);
+    }
+  }
+
+  private start(task: Task): void {
+    const { pdf, sourceUrl, options } = task;
+    const cancelFlag = new SharedArrayBuffer(4);
+    const workerData: ParseWorkerData = { pdf, sourceUrl, cancelFlag };
+    const worker = new Worker(this.workerUrl, {
+      workerData,
+      transferList: [pdf],
+      resourceLimits: { maxOldGenerationSizeMb: this.options.maxMemoryMb },
+    });
+    this.running++;
+
+    let settled = false;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+    const settle = (err: Error | null, opinion?: ParsedOpinion) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(budget);
+      options.signal?.removeEventListener('abort', onAbort);
+      if (err) task.reject(err);
+      else task.resolve(opinion!);
+    };
+    // Ask the parse to stop, and answer the caller now rather than when it does
+    const stop = (code: string) => {
+      if (settled) return;
+      Atomics.store(new Int32Array(cancelFlag), 0, 1);
+      killTimer = setTimeout(() => worker.terminate(), this.options.graceMs ?? DEFAULT_GRACE_MS);
+      settle(new Error(code));
+    };
+    const onAbort = () => stop('PARSE_CANCELLED');
+    const budget = setTimeout(() => stop('PARSE_TIMEOUT'), this.options.timeoutMs);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.on('message', (message: ParseWorkerMessage) => {
+      if (settled) return;
+      if (message.type === 'chapter') {
+        options.onChapter?.(message.chapter);
+        return;
+      }
+      if (message.type === 'done') settle(null, message.opinion);
+      else settle(new Error(message.message));
+      // Whatever pdf.js still holds open, the thread is done
+      void worker.terminate();
+    });
+    worker.on('error', (err: Error & { code?: string }) => {
+      settle(err.code === 'ERR_WORKER_OUT_OF_MEMORY' ? new Error('PARSE_OUT_OF_MEMORY') : err);
+    });
+    // The slot is free once the thread is gone, however the parse ended
+    worker.on('exit', () => {
+      clearTimeout(killTimer);
+      settle(new Error('PARSE_WORKER_EXITED'));
+      this.running--;
+      this.next();
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import type { Chapter, ParsedOpinion } from './types';
+import { OPINION_SCHEMA_VERSION, PARSER_VERSION } from './schema';
+
+/**
+ * The streaming variant of /api/parse (`&stream=1`): Server-Sent Events carrying each
+ * chapter as soon as the parser has read its pages, then the finished opinion.
+ *
+ *   event: chapter — a preview Chapter (see `onChapter` in parser.ts)
+ *   event: opinion — the ParsedOpinion, as the JSON endpoint returns it
+ *   event: error   — `{ error }`, when the parse fails after the stream has begun
+ *
+ * A cached opinion streams as a lone `opinion` event.
+ */
+
+export type ParseStreamEvent =
+  | { event: 'chapter'; data: Chapter }
+  | { event: 'opinion'; data: ParsedOpinion }
+  | { event: 'error'; data: { error: string } };
+
+const EVENTS = new Set(['chapter', 'opinion', 'error']);
+
+export function formatEvent({ event, data }: ParseStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEvent(block: string): ParseStreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  if (!EVENTS.has(event) || data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as ParseStreamEvent;
+}
+
+/** Read a streamed parse, calling `onEvent` with each event as it arrives */
+export async function readParseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ParseStreamEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const event = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (event) onEvent(event);
+    }
+  }
+}
+
+/** The opinion to render while its chapters are still arriving: chapters and nothing else */
+export function previewOpinion(sourceUrl: string, chapters: Chapter[]): ParsedOpinion {
+  return {
+    schemaVersion: OPINION_SCHEMA_VERSION,
+    parserVersion: PARSER_VERSION,
+    caseTitle: '',
+    docketNumber: '',
+    dockets: [],
+    decidedDate: '',
+    dates: { argued: '', reargued: '', decided: '' },
+    lowerCourtId: '',
+    sourceUrl,
+    chapters,
+    holdings: [],
+    disposition: '',
+    diagnostics: { warnings: [], repairs: [], confidence: 1 },
+  };
+}
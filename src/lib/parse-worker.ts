@@ -0,0 +1,24 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { parsePdf } from './parser';
+import type { ParseWorkerData, ParseWorkerMessage } from './parse-pool';
+
+/**
+ * Entry point of a parse-pool worker thread: parses one PDF and posts its chapters as they
+ * are read, then the opinion. The pool asks it to stop through a shared flag rather than a
+ * message, since a parse busy between pages never gets back to the event loop to read one.
+ */
+
+const { pdf, sourceUrl, cancelFlag } = workerData as ParseWorkerData;
+const flag = new Int32Array(cancelFlag);
+
+function post(message: ParseWorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+parsePdf(pdf, sourceUrl, {
+  onChapter: (chapter) => post({ type: 'chapter', chapter }),
+  signal: { get aborted() { return Atomics.load(flag, 0) === 1; } },
+}).then(
+  (opinion) => post({ type: 'done', opinion }),
+  (err) => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }),
+);
@@ -1,4 +1,16 @@
 import type { ParsedOpinion, Chapter, Paragraph, Footnote } from './types';
+import { encodeMarkerField as field, markersToSpans } from './spans';
+import { OPINION_SCHEMA_VERSION, PARSER_VERSION } from './schema';
+import { isConstitutionProvision, romanToArabic } from './constitution';
+import { describeChapters } from './joinders';
+import { extractHoldings } from './syllabus';
+import { extractDockets } from './dockets';
+import { extractProceduralDates } from './dates';
+import { findJustice, chiefJusticeOn, benchOn, justiceKey } from './justices';
+import { diagnoseOpinion } from './diagnostics';
+import { reconcileChapterFootnotes, reconcilePageFootnotes, type NotedPage } from './footnotes';
+import { anchorParagraphs } from './anchors';
+import { detectLayout, isPageNumber, LAYOUT_PROFILES, type LayoutName, type LayoutProfile } from './layout';
 
 interface TextItem {
   str: string;
@@ -12,17 +24,7 @@ interface PageTextContent {
   items: (TextItem | { type: string })[];
 }
 
-// Known justices for name normalization
-const KNOWN_JUSTICES: Record<string, string> = {
-  REHNQUIST: 'Rehnquist', STEVENS: 'Stevens', OCONNOR: "O'Connor",
-  SCALIA: 'Scalia', KENNEDY: 'Kennedy', SOUTER: 'Souter',
-  THOMAS: 'Thomas', GINSBURG: 'Ginsburg', BREYER: 'Breyer',
-  ROBERTS: 'Roberts', ALITO: 'Alito', SOTOMAYOR: 'Sotomayor',
-  KAGAN: 'Kagan', GORSUCH: 'Gorsuch', KAVANAUGH: 'Kavanaugh',
-  BARRETT: 'Barrett', JACKSON: 'Jackson',
-};
-
-interface SectionHeader {
+export interface SectionHeader {
   raw: string;
   normalized: string;
   id: string;
@@ -46,14 +48,14 @@ function extractJusticeName(text: string): string | null {
   const splitMatch = text.match(/^([A-Z])\s+([A-Z]{2,})$/);
   if (splitMatch) {
     const name = splitMatch[1] + splitMatch[2];
-    if (KNOWN_JUSTICES[name]) return name;
+    if (findJustice(name)) return name;
   }
   // Direct all-caps: "THOMAS"
   const directMatch = text.match(/^([A-Z]{2,})$/);
-  if (directMatch && KNOWN_JUSTICES[directMatch[1]]) return directMatch[1];
+  if (directMatch && findJustice(directMatch[1])) return directMatch[1];
   // Title-case: "Ginsburg" → look up "GINSBURG"
-  const upperName = text.trim().toUpperCase();
-  if (KNOWN_JUSTICES[upperName]) return upperName;
+  const upperName = justiceKey(text);
+  if (findJustice(upperName)) return upperName;
   return null;
 }
 
@@ -73,6 +75,33 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
     return { raw, normalized: 'Per Curiam', id: 'opinion-per-curiam', title: 'Per Curiam', author: null };
   }
 
+  // "Appendix to opinion of the Court" / "Appendix B to opinion of T HOMAS , J."
+  // Appendices continue the opinion they belong to, so they take its author
+  const appendixMatch = raw.match(
+    /^Appendix(?:\s+([A-Z]))?\s+to\s+(?:the\s+)?[Oo]pinion of\s+(?:(the Court)|([A-Z](?:\s+[A-Z]+)?|[A-Z][a-z]+)\s*,\s*(?:C\.\s*)?J\.)/
+  );
+  if (appendixMatch) {
+    const letter = appendixMatch[1] ? `${appendixMatch[1]} ` : '';
+    const name = appendixMatch[3] ? extractJusticeName(appendixMatch[3]) : null;
+    const author = name ? findJustice(name)!.name : null;
+    const id = `appendix-${appendixMatch[1] ? appendixMatch[1].toLowerCase() + '-' : ''}${name ? name.toLowerCase() : 'majority'}`;
+    const title = `Appendix ${letter}to opinion of ${author ?? 'the Court'}`;
+    return { raw, normalized: title, id, title, author };
+  }
+
+  // "Statement of S OTOMAYOR , J." — a writing respecting the denial of certiorari
+  const statementMatch = raw.match(
+    /^Statement of\s+([A-Z](?:\s+[A-Z]+)?|[A-Z][a-z]+)\s*,\s*(?:C\.\s*)?J\.$/
+  );
+  if (statementMatch) {
+    const name = extractJusticeName(statementMatch[1]);
+    if (name) {
+      const author = findJustice(name)!.name;
+      const title = `Statement of ${author}`;
+      return { raw, normalized: title, id: `statement-${name.toLowerCase()}`, title, author };
+    }
+  }
+
   // "Opinion of R OBERTS , C. J." or "Opinion of K AGAN , J."
   // The chief justice's opinion header is equivalent to "Opinion of the Court"
   // Other justices' "Opinion of" headers are separate opinions (concurring/dissenting
@@ -83,7 +112,7 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
   if (opinionOfMatch) {
     const name = extractJusticeName(opinionOfMatch[1]);
     if (name) {
-      const author = KNOWN_JUSTICES[name]!;
+      const author = findJustice(name)!.name;
       // Chief Justice's opinion = majority
       if (/C\.\s*J\./.test(raw)) {
         return { raw, normalized: 'Opinion of the Court', id: 'opinion-majority', title: 'Opinion of the Court', author };
@@ -103,7 +132,7 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
     const name = extractJusticeName(justiceMatch[1]);
     if (name) {
       const type = justiceMatch[2].toLowerCase();
-      const author = KNOWN_JUSTICES[name]!;
+      const author = findJustice(name)!.name;
       const id = `${type}-${name.toLowerCase()}`;
       const title = `${author}, ${type}`;
       return { raw, normalized: title, id, title, author };
@@ -116,9 +145,10 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
   );
   if (directJusticeMatch) {
     const fullName = directJusticeMatch[1];
-    if (KNOWN_JUSTICES[fullName]) {
+    const justice = findJustice(fullName);
+    if (justice) {
       const type = directJusticeMatch[2].toLowerCase();
-      const author = KNOWN_JUSTICES[fullName];
+      const author = justice.name;
       const id = `${type}-${fullName.toLowerCase()}`;
       const title = `${author}, ${type}`;
       return { raw, normalized: title, id, title, author };
@@ -134,7 +164,7 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
   if (titleJusticeMatch) {
     const upperName = titleJusticeMatch[1].toUpperCase();
     const type = titleJusticeMatch[2].toLowerCase();
-    const author = KNOWN_JUSTICES[upperName] ?? titleJusticeMatch[1];
+    const author = findJustice(upperName)?.name ?? titleJusticeMatch[1];
     const id = `${type}-${upperName.toLowerCase()}`;
     const title = `${author}, ${type}`;
     return { raw, normalized: title, id, title, author };
@@ -148,7 +178,7 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
   if (multiJusticeMatch) {
     const upperName = multiJusticeMatch[1].toUpperCase();
     const type = multiJusticeMatch[2].toLowerCase();
-    const author = KNOWN_JUSTICES[upperName] ?? multiJusticeMatch[1];
+    const author = findJustice(upperName)?.name ?? multiJusticeMatch[1];
     const id = `${type}-${upperName.toLowerCase()}`;
     const title = `${author}, ${type}`;
     return { raw, normalized: title, id, title, author };
@@ -170,8 +200,11 @@ export function parseSectionHeader(headerText: string): SectionHeader | null {
  * 1. Collapsing known split patterns (e.g., "J USTICE" → "JUSTICE")
  * 2. Fixing split justice names (e.g., "B ARRETT" → "BARRETT")
  * 3. Handling "CHIEF" splits (e.g., "C HIEF" → "CHIEF")
+ *
+ * Only the Justices sitting on `date` (the decision date) are set in small caps — former
+ * Justices are named in roman type — so only their names are rebuilt.
  */
-export function fixSmallCaps(text: string): string {
+export function fixSmallCaps(text: string, date = ''): string {
   let result = text;
 
   // Fix "J USTICE" → "JUSTICE" and "C HIEF" → "CHIEF"
@@ -179,7 +212,8 @@ export function fixSmallCaps(text: string): string {
   result = result.replace(/C\s+HIEF/g, 'CHIEF');
 
   // Fix split justice names: "R OBERTS" → "ROBERTS", "T HOMAS" → "THOMAS", etc.
-  for (const name of Object.keys(KNOWN_JUSTICES)) {
+  const bench = benchNames(date);
+  for (const name of bench) {
     const first = name[0];
     const rest = name.slice(1);
     const regex = new RegExp(`${first}\\s+${rest}\\b`, 'g');
@@ -192,7 +226,7 @@ export function fixSmallCaps(text: string): string {
   // We match the fragment at a word boundary preceded by a space.
   result = result.replace(/\bUSTICE\b/g, 'JUSTICE');
   result = result.replace(/\bHIEF\b/g, 'CHIEF');
-  for (const name of Object.keys(KNOWN_JUSTICES)) {
+  for (const name of bench) {
     const rest = name.slice(1);
     // Only fix if the fragment is at least 4 chars (avoid false positives)
     if (rest.length >= 4) {
@@ -220,9 +254,9 @@ export function fixSmallCaps(text: string): string {
  * around the hyphen in the PDF text).
  */
 export function dehyphenate(text: string): string {
-  // Fix footnote-interrupted hyphenations with {{fn:N}} markers:
+  // Fix footnote- or page-interrupted hyphenations with {{fn:N}} / {{pg:N}} markers:
   // "find - {{fn:2}} ings" → "findings{{fn:2}}" (rejoin word, move marker to end)
-  let result = text.replace(/(\w+)\s*-\s+(\{\{fn:\d+\}\})\s+([a-z]\w*)/g, (_, before, marker, after) => {
+  let result = text.replace(/(\w+)\s*-\s+(\{\{(?:fn|pg):\d+\}\})\s+([a-z]\w*)/g, (_, before, marker, after) => {
     return before + after + marker;
   });
 
@@ -237,25 +271,237 @@ export function dehyphenate(text: string): string {
   return result;
 }
 
+/** A font style kept as inline emphasis. */
+export type Emphasis = 'italic' | 'bold';
+
+/**
+ * Emphasis of a PDF font from its PostScript name, e.g. "CHOFKE+CenturySchoolbook-Italic".
+ * Bold italic counts as bold.
+ */
+export function fontEmphasis(fontName: string): Emphasis | null {
+  const style = fontName.replace(/^[A-Z]{6}\+/, '');
+  if (/Bold|Black|Heavy|Semibold|Demi/i.test(style)) return 'bold';
+  if (/Italic|Oblique/i.test(style)) return 'italic';
+  return null;
+}
+
+// Line text carries emphasis as private-use toggle characters from line assembly until
+// takeEmphasis lifts it out at the start of paragraph building, so the passes that match
+// on the words themselves (headers, joinders, citations) never see it.
+const EMPHASIS_TOGGLES: Record<Emphasis, [string, string]> = {
+  italic: ['\uE000', '\uE001'],
+  bold: ['\uE002', '\uE003'],
+};
+const EMPHASIS_CODES: Record<Emphasis | 'smallcaps', string> = { italic: 'i', bold: 'b', smallcaps: 'sc' };
+
+/** Wrap text in emphasis toggles, leaving its surrounding spaces outside them. */
+export function emphasize(text: string, emphasis: Emphasis | null): string {
+  if (!emphasis) return text;
+  const [open, close] = EMPHASIS_TOGGLES[emphasis];
+  const m = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return m[2] ? `${m[1]}${open}${m[2]}${close}${m[3]}` : text;
+}
+
+export function stripEmphasis(text: string): string {
+  return text.replace(/[\uE000-\uE003]/g, '');
+}
+
+/** A run of italic or bold text, in reading order. */
+export interface EmphasisRun {
+  style: Emphasis;
+  text: string;
+}
+
 /**
- * Detect US Reports citations and ante/post cross-references in text,
+ * Lift the emphasis toggles out of a paragraph or footnote, returning the plain text and
+ * its emphasized runs. A run broken across items or lines is rejoined first, and each run
+ * is dehyphenated the way the text around it will be.
+ */
+export function takeEmphasis(text: string): { text: string; runs: EmphasisRun[] } {
+  const joined = text.replace(/\uE001(\s*)\uE000/g, '$1').replace(/\uE003(\s*)\uE002/g, '$1');
+  const runs: EmphasisRun[] = [];
+  for (const m of joined.matchAll(/\uE000([^\uE001]*)\uE001|\uE002([^\uE003]*)\uE003/g)) {
+    const run = dehyphenate(stripEmphasis(m[1] ?? m[2]).replace(/\s+/g, ' ').trim());
+    if (/[A-Za-z]/.test(run)) runs.push({ style: m[1] !== undefined ? 'italic' : 'bold', text: run });
+  }
+  return { text: stripEmphasis(joined), runs };
+}
+
+const benches = new Map<string, string[]>();
+const smallCapsPatterns = new Map<string, RegExp>();
+
+/** The sitting Justices' names as set in capitals: "THOMAS", "OCONNOR" */
+function benchNames(date: string): string[] {
+  let names = benches.get(date);
+  if (!names) {
+    names = benchOn(date).map((j) => justiceKey(j.name));
+    benches.set(date, names);
+  }
+  return names;
+}
+
+// The words fixSmallCaps rebuilds: "JUSTICE", "CHIEF", "THE CHIEF JUSTICE", and justices' names
+function smallCapsRe(date: string): RegExp {
+  let re = smallCapsPatterns.get(date);
+  if (!re) {
+    const word = `(?:CHIEF|JUSTICES?|${benchNames(date).join('|')})`;
+    re = new RegExp(String.raw`\b(?:THE\s+(?=CHIEF\b))?${word}(?:\s+${word})*\b`, 'g');
+    smallCapsPatterns.set(date, re);
+  }
+  return re;
+}
+
+/** "JUSTICE THOMAS" → "{{em:sc:Justice Thomas}}": the printed form, for small-caps rendering. */
+function markSmallCaps(text: string, date: string): string {
+  return text.replace(smallCapsRe(date), (match) => {
+    const words = match.split(/(\s+)/).map((w) => findJustice(w, date)?.name ?? w[0] + w.slice(1).toLowerCase());
+    return `{{em:sc:${field(words.join(''))}}}`;
+  });
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Where `run` next occurs in `text` from `from` as whole words: "id" in "See id., at 5"
+ * but not in "President", "e" in "e. g." but not in "See". -1 if it doesn't.
+ */
+function indexOfRun(text: string, run: string, from: number): number {
+  const wordStart = WORD_CHAR.test(run[0]);
+  const wordEnd = WORD_CHAR.test(run[run.length - 1]);
+  for (let at = text.indexOf(run, from); at >= 0; at = text.indexOf(run, at + 1)) {
+    if (wordStart && WORD_CHAR.test(text[at - 1] ?? '')) continue;
+    if (wordEnd && WORD_CHAR.test(text[at + run.length] ?? '')) continue;
+    return at;
+  }
+  return -1;
+}
+
+/**
+ * Wrap a finished paragraph's emphasized runs, and the names fixSmallCaps rebuilt, in
+ * {{em:...}} markers. Runs are matched in order, as whole words, each after the last;
+ * one that lands inside another marker (a case name in a citation) stays as it is.
+ * Headings and boilerplate are left alone.
+ */
+export function markEmphasis(text: string, runs: EmphasisRun[], date = ''): string {
+  if (/^\{\{(?:h[1-3]|bp|bpj):/.test(text)) return text;
+  const parts = text.split(/(\{\{.*?\}\})/);
+  const found = parts.map(() => [] as { start: number; end: number; style: Emphasis }[]);
+  let partIdx = 0;
+  let offset = 0;
+  for (const run of runs) {
+    for (let i = partIdx; i < parts.length; i++) {
+      const at = indexOfRun(parts[i], run.text, i === partIdx ? offset : 0);
+      if (at < 0) continue;
+      if (i % 2 === 0) {
+        found[i].push({ start: at, end: at + run.text.length, style: run.style });
+        partIdx = i;
+        offset = at + run.text.length;
+      } else {
+        partIdx = i + 1;
+        offset = 0;
+      }
+      break;
+    }
+  }
+
+  return parts.map((part, i) => {
+    if (i % 2 === 1) return part;
+    let out = '';
+    let last = 0;
+    for (const { start, end, style } of found[i]) {
+      out += markSmallCaps(part.slice(last, start), date) + `{{em:${EMPHASIS_CODES[style]}:${field(part.slice(start, end))}}}`;
+      last = end;
+    }
+    return out + markSmallCaps(part.slice(last), date);
+  }).join('');
+}
+
+/**
+ * Detect US Reports citations and internal cross-references in text,
  * wrapping them with inline markers for the frontend to render as links.
  *
  * With case name: `Trump v. United States, 603 U. S. 593`
  *   → `{{cite:603:593:593:Trump v. United States:Trump v. United States, 603 U. S. 593}}`
  * Bare citation:  `553 U. S. 285, 294`
  *   → `{{cite:553:285:294::553 U. S. 285, 294}}`
- * Ante/post:      `ante, at 14` → `{{ref:ante:14}}`
+ * Ante/post:      `ante, at 12–14 (THOMAS, J., dissenting)` → `{{ref:ante:12:14:THOMAS:dissenting:ante, at 12–14}} (THOMAS, J., dissenting)`
+ * Syllabus pages: `... applies. Pp. 5–12.` → `... applies. {{ref:post:5:12::court:Pp. 5–12}}.`
+ * Parts / notes:  `Part III–B, infra` → `{{part:III–B:infra:::Part III–B, infra}}`; `n. 3, supra` → `{{note:3:supra:n. 3, supra}}`
+ * Short form:     `Id., at 290` → `{{cite:553:285:290::Id., at 290}}` (same kind as the preceding authority)
+ * Short case:     `Heller, 553 U. S., at 290` → `{{cite:553:285:290:District of Columbia v. Heller:Heller, 553 U. S., at 290}}`
+ * CFR:            `40 CFR §1502.4(b)` → `{{cfr:40:1502:1502.4:(b):40 CFR §1502.4(b)}}`
+ * Constitution:   `Art. I, §8, cl. 3` → `{{const:article:I:8:3:Art. I, §8, cl. 3}}`
+ * Statutes:       `Pub. L. 117–169, 136 Stat. 1818` → `{{pl:117:169:Pub. L. 117–169}}, {{stat:136:1818:1818:136 Stat. 1818}}`
+ * Other reporter: `Doe v. Roe, 1 F. 4th 10, 12 (CA9 2021)` → `{{reporter:F.4th:1:10:12:CA9:2021:Doe v. Roe:Doe v. Roe, 1 F. 4th 10, 12 (CA9 2021)}}`
+ *
+ * Parallel S. Ct. / L. Ed. cites right after a U.S. cite are folded into its marker.
  *
- * Only links volumes ≥ 502 (roughly when supremecourt.gov coverage starts).
+ * Links every volume ≥ 1; the Reader decides where each volume's text is read from.
  * Marker format: cite:volume:page:pinpoint:caseName:display  (caseName may be empty)
+ * Free-text fields are escaped with encodeMarkerField, so they never contain ":" or braces.
  *
  * ctx: mutable object shared across paragraph calls so that bare `§1701(a)` refs
- * can inherit the title number from a preceding `50 U. S. C. §1701(a)` citation.
+ * can inherit the title number from a preceding `50 U. S. C. §1701(a)` citation,
+ * and "Id." / "Ibid." can resolve to the last authority cited in the chapter.
+ * `citedCases` is shared across a whole opinion so a dissent's "Vance, 591 U. S., at 802"
+ * finds the full cite given in the majority.
  */
 
 export interface CitationContext {
   lastUscTitle: string | null;
+  lastCfrTitle?: string | null;
+  lastAuthority?: CitedAuthority | null;
+  citedCases?: CitedCases;
+}
+
+/** A full U.S. Reports citation seen earlier in the opinion. */
+export interface CitedCase {
+  page: string;
+  caseName: string;
+}
+
+/** Full citations keyed by volume, most recent last; party names pick among them. */
+export type CitedCases = Map<string, CitedCase[]>;
+
+/**
+ * The most recent cite/usc/fr marker seen, kept as its (already encoded) marker
+ * fields minus the trailing display text so a short form can re-emit it.
+ */
+export interface CitedAuthority {
+  kind: 'cite' | 'usc' | 'fr' | 'reporter' | 'cfr' | 'const' | 'stat' | 'pl';
+  fields: string[];
+}
+
+// Optional "Party v. Party, " prefix shared by the reporter patterns.
+// Group 1 = firstParty, Group 2 = secondParty (both undefined for bare citations)
+const CASE_NAME_PREFIX = String.raw`(?:([A-Z][\w']+(?:\s+(?:of\s+|the\s+|de\s+|for\s+|and\s+)?[A-Z][\w']+){0,5}(?:,\s*(?:Inc|Corp|Co|Ltd|LLC|LLP|Jr|Sr|Bros|Cos)\.)?)\s+v\.\s+([A-Z][\w']+(?:\s+(?:of\s+|the\s+|for\s+|and\s+)?[A-Z]?[\w']+){0,4}),\s*)?`;
+
+// S. Ct. / L. Ed. parallel cites that follow a U.S. cite: ", 140 S. Ct. 2412, 207 L. Ed. 2d 907"
+const PARALLEL_CITES = String.raw`((?:,\s*\d{1,4}\s+(?:S\.\s*Ct\.|L\.\s*Ed\.(?:\s*2d)?)\s+\d{1,5}(?:\s*,\s*\d{1,5}(?!\d|\s+L\.\s*Ed\.))?)+)?`;
+
+/**
+ * Reporters other than U.S. Reports, canonicalized to the abbreviations CourtListener's
+ * citation lookup uses. Longer forms come first so "F. Supp. 2d" isn't read as "F.".
+ */
+const OTHER_REPORTERS: [RegExp, string][] = [
+  [/^F\.\s*Supp\.\s*3d$/, 'F. Supp. 3d'],
+  [/^F\.\s*Supp\.\s*2d$/, 'F. Supp. 2d'],
+  [/^F\.\s*Supp\.$/, 'F. Supp.'],
+  [/^F\.\s*4th$/, 'F.4th'],
+  [/^F\.\s*3d$/, 'F.3d'],
+  [/^F\.\s*2d$/, 'F.2d'],
+  [/^F\.$/, 'F.'],
+  [/^S\.\s*Ct\.$/, 'S. Ct.'],
+  [/^L\.\s*Ed\.\s*2d$/, 'L. Ed. 2d'],
+  [/^L\.\s*Ed\.$/, 'L. Ed.'],
+];
+
+// Each series suffix is taken whenever present (the lookaheads stop "F. Supp. 3d" from
+// backtracking to "F. Supp." with page "3").
+const OTHER_REPORTER_RE = String.raw`(F\.\s*Supp\.(?:\s*[23]d|(?!\s*[23]d))|F\.(?:\s*(?:2d|3d|4th)|(?!\s*(?:2d|3d|4th)))|S\.\s*Ct\.|L\.\s*Ed\.(?:\s*2d|(?!\s*2d)))`;
+
+function canonicalReporter(raw: string): string {
+  return OTHER_REPORTERS.find(([re]) => re.test(raw))?.[1] ?? raw;
 }
 
 /** Apply fn only to the non-marker segments of text, leaving {{...}} markers untouched. */
@@ -264,10 +510,24 @@ function applyToNonMarkers(text: string, fn: (s: string) => string): string {
   return parts.map((part, i) => (i % 2 === 0 ? fn(part) : part)).join('');
 }
 
+// The opinion a cross-reference's parenthetical names: "(THOMAS, J., dissenting)",
+// "(opinion of SOTOMAYOR, J.)", "(opinion of the Court)". A footnote pinpoint may come
+// between the reference and the parenthetical ("ante, at 16, n. 3 (SOTOMAYOR, J., dissenting)").
+const REF_TARGET_RE =
+  /^(?:,\s*(?:and\s+)?nn?\.\s*\d{1,3}(?:\s*[–-]\s*\d{1,3})?)?\s*\((?:(?:plurality\s+)?opinion\s+of\s+)?(?:(the\s+Court)\b|(?:CHIEF\s+)?(?:JUSTICE\s+)?([A-Z][A-Za-z'’-]+),\s*(?:C\.\s*)?J\.(?:,\s*(concurring|dissenting))?)/;
+
+/** Author and role ("concurring", "dissenting", or "court") named after a cross-reference; empty if none. */
+function refTarget(following: string): { author: string; role: string } {
+  const m = following.replace(/\{\{pg:\d+\}\}\s*/g, '').match(REF_TARGET_RE);
+  if (!m) return { author: '', role: '' };
+  if (m[1]) return { author: '', role: 'court' };
+  return { author: m[2], role: m[3] ?? '' };
+}
+
 /**
  * Build one or more {{usc:...}} markers for a single- or multi-section citation.
  * Each section in a comma-separated list (e.g. "§§1701(a), 1702(a)(1)(B)") becomes
- * its own marker, with a plain-text ", " between them so parseSegments renders them
+ * its own marker, with a plain-text ", " between them so the Reader renders them
  * as two independent clickable links.
  */
 function expandUscSections(
@@ -279,7 +539,7 @@ function expandUscSections(
 ): string {
   const sub1 = subsRaw ? subsRaw.replace(/\s+/g, '') : '';
   const normalSection = section.replace(/\u2013/g, '-'); // normalize en dash to hyphen for API
-  let result = `{{usc:${title}:${normalSection}:${sub1}:${firstDisplay}}}`;
+  let result = `{{usc:${title}:${normalSection}:${field(sub1)}:${field(firstDisplay)}}}`;
 
   if (continuations) {
     const contRe = /,\s*(?:and\s+)?(\d+[a-z]?)((?:\s*\([^)\s]{1,8}\))*)/g;
@@ -288,7 +548,151 @@ function expandUscSections(
       const sec = m[1];
       const subs = m[2] ? m[2].replace(/\s+/g, '') : '';
       const display = `${sec}${m[2] ?? ''}`;
-      result += `, {{usc:${title}:${sec}:${subs}:${display}}}`;
+      result += `, {{usc:${title}:${sec}:${field(subs)}:${field(display)}}}`;
+    }
+  }
+
+  return result;
+}
+
+// An authority marker, any other marker (skipped whole), an "Id." / "Ibid." short form,
+// or an unlinked citation-like token (record cites, briefs, reporters the parser doesn't
+// know, like "100 So. 3d 5"). "Id., §1702(b)" is left alone: the bare-§ pass has
+// already linked the section itself. So is "Id., cl. 2", which names a different clause.
+const SHORT_FORM_RE = new RegExp([
+  String.raw`\{\{(cite|usc|fr|reporter|cfr|const|stat|pl):([^{}]*)\}\}`,
+  String.raw`\{\{[^{}]*\}\}`,
+  String.raw`\b(?:[Ii]d|[Ii]bid)\.(?:,?\s+at\s+(\d{1,5})(?:[–-]\d{1,5})?)?(?!,?\s*(?:§|\{\{usc:|cls?\.))`,
+  String.raw`\b(Brief\s+for|Reply\s+Brief|App\.|Tr\.|\d{1,4}\s+[A-Z][\w.]*(?:\s+(?:[A-Z][\w.]*|\d(?:d|th)))*\s+\d{1,5}\b)`,
+].join('|'), 'g');
+
+/**
+ * Walk the marked text in reading order, remembering the last authority marker and
+ * rewriting "Id." / "Ibid." as a marker of the same kind. "Id., at N" moves the
+ * pinpoint (or, for Fed. Reg., the page); a bare "Id." or "Ibid." keeps it.
+ * An unlinked citation in between clears the authority: "Id." then refers to
+ * something the parser can't link, and a wrong link is worse than none.
+ */
+function resolveShortForms(text: string, ctx: CitationContext): string {
+  return text.replace(SHORT_FORM_RE, (match, kind, body, at, unlinked) => {
+    if (kind) {
+      const fields = body.split(':');
+      const count = kind === 'cite' || kind === 'cfr' || kind === 'const' ? 4 : kind === 'reporter' ? 7 : kind === 'pl' ? 2 : 3;
+      ctx.lastAuthority = { kind, fields: fields.slice(0, count) };
+      return match;
+    }
+    if (unlinked) {
+      ctx.lastAuthority = null;
+      return match;
+    }
+    const last = ctx.lastAuthority;
+    if (match.startsWith('{{') || !last) return match;
+
+    const fields = [...last.fields];
+    if (at) {
+      if (last.kind === 'cite') fields[2] = at;
+      else if (last.kind === 'reporter') fields[3] = at;
+      else if (last.kind === 'fr') fields[1] = at;
+      else if (last.kind === 'stat') fields[2] = at;
+      else return match; // "Id., at N" has no meaning for a Code or CFR section, a clause or a Public Law
+    }
+    return `{{${last.kind}:${fields.join(':')}:${field(match)}}}`;
+  });
+}
+
+/** Add a full cite to the registry once per volume and page, keeping any case name seen. */
+function rememberCase(cases: CitedCases, volume: string, page: string, caseName: string) {
+  const known = cases.get(volume) ?? [];
+  const existing = known.find((c) => c.page === page);
+  if (existing) {
+    if (!existing.caseName) existing.caseName = caseName;
+  } else {
+    known.push({ page, caseName });
+  }
+  cases.set(volume, known);
+}
+
+/**
+ * Register every full cite in a chapter (body and footnotes) before its short forms are
+ * resolved, so a case cited in full only in a footnote is found from the body text too.
+ */
+export function collectCitedCases(texts: Iterable<string>, citedCases: CitedCases) {
+  for (const text of texts) {
+    markCitations(dehyphenate(stripEmphasis(text).replace(/\s+/g, ' ')), { lastUscTitle: null, citedCases });
+  }
+}
+
+/** Lowercased words of a case name, for matching a short form's party name against it. */
+function caseNameWords(caseName: string): Set<string> {
+  return new Set(caseName.toLowerCase().split(/[\s,]+/).filter(Boolean));
+}
+
+/**
+ * Rewrite "Vance, 591 U. S., at 802" (no first page — the comma follows "U. S.") as a
+ * cite marker pointing at the full citation remembered for that volume. Leading words
+ * that aren't part of the case name ("See", "Cf.") stay outside the link. A party name
+ * that matches no remembered case leaves the text unlinked; a short form with no name
+ * only resolves when the volume holds a single remembered case.
+ */
+function resolveShortCaseCites(text: string, cases: CitedCases): string {
+  return applyToNonMarkers(text, (segment) =>
+    segment.replace(
+      /(?:([A-Z][\w']+(?:\s+(?:of\s+|the\s+|v\.\s+)?[A-Z][\w']+){0,4}),\s*)?(\d{1,3})\s+U\.\s*S\.,\s*at\s+(\d{1,4}|_+)/g,
+      (match, name: string | undefined, volume: string, pin: string) => {
+        const candidates = cases.get(volume);
+        if (!candidates?.length) return match;
+
+        let lead = '';
+        let kept: string[] = [];
+        let entry: CitedCase | undefined;
+        if (name) {
+          const words = name.split(/\s+/);
+          for (let i = candidates.length - 1; i >= 0 && !entry; i--) {
+            const known = caseNameWords(candidates[i].caseName);
+            const start = words.findIndex((w) => known.has(w.toLowerCase()));
+            if (start >= 0 && known.has(words[words.length - 1].toLowerCase())) {
+              entry = candidates[i];
+              lead = words.slice(0, start).join(' ');
+              kept = words.slice(start);
+            }
+          }
+          if (!entry) return match;
+        } else {
+          if (candidates.length !== 1) return match;
+          entry = candidates[0];
+        }
+
+        const citeText = match.slice(match.search(/\d{1,3}\s+U\.\s*S\.,/));
+        const display = kept.length ? `${kept.join(' ')}, ${citeText}` : citeText;
+        const marker = `{{cite:${volume}:${entry.page}:${pin}:${field(entry.caseName)}:${field(display)}}}`;
+        return lead ? `${lead} ${marker}` : marker;
+      }
+    )
+  );
+}
+
+/**
+ * Build {{cfr:...}} markers for "40 CFR §§1502.4(b), 1502.9". Like expandUscSections,
+ * each listed section gets its own marker; sections are "part.section" numbers.
+ */
+function expandCfrSections(
+  title: string,
+  part: string,
+  section: string,
+  subsRaw: string | undefined,
+  continuations: string | undefined,
+  firstDisplay: string
+): string {
+  const sub1 = subsRaw ? subsRaw.replace(/\s+/g, '') : '';
+  let result = `{{cfr:${title}:${part}:${part}.${section}:${field(sub1)}:${field(firstDisplay)}}}`;
+
+  if (continuations) {
+    const contRe = /,\s*(?:and\s+)?(\d+)\.(\d+[a-z]?)((?:\s*\([^)\s]{1,8}\))*)/g;
+    let m;
+    while ((m = contRe.exec(continuations)) !== null) {
+      const subs = m[3] ? m[3].replace(/\s+/g, '') : '';
+      const display = `${m[1]}.${m[2]}${m[3] ?? ''}`;
+      result += `, {{cfr:${title}:${m[1]}:${m[1]}.${m[2]}:${field(subs)}:${field(display)}}}`;
     }
   }
 
@@ -296,46 +700,169 @@ function expandUscSections(
 }
 
 export function markCitations(text: string, ctx: CitationContext = { lastUscTitle: null }): string {
+  const citedCases = (ctx.citedCases ??= new Map());
+
   // Single pass: optionally match a "Party v. Party, " prefix before the citation.
   // Using one pass prevents Step 2 from re-processing the display text inside markers
   // already written by Step 1 (which would produce nested/broken markers).
   // Group 1 = firstParty, Group 2 = secondParty (both undefined for bare citations)
-  // Group 3 = volume, Group 4 = page, Group 5 = optional pinpoint, Group 6 = optional year
+  // Group 3 = volume, Group 4 = page, Group 5 = optional pinpoint,
+  // Group 6 = optional parallel S. Ct./L. Ed. cites, Group 7 = optional year
   // Page and pinpoint accept either digits or "___" (slip opinion not yet assigned a page).
+  // The pinpoint must not be the volume of a following parallel cite ("786, 140 S. Ct.").
   let result = text.replace(
-    /(?:([A-Z][\w']+(?:\s+(?:of\s+|the\s+|de\s+|for\s+|and\s+)?[A-Z][\w']+){0,5}(?:,\s*(?:Inc|Corp|Co|Ltd|LLC|LLP|Jr|Sr|Bros|Cos)\.)?)\s+v\.\s+([A-Z][\w']+(?:\s+(?:of\s+|the\s+|for\s+|and\s+)?[A-Z]?[\w']+){0,4}),\s*)?(\d{1,3})\s+U\.\s*S\.\s+(\d{1,4}|_+)(?:\s*,\s*(?:at\s+)?(\d{1,4}|_+))?(?:\s*\((\d{4})\))?/g,
-    (match, firstParty, secondParty, volume, page, pinpoint, _year) => {
+    new RegExp(CASE_NAME_PREFIX + String.raw`(\d{1,3})\s+U\.\s*S\.\s+(\d{1,4}|_+)(?:\s*,\s*(?:at\s+)?(\d{1,4}|_+)(?!\d|\s+(?:S\.\s*Ct\.|L\.\s*Ed\.)))?` + PARALLEL_CITES + String.raw`(?:\s*\((\d{4})\))?`, 'g'),
+    (match, firstParty, secondParty, volume, page, pinpoint, _parallel, _year) => {
       const vol = parseInt(volume);
       if (vol < 1) return match;
       const pin = pinpoint || page;
       const caseName = firstParty && secondParty
         ? `${firstParty.trim()} v. ${secondParty.trim()}`
         : '';
-      return `{{cite:${volume}:${page}:${pin}:${caseName}:${match}}}`;
+      rememberCase(citedCases, volume, page, caseName);
+      return `{{cite:${volume}:${page}:${pin}:${field(caseName)}:${field(match)}}}`;
     }
   );
 
+  // Short-form case cites: "Vance, 591 U. S., at 802" → the full cite remembered above
+  result = resolveShortCaseCites(result, citedCases);
+
   // Old Supreme Court reporters (pre-1875): "5 Cranch 173, 185 (1809)"
   // Maps to the equivalent U.S. Reports volume for Justia link resolution.
-  // Volume offsets: Cranch→+4, Wheat.→+13, Pet.→+25, How.→+41, Black→+65, Wall.→+67
+  // Volume offsets: Dall.→+0, Cranch→+4, Wheat.→+13, Pet.→+25, How.→+41, Black→+65, Wall.→+67
   result = result.replace(
-    /(?:([A-Z][\w']+(?:\s+(?:of\s+|the\s+|de\s+|for\s+|and\s+)?[A-Z][\w']+){0,5}(?:,\s*(?:Inc|Corp|Co|Ltd|LLC|LLP|Jr|Sr|Bros|Cos)\.)?)\s+v\.\s+([A-Z][\w']+(?:\s+(?:of\s+|the\s+|for\s+|and\s+)?[A-Z]?[\w']+){0,4}),\s*)?(\d{1,2})\s+(Cranch|Wheat\.?|Pet\.?|How\.?|Black|Wall\.?)\s+(\d{1,4})(?:\s*,\s*(\d{1,4}))?(?:\s*\((\d{4})\))?/g,
+    new RegExp(CASE_NAME_PREFIX + String.raw`(\d{1,2})\s+(Dall\.?|Cranch|Wheat\.?|Pet\.?|How\.?|Black|Wall\.?)\s+(\d{1,4})(?:\s*,\s*(\d{1,4}))?(?:\s*\((\d{4})\))?`, 'g'),
     (match, firstParty, secondParty, reporterVol, reporter, page, pin, _year) => {
       const base = reporter.replace(/\.$/, '');
-      const offsets: Record<string, number> = { Cranch: 4, Wheat: 13, Pet: 25, How: 41, Black: 65, Wall: 67 };
+      const offsets: Record<string, number> = { Dall: 0, Cranch: 4, Wheat: 13, Pet: 25, How: 41, Black: 65, Wall: 67 };
       const usVol = parseInt(reporterVol) + (offsets[base] ?? 0);
       const usPin = pin || page;
       const caseName = firstParty && secondParty ? `${firstParty.trim()} v. ${secondParty.trim()}` : '';
-      return `{{cite:${usVol}:${page}:${usPin}:${caseName}:${match}}}`;
+      return `{{cite:${usVol}:${page}:${usPin}:${field(caseName)}:${field(match)}}}`;
+    }
+  );
+
+  // Federal Reporter, F. Supp., and standalone S. Ct. / L. Ed. cites:
+  // "Doe v. Roe, 1 F. 4th 10, 12 (CA9 2021)". The parenthetical carries the deciding
+  // court (empty for S. Ct./L. Ed., whose court is implied) and the year.
+  // Volumes are at most three digits (so "1995 S. Ct. 5" isn't a cite), pages must end at
+  // a word boundary, and the first-series "F." — easily confused with an initial — is only
+  // linked when followed by its court/year parenthetical.
+  result = applyToNonMarkers(result, (segment) =>
+    segment.replace(
+      new RegExp(CASE_NAME_PREFIX + String.raw`\b(\d{1,3})\s+` + OTHER_REPORTER_RE + String.raw`\s+(\d{1,5}(?!\w)|_+)(?:\s*,\s*(\d{1,5})(?!\w))?(?:\s*\(([^()]*?)\s*(\d{4})\))?`, 'g'),
+      (match, firstParty, secondParty, volume, reporter, page, pin, court, year) => {
+        const canonical = canonicalReporter(reporter);
+        if (canonical === 'F.' && !year) return match;
+        const caseName = firstParty && secondParty ? `${firstParty.trim()} v. ${secondParty.trim()}` : '';
+        const fields = [canonical, volume, page, pin || page, court ?? '', year ?? '', caseName, match];
+        return `{{reporter:${fields.map(field).join(':')}}}`;
+      }
+    )
+  );
+
+  // Ante/post cross-references: "ante, at 14", "post, at 12–14 (THOMAS, J., dissenting)".
+  // The end of a range and the opinion a parenthetical names are kept so the Reader can
+  // open the right separate writing. A page break inside the range moves after the marker.
+  result = result.replace(
+    /\b(ante|post)\s*,\s*at\s+(\d{1,4})(?:\s*[–-]\s*(\{\{pg:\d+\}\}\s*)?(\d{1,4}))?(?!\d)/gi,
+    (match, direction, page, pageBreak, endPage, offset: number, whole: string) => {
+      const { author, role } = refTarget(whole.slice(offset + match.length));
+      const display = `${direction}, at ${page}${endPage ? `–${endPage}` : ''}`;
+      const fields = [direction.toLowerCase(), page, endPage ?? '', author, role, display];
+      return `{{ref:${fields.map(field).join(':')}}}${pageBreak ? ` ${pageBreak.trim()}` : ''}`;
     }
   );
 
-  // Ante/post cross-references: "ante, at 14" / "post, at 48"
+  // The syllabus closes each holding with the pages of the opinion of the Court it
+  // summarizes ("... is not sufficiently clear. Pp. 5–12."); those link like "post, at 5".
+  result = applyToNonMarkers(result, (segment) =>
+    segment.replace(
+      /(^\s*|[.”)]\s+)(Pp?\.\s+(\d{1,4})(?:\s*[–-]\s*(\d{1,4}))?)(?=\.(?:\s|$))/g,
+      (_, before, display, page, endPage) =>
+        `${before}{{ref:${['post', page, endPage ?? '', '', 'court', display].map(field).join(':')}}}`
+    )
+  );
+
+  // Parts of an opinion: "Part III–B, infra", "ante, Part II", "Part II–A, post (opinion of
+  // SOTOMAYOR, J.)". The label is normalized to the heading path ("IV– B–2" → "IV–B–2")
+  // that the Reader matches against the {{h1..h3}} headings of the target opinion.
+  result = applyToNonMarkers(result, (segment) =>
+    segment.replace(
+      /\b(?:(ante|post),\s*)?Part\s+([IVX]+(?:\s*[–-]\s*(?:[A-Z]|\d{1,2}))*)(?![\w–-])(?:,\s*(supra|infra|ante|post)\b)?/g,
+      (match, before, label, after, offset: number, whole: string) => {
+        if (!before === !after) return match;
+        const direction = (before ?? after).toLowerCase();
+        const { author, role } = refTarget(whole.slice(offset + match.length));
+        const path = label.split(/\s*[–-]\s*/).join('–');
+        return `{{part:${[path, direction, author, role, match].map(field).join(':')}}}`;
+      }
+    )
+  );
+
+  // Footnotes of the same opinion: "n. 3, supra", "nn. 4–5, infra". A note right after a
+  // pinpoint belongs to the cited source ("457 U. S., at 752, n. 32"), so that's left alone.
+  result = applyToNonMarkers(result, (segment) =>
+    segment.replace(
+      /\bnn?\.\s*(\d{1,3})(?:\s*(?:[–-]|and)\s*\d{1,3})?,\s*(supra|infra)\b/g,
+      (match, id, direction, offset: number, whole: string) => {
+        if (/(?:\d,|^,)\s*(?:and\s+)?$/.test(whole.slice(0, offset))) return match;
+        return `{{note:${id}:${direction}:${field(match)}}}`;
+      }
+    )
+  );
+
+  // Constitution: "Art. I, §8, cl. 3", "Amdt. 14, §1", "U. S. Const., Amdt. 1", "Art. VI, cl. 2".
+  // Runs before the USC passes so the "§8" inside an article cite can't become a Code section.
+  // State constitutions and treaties use the same "Art." form, so a cite right after another
+  // "Const.," (e.g. "Tex. Const., Art. I, §3") is skipped, and the provision must exist.
+  result = applyToNonMarkers(result, (segment) =>
+    segment.replace(
+      /(U\.\s*S\.\s*Const\.,?\s*)?\b(Art|Amdt|Amend)\.\s*([IVX]+|\d{1,2})(?!\w)(?:,\s*§\s*(\d{1,2})(?!\d))?(?:,\s*cls?\.\s*(\d{1,2})(?:\s*[–-]\s*\d{1,2}|\s+and\s+\d{1,2})?)?/g,
+      (match, usConst, abbreviation, numeral, section, clause, offset: number, whole: string) => {
+        if (!usConst && /(?:Const\.|Confederation),?\s*$/.test(whole.slice(0, offset))) return match;
+        const part = abbreviation === 'Art' ? 'article' : 'amendment';
+        // Articles are always Roman; amendments are Arabic in current style, Roman in older opinions
+        if (part === 'article' && !/^[IVX]+$/.test(numeral)) return match;
+        const number = part === 'article' ? numeral : romanToArabic(numeral);
+        if (!isConstitutionProvision(part, number, section ?? '', clause ?? '')) return match;
+        return `{{const:${part}:${number}:${section ?? ''}:${clause ?? ''}:${field(match)}}}`;
+      }
+    )
+  );
+
+  // CFR citations: "40 CFR §1502.4(b)", "40 C. F. R. §§1502.4, 1502.9 (2019)", "40 CFR pt. 1502".
+  // Runs before the USC passes so a bare "§1502.4" can't be read as a U.S. Code section.
+  // Updates ctx.lastCfrTitle so later bare dotted §-refs resolve to the same title.
+  // A "(2019)" edition year is never taken for a subsection.
   result = result.replace(
-    /\b(ante|post)\s*,\s*at\s+(\d{1,4})/gi,
-    (match, direction, page) => `{{ref:${direction.toLowerCase()}:${page}}}`
+    /(\d+)\s+(?:CFR|C\.\s*F\.\s*R\.)\s*(?:§§?\s*(\d+)\.(\d+[a-z]?)((?:\s*\((?!\d{4}\))[^)\s]{1,8}\))+)?((?:,\s*(?:and\s+)?\d+\.\d+[a-z]?(?:\s*\((?!\d{4}\))[^)\s]{1,8}\))*)+)?|(?:pts?\.|[Pp]art)\s*(\d+))(?=[\s,;.")]|$)/g,
+    (match, title, part, section, subs, continuations, wholePart) => {
+      ctx.lastCfrTitle = title;
+      if (wholePart) return `{{cfr:${title}:${wholePart}:::${field(match)}}}`;
+      const firstDisplay = continuations
+        ? match.slice(0, match.length - continuations.length)
+        : match;
+      return expandCfrSections(title, part, section, subs, continuations, firstDisplay);
+    }
   );
 
+  // Bare dotted section refs after a CFR cite: "§1502.4(b)" — USC sections never contain "."
+  if (ctx.lastCfrTitle) {
+    const lastTitle = ctx.lastCfrTitle;
+    result = applyToNonMarkers(result, (segment) =>
+      segment.replace(
+        /§§?\s*(\d+)\.(\d+[a-z]?)((?:\s*\((?!\d{4}\))[^)\s]{1,8}\))+)?((?:,\s*(?:and\s+)?\d+\.\d+[a-z]?(?:\s*\((?!\d{4}\))[^)\s]{1,8}\))*)+)?(?=[\s,;.")]|$)/g,
+        (match, part, section, subs, continuations) => {
+          const firstDisplay = continuations
+            ? match.slice(0, match.length - continuations.length)
+            : match;
+          return expandCfrSections(lastTitle, part, section, subs, continuations, firstDisplay);
+        }
+      )
+    );
+  }
+
   // USC citations: "28 U. S. C. § 2254(d)" or "28 U.S.C. §§ 1254, 2241(a)"
   // Captures optional comma-separated continuation sections so each becomes its own marker.
   // Updates ctx.lastUscTitle so subsequent bare §-refs can inherit the title number.
@@ -357,7 +884,7 @@ export function markCitations(text: string, ctx: CitationContext = { lastUscTitl
     const lastTitle = ctx.lastUscTitle;
     result = applyToNonMarkers(result, (segment) =>
       segment.replace(
-        /§§?\s*(\d+[a-z]?)((?:\s*\([^)\s]{1,8}\))+)?((?:,\s*(?:and\s+)?\d+[a-z]?(?:\s*\([^)\s]{1,8}\))*)+)?(?=[\s,;.")]|$)/g,
+        /§§?\s*(\d+[a-z]?)(?!\.\d)((?:\s*\([^)\s]{1,8}\))+)?((?:,\s*(?:and\s+)?\d+[a-z]?(?:\s*\([^)\s]{1,8}\))*)+)?(?=[\s,;.")]|$)/g,
         (match, section, subs, continuations) => {
           const firstDisplay = continuations
             ? match.slice(0, match.length - continuations.length)
@@ -376,7 +903,7 @@ export function markCitations(text: string, ctx: CitationContext = { lastUscTitl
       // Fall back to computing year from FR volume (vol 1 = 1936, so year = 1935 + vol)
       const yr = year || String(1935 + parseInt(volume));
       const firstDisplay = `${volume} Fed. Reg. ${firstPage}`;
-      let out = `{{fr:${volume}:${firstPage}:${yr}:${firstDisplay}}}`;
+      let out = `{{fr:${volume}:${firstPage}:${yr}:${field(firstDisplay)}}}`;
       if (continuations) {
         const pageRe = /,\s*(\d+)/g;
         let m;
@@ -389,22 +916,196 @@ export function markCitations(text: string, ctx: CitationContext = { lastUscTitl
     }
   );
 
+  // Public Laws: "Pub. L. 117–169" / "Pub. L. No. 104–104"
+  result = result.replace(
+    /Pub\.\s*L\.\s*(?:No\.\s*)?(\d{1,3})\s*[–-]\s*(\d{1,4})(?!\d)/g,
+    (match, congress, number) => `{{pl:${congress}:${number}:${field(match)}}}`
+  );
+
+  // Statutes at Large: "136 Stat. 1818" or "136 Stat. 1818, 1830". A trailing number
+  // followed by a capitalized word starts the next cite ("48 Stat. 881, 15 U. S. C. §78a"),
+  // and one below the first page can't be a pinpoint, so neither is taken as one.
+  result = result.replace(
+    /(\d{1,3})\s+Stat\.\s*(\d{1,5})(?:\s*,\s*(\d{1,5})(?:[–-]\d{1,5})?(?!\d|\s+[A-Z]))?/g,
+    (match, volume, page, pinpoint) => {
+      if (pinpoint && parseInt(pinpoint) < parseInt(page)) {
+        const first = match.slice(0, match.lastIndexOf(','));
+        return `{{stat:${volume}:${page}:${page}:${field(first)}}}${match.slice(first.length)}`;
+      }
+      return `{{stat:${volume}:${page}:${pinpoint || page}:${field(match)}}}`;
+    }
+  );
+
+  // Short forms: "Id., at 802" / "Ibid." → the preceding authority at the new pinpoint
+  result = resolveShortForms(result, ctx);
+
+  return result;
+}
+
+/**
+ * A paragraph as the text passes work on it: marker-annotated text only, with its italic
+ * and bold runs held aside. `toParagraphs` marks those and tokenizes the finished text
+ * into the typed spans the API returns.
+ */
+export type RawParagraph = Omit<Paragraph, 'spans' | 'anchor' | 'textHash'> & { emphasis?: EmphasisRun[] };
+
+/** Attach emphasis markers and typed inline spans to finished paragraphs (after boilerplate tagging). */
+export function toParagraphs(paragraphs: RawParagraph[], date = ''): Paragraph[] {
+  const result = paragraphs.map(({ emphasis = [], ...p }) => {
+    const text = markEmphasis(p.text, emphasis, date);
+    const spans = markersToSpans(text);
+    // tagBoilerplate rewrites text in place, so the block marker has the final say
+    const lead = spans[0]?.type;
+    const kind = lead === 'heading' || lead === 'boilerplate' ? lead : p.kind;
+    return { ...p, text, kind, spans, anchor: '', textHash: '' };
+  });
+  anchorParagraphs(result);
   return result;
 }
 
-export function buildParagraphs(text: string): Paragraph[] {
-  const paragraphs: Paragraph[] = [];
+/**
+ * Build the footnote list for a chapter from its id → raw text map.
+ * citedCases: the opinion-wide full-cite registry (see CitationContext).
+ * date: the decision date, which picks the names set in small caps (see fixSmallCaps).
+ */
+export function toFootnotes(
+  footnoteMap: Map<number, string>, citedCases: CitedCases = new Map(), date = ''
+): Footnote[] {
+  const footnotes: Footnote[] = [];
+  // Footnotes read in order share a context, so "Id." in note 4 can refer back to note 3
+  const citationCtx: CitationContext = { lastUscTitle: null, citedCases };
+  const ids = [...footnoteMap.keys()].sort((a, b) => a - b);
+  for (const id of ids) {
+    const { text, runs } = takeEmphasis(footnoteMap.get(id)!);
+    const marked = markEmphasis(markCitations(dehyphenate(text), citationCtx), runs, date);
+    footnotes.push({ id, text: marked, spans: markersToSpans(marked) });
+  }
+  return footnotes;
+}
+
+/** Page numbers of the {{pg:N}} markers in a piece of text, in order. */
+function inlinePages(text: string): number[] {
+  return [...text.matchAll(/\{\{pg:(\d+)\}\}/g)].map((m) => parseInt(m[1]));
+}
+
+/**
+ * Pages of the text split off the end of `para` (tagBoilerplate's splits): it starts on
+ * the last page that began in `head`, or on the paragraph's own first page.
+ */
+function tailPages(para: RawParagraph, head: string, tail: string): number[] {
+  const start = inlinePages(head).pop() ?? para.pages[0];
+  return start === undefined ? inlinePages(tail) : [start, ...inlinePages(tail)];
+}
+
+/**
+ * Prefix a PDF page's body lines with a {{pg:N}} marker for its printed page number.
+ * When the page opens with a new paragraph or a heading, a blank line goes first so the
+ * marker starts that paragraph instead of trailing the previous page's last one.
+ */
+export function withPageMarker(bodyLines: string[], page: number | null, startsParagraph: boolean): string[] {
+  if (page === null) return bodyLines;
+  const marker = `{{pg:${page}}}`;
+  return startsParagraph || bodyLines[0] === '' ? ['', marker, ...bodyLines] : [marker, ...bodyLines];
+}
+
+// Block quotations are set as an indented block: every line starts about two paragraph
+// indents (~22pt) in from the body margin, and each quoted paragraph opens a further
+// indent in (~33pt). Centered headings and captions sit further in than either.
+const QUOTE_MARGIN_MIN = 16;
+const QUOTE_MARGIN_MAX = 28;
+const QUOTE_OPENER_MAX = 40;
+
+/**
+ * The body text's left margin on a page, from the start x of each body-font line: the
+ * most common start, unless that's the margin of a block quotation filling most of the
+ * page — then body lines also start one quote indent further left.
+ */
+export function findBodyLeftMargin(startXs: number[]): number {
+  const xFreq = new Map<number, number>();
+  for (const x of startXs) {
+    const rx = Math.round(x);
+    xFreq.set(rx, (xFreq.get(rx) || 0) + 1);
+  }
+  let margin = 0;
+  let maxFreq = 0;
+  for (const [x, freq] of xFreq) {
+    if (freq > maxFreq) { maxFreq = freq; margin = x; }
+  }
+
+  let bodyX = 0;
+  let bodyFreq = 0;
+  for (const [x, freq] of xFreq) {
+    const offset = margin - x;
+    if (offset >= QUOTE_MARGIN_MIN && offset <= QUOTE_MARGIN_MAX && freq > bodyFreq) { bodyFreq = freq; bodyX = x; }
+  }
+  return bodyFreq >= 2 ? bodyX : margin;
+}
+
+/**
+ * Whether a body-font line belongs to a block quotation, from its indent past the body
+ * margin: 'open' starts a quoted paragraph, 'continue' carries on the current one.
+ * Caption lines at similar indents are all capitals, so a quote needs lowercase text; a
+ * lone indented line (a Syllabus "(a)" item) needs the quote to carry on below it.
+ */
+export function blockQuoteLine(
+  text: string, indent: number, nextIndent: number | null, inQuote: boolean
+): 'open' | 'continue' | null {
+  if (!/[a-z]/.test(text)) return null;
+  const atMargin = (x: number | null) => x !== null && x >= QUOTE_MARGIN_MIN && x < QUOTE_MARGIN_MAX;
+  const opens = inQuote || atMargin(nextIndent);
+  if (atMargin(indent)) return inQuote ? 'continue' : opens ? 'open' : null;
+  if (indent >= QUOTE_MARGIN_MAX && indent < QUOTE_OPENER_MAX && opens) return 'open';
+  return null;
+}
+
+/**
+ * Split chapter text into paragraphs. Page-start markers ({{pg:N}}, one per PDF page)
+ * that fall on a paragraph boundary are dropped from the text and recorded in the
+ * next paragraph's `pages`; those that fall mid-paragraph stay inline. `date` is the
+ * decision date, for fixSmallCaps.
+ */
+export function buildParagraphs(text: string, citedCases: CitedCases = new Map(), date = ''): RawParagraph[] {
+  const paragraphs: RawParagraph[] = [];
   const rawParagraphs = text.split(/\n{2,}/);
   // Shared context so bare §-refs can inherit the last USC title seen in this chapter
-  const citationCtx: CitationContext = { lastUscTitle: null };
+  const citationCtx: CitationContext = { lastUscTitle: null, citedCases };
+  // The page the text has reached, and whether it began at the current paragraph boundary
+  let currentPage: number | null = null;
+  let pageBreakBefore = false;
 
   for (const raw of rawParagraphs) {
-    let trimmed = raw.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+    const { text: plain, runs: emphasis } = takeEmphasis(raw.replace(/\n/g, ' '));
+    let trimmed = plain.replace(/\s+/g, ' ').trim();
+
+    // Page markers at either edge of a paragraph mark a page that begins between paragraphs
+    const leading = trimmed.match(/^(?:\{\{pg:\d+\}\}\s*)+/);
+    if (leading) {
+      currentPage = inlinePages(leading[0]).pop()!;
+      pageBreakBefore = true;
+      trimmed = trimmed.slice(leading[0].length);
+    }
+    // parsePdf flags the first line of each block-quoted paragraph
+    const kind = trimmed.startsWith('{{bq}}') ? 'blockquote' : 'body';
+    if (kind === 'blockquote') trimmed = trimmed.slice('{{bq}}'.length).trim();
+    const trailing = trimmed.match(/(?:\s*\{\{pg:\d+\}\})+$/);
+    const trailingPage = trailing ? inlinePages(trailing[0]).pop()! : null;
+    if (trailing) trimmed = trimmed.slice(0, -trailing[0].length).trim();
+
+    const startPage = currentPage;
+    const breakBefore: boolean = pageBreakBefore;
+    const midPages = inlinePages(trimmed);
+    if (midPages.length > 0) currentPage = midPages[midPages.length - 1];
+    if (trailingPage !== null) currentPage = trailingPage;
+    // A skipped paragraph (repeated header etc.) leaves a pending break for the next one
+    pageBreakBefore = breakBefore || trailingPage !== null;
+    const pages = startPage === null ? midPages : [startPage, ...midPages];
+
     if (!trimmed) continue;
 
     // Preserve section heading markers as their own paragraphs
     if (/^\{\{h[1-3]:.+\}\}$/.test(trimmed)) {
-      paragraphs.push({ text: trimmed, footnotes: [] });
+      paragraphs.push({ text: trimmed, kind: 'heading', pages, footnotes: [] });
+      pageBreakBefore = trailingPage !== null;
       continue;
     }
 
@@ -419,7 +1120,7 @@ export function buildParagraphs(text: string): Paragraph[] {
     if (/^SUPREME COURT OF THE UNITED STATES$/.test(trimmed)) continue;
 
     // Fix small-cap rendering artifacts
-    trimmed = fixSmallCaps(trimmed);
+    trimmed = fixSmallCaps(trimmed, date);
 
     // Remove spaces before closing punctuation — artifact of PDF font-boundary splits
     // where e.g. an italic word and its following Roman comma are separate pdfjs items.
@@ -432,24 +1133,30 @@ export function buildParagraphs(text: string): Paragraph[] {
     // Merge with previous paragraph if this is a continuation:
     // previous paragraph doesn't end with sentence-ending punctuation,
     // and this one starts with a lowercase letter.
-    // Never merge into a heading marker.
+    // Never merge into a heading marker, or a quotation into the text around it.
     const prevText = paragraphs.length > 0 ? paragraphs[paragraphs.length - 1].text : '';
     const prevIsHeading = /^\{\{h[1-3]:/.test(prevText);
     if (
       paragraphs.length > 0 &&
       !prevIsHeading &&
+      paragraphs[paragraphs.length - 1].kind === kind &&
       trimmed.length > 0 &&
       /^[a-z]/.test(trimmed) &&
       !/[.!?;:'")\u201d]\s*$/.test(prevText)
     ) {
       // Re-run dehyphenate on the junction in case a hyphenated word was split
-      // across the paragraph boundary (e.g., "Am -" + "bassadors")
-      paragraphs[paragraphs.length - 1].text = dehyphenate(
-        paragraphs[paragraphs.length - 1].text + ' ' + trimmed
-      );
+      // across the paragraph boundary (e.g., "Am -" + "bassadors").
+      // A page that began at the boundary is now mid-paragraph, so it goes inline.
+      const prev = paragraphs[paragraphs.length - 1];
+      const junction = breakBefore && startPage !== null ? ` {{pg:${startPage}}} ` : ' ';
+      prev.text = dehyphenate(prev.text + junction + trimmed);
+      prev.emphasis = [...(prev.emphasis ?? []), ...emphasis];
+      const newPages = breakBefore ? pages : midPages;
+      prev.pages.push(...newPages.filter((pg) => pg !== prev.pages[prev.pages.length - 1]));
     } else {
-      paragraphs.push({ text: trimmed, footnotes: [] });
+      paragraphs.push({ text: trimmed, kind, pages, footnotes: [], emphasis });
     }
+    pageBreakBefore = trailingPage !== null;
   }
 
   return paragraphs;
@@ -515,7 +1222,7 @@ export function splitSCOTUSHeader(text: string): { bpParts: string[]; bodyRest:
  * Boilerplate includes the SCOTUS header, case caption, cert details, and
  * the justice delivery/joinder line. Stops at the first non-matching paragraph.
  */
-export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
+export function tagBoilerplate(paragraphs: RawParagraph[]): RawParagraph[] {
   // Two-pass approach:
   // 1. Find the JUSTICE delivery line (the definitive end of boilerplate)
   // 2. Tag everything before it as boilerplate
@@ -536,7 +1243,10 @@ export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
         const rest = text.slice(endIdx).trim();
         paragraphs[i].text = `{{bp:${note}}}`;
         if (rest) {
-          paragraphs.splice(i + 1, 0, { text: rest, footnotes: [] });
+          paragraphs.splice(i + 1, 0, {
+            text: rest, kind: paragraphs[i].kind, pages: tailPages(paragraphs[i], note, rest),
+            footnotes: [], emphasis: paragraphs[i].emphasis,
+          });
         }
       } else {
         paragraphs[i].text = `{{bp:${text}}}`;
@@ -545,9 +1255,13 @@ export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
       paragraphs[i].text = `{{bp:${text}}}`;
     } else if (/^SUPREME COURT OF THE UNITED STATES/.test(text)) {
       const { bpParts, bodyRest } = splitSCOTUSHeader(text);
-      const newParas: Paragraph[] = bpParts.map(p => ({ text: `{{bp:${p}}}`, footnotes: [] as Footnote[] }));
+      const pages = paragraphs[i].pages;
+      const newParas: RawParagraph[] = bpParts.map(p => ({ text: `{{bp:${p}}}`, kind: 'boilerplate', pages, footnotes: [] as Footnote[] }));
       if (bodyRest) {
-        newParas.push({ text: bodyRest, footnotes: [] as Footnote[] });
+        newParas.push({
+          text: bodyRest, kind: paragraphs[i].kind, pages: tailPages(paragraphs[i], text.slice(0, -bodyRest.length), bodyRest),
+          footnotes: [] as Footnote[], emphasis: paragraphs[i].emphasis,
+        });
       }
       paragraphs.splice(i, 1, ...newParas);
       i += bpParts.length - 1;
@@ -599,7 +1313,10 @@ export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
           const bodyPart = text.slice(splitIdx).trim();
           paragraphs[i].text = `{{bp:${bpPart}}}`;
           if (bodyPart) {
-            paragraphs.splice(i + 1, 0, { text: bodyPart, footnotes: [] as Footnote[] });
+            paragraphs.splice(i + 1, 0, {
+              text: bodyPart, kind: paragraphs[i].kind, pages: tailPages(paragraphs[i], bpPart, bodyPart),
+              footnotes: [] as Footnote[], emphasis: paragraphs[i].emphasis,
+            });
             justiceIdx++; // adjust for inserted paragraph
           }
         }
@@ -645,7 +1362,10 @@ export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
         const bodyPart = text.slice(splitIdx).trim();
         paragraphs[i].text = `{{bp:${bpPart}}}`;
         if (bodyPart) {
-          paragraphs.splice(i + 1, 0, { text: bodyPart, footnotes: [] as Footnote[] });
+          paragraphs.splice(i + 1, 0, {
+            text: bodyPart, kind: paragraphs[i].kind, pages: tailPages(paragraphs[i], bpPart, bodyPart),
+            footnotes: [] as Footnote[], emphasis: paragraphs[i].emphasis,
+          });
         }
         break;
       }
@@ -660,417 +1380,564 @@ export function tagBoilerplate(paragraphs: Paragraph[]): Paragraph[] {
 
 interface ParseOptions {
   maxPages?: number;
+  /**
+   * Called with each chapter as soon as the page after its last one is read, for showing
+   * while the rest of the document is parsed. These are previews, built from the chapter's
+   * own pages; the returned opinion is final.
+   */
+  onChapter?: (chapter: Chapter) => void;
+  /** Checked before each page; once aborted, the parse stops with PARSE_CANCELLED */
+  signal?: { readonly aborted: boolean };
+  /** The document's layout, when its source already says; otherwise it's detected from page 1 */
+  layout?: LayoutName;
 }
 
-export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options: ParseOptions = {}): Promise<ParsedOpinion> {
-  // Pre-load the worker on the main thread so pdfjs doesn't try to spawn a Web Worker
-  // (which isn't available in serverless environments)
-  if (!(globalThis as any).pdfjsWorker) {
-    const worker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
-    (globalThis as any).pdfjsWorker = worker;
+/** Add a page's notes to its chapter's, running the page's continuation onto the last note so far */
+function addPageFootnotes(notes: Map<number, string>, page: NotedPage): void {
+  if (page.footnoteContinuation) {
+    const maxId = Math.max(0, ...notes.keys());
+    if (maxId > 0) notes.set(maxId, `${notes.get(maxId) || ''} ${page.footnoteContinuation}`.trim());
   }
+  for (const [id, text] of page.footnotes) {
+    const existing = notes.get(id);
+    notes.set(id, existing ? `${existing} ${text}` : text);
+  }
+}
 
-  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+/**
+ * A chapter built from its pages alone. The passes that need the whole document — footnote
+ * reconciliation, short-form cites resolved against earlier writings, prelim-print splits,
+ * the Syllabus vote summary — are left to the finished opinion.
+ */
+function previewChapter(header: SectionHeader, pages: NotedPage[], date: string): Chapter {
+  const notes = new Map<number, string>();
+  for (const page of pages) addPageFootnotes(notes, page);
+  const text = pages.flatMap((page) => page.bodyLines).join('\n');
+  const citedCases: CitedCases = new Map();
+  collectCitedCases([text, ...notes.values()], citedCases);
+  const paragraphs = toParagraphs(tagBoilerplate(buildParagraphs(text, citedCases, date)), date);
+  const chapter: Chapter = {
+    id: header.id,
+    title: header.title,
+    kind: 'other',
+    author: header.author ?? (header.id === 'opinion-majority' ? extractAuthorFromDeliveryLine(paragraphs, date) : null),
+    role: '',
+    joinedBy: [],
+    paragraphs,
+    footnotes: toFootnotes(notes, citedCases, date),
+  };
+  describeChapters([chapter], chiefJusticeOn(date).name);
+  return chapter;
+}
 
-  const doc = await pdfjsLib.getDocument({
-    data: new Uint8Array(pdfData),
-    useSystemFonts: true,
-    isEvalSupported: false,
-  }).promise;
+/**
+ * Record the emphasis of each font a page's text uses, keyed by pdf.js font id
+ * ("g_d0_f2", shared across the document). Text content names fonts only by id; the
+ * PostScript name is on the font object, which pdf.js loads while building the page's
+ * operator list, so that's only done for pages that bring in a font not seen yet.
+ */
+export async function loadFontEmphasis(
+  page: any, textContent: PageTextContent, fonts: Map<string, Emphasis | null>
+): Promise<void> {
+  const ids = new Set<string>();
+  for (const item of textContent.items) {
+    if ('str' in item && !fonts.has(item.fontName)) ids.add(item.fontName);
+  }
+  if (ids.size === 0) return;
+  try {
+    await page.getOperatorList();
+  } catch {
+    // emphasis is optional; the text is still there without it
+  }
+  for (const id of ids) {
+    const font = page.commonObjs.has(id) ? page.commonObjs.get(id) : null;
+    fonts.set(id, typeof font?.name === 'string' ? fontEmphasis(font.name) : null);
+  }
+}
 
-  const numPages = doc.numPages;
-  const pagesToProcess = Math.min(numPages, options.maxPages ?? numPages);
+/** What `readPage` finds on one PDF page */
+export interface PageText {
+  sectionHeader: SectionHeader | null;
+  /** The lone number at either end of the top row, if there is one */
+  printedPage: number | null;
+  bodyLines: string[];
+  /** The body opens with a new paragraph rather than running on from the page before */
+  startsParagraph: boolean;
+  footnotes: Map<number, string>;
+  /** Note text before the page's first note number: the end of the last page's last note */
+  footnoteContinuation: string;
+}
 
-  // Detect preliminary print format by scanning page 1 for the
-  // "Page Proof Pending Publication" watermark (unique to this format).
-  // Preliminary prints have a two-row top header: running page header at y≈83-84%
-  // and section label at y≈80-81%. Slip opinions have only the section label.
-  let isPrelimPrint = false;
-  {
-    const p1 = await doc.getPage(1);
-    const p1content: PageTextContent = await p1.getTextContent();
-    for (const item of p1content.items) {
-      if ('str' in item && /Page Proof/.test((item as any).str)) {
-        isPrelimPrint = true;
-        break;
-      }
+/**
+ * Read a PDF page into its section label, printed page number, body lines (marker-annotated,
+ * with blank lines between paragraphs) and notes, by the geometry of its layout.
+ */
+export async function readPage(page: any, layout: LayoutProfile, fonts: Map<string, Emphasis | null>): Promise<PageText> {
+  const textContent: PageTextContent = await page.getTextContent();
+  await loadFontEmphasis(page, textContent, fonts);
+  const viewport = page.getViewport({ scale: 1.0 });
+  const pageHeight = viewport.height;
+
+  // Header band: the section label, and in two-row layouts the running head above it
+  const hYMin = pageHeight * layout.headerBand.min;
+  const hYMax = pageHeight * layout.headerBand.max;
+
+  const allItems: { y: number; x: number; text: string; fontSize: number; emphasis: Emphasis | null }[] = [];
+  for (const item of textContent.items) {
+    if ('str' in item && item.str.trim()) {
+      allItems.push({
+        y: item.transform[5],
+        x: item.transform[4],
+        text: item.str,
+        fontSize: Math.abs(item.transform[0]),
+        emphasis: fonts.get(item.fontName) ?? null,
+      });
     }
   }
 
-  // First pass: determine the section header Y position by analyzing page 1
-  // The header line (Syllabus, Opinion of the Court, etc.) appears at a consistent Y
-  // on SCOTUS PDFs — typically around y=640-650 on a 792pt page
-  let headerYMin = 635;
-  let headerYMax = 655;
-
-  // Process all pages, extracting section headers and body text
-  interface PageResult {
-    sectionHeader: SectionHeader | null;
-    bodyLines: string[];
-    footnotes: Map<number, string>;
-    footnoteContinuation: string;
+  // Extract section header from the lowest y-position row in the header band.
+  //
+  // Preliminary prints have TWO rows in this band:
+  //   y≈83-84%: running page header ("OCTOBER TERM, 2021" / case name alternating)
+  //   y≈80-81%: section label ("Syllabus", "Per Curiam", "Gorsuch, J., concurring")
+  // Slip opinions have only ONE row (the section label at ~81-82%).
+  //
+  // By selecting only the lowest y row we always get the section label and
+  // ignore the alternating recto/verso running header above it.
+  const headerItems = allItems.filter((it) => it.y >= hYMin && it.y <= hYMax);
+  let sectionHeader: SectionHeader | null = null;
+  if (headerItems.length > 0) {
+    const snapY = (y: number) => Math.round(y / 2) * 2;
+    const minY = Math.min(...headerItems.map((it) => snapY(it.y)));
+    const lowestRowItems = headerItems.filter((it) => snapY(it.y) <= minY + 4);
+    lowestRowItems.sort((a, b) => a.x - b.x);
+    const headerText = lowestRowItems.map((it) => it.text.trim()).join(' ');
+    sectionHeader = parseSectionHeader(headerText);
   }
 
-  const pages: PageResult[] = [];
-
-  for (let i = 1; i <= pagesToProcess; i++) {
-    // Preliminary prints: page 1 is a cover page (no opinion content).
-    if (isPrelimPrint && i === 1) {
-      pages.push({ sectionHeader: null, bodyLines: [], footnotes: new Map(), footnoteContinuation: '' });
-      continue;
+  // Printed page number: a lone number at the left or right end of the top header row
+  const pageNumItem = allItems.find(
+    (it) => it.y >= pageHeight * layout.topRow.min && it.y <= pageHeight * layout.topRow.max &&
+      isPageNumber(layout, it.text.trim(), it.x)
+  );
+  const printedPage = pageNumItem ? parseInt(pageNumItem.text) : null;
+
+  // Body text: everything below the header band and above the footer
+  const bodyItems = allItems.filter((it) => {
+    const y = it.y;
+    // Skip items in the header band and the footer
+    if (y >= hYMin) return false;
+    if (y < layout.margin) return false;
+    // Skip "Cite as:" lines and lone page numbers in the top header row
+    if (y > pageHeight - layout.margin) {
+      const t = it.text.trim();
+      if (/^Cite as:/.test(t)) return false;
+      if (/^\d+$/.test(t)) return false;
+      if (/^\(Slip Opinion\)/.test(t)) return false;
     }
+    // A watermark ("Page Proof Pending Publication") runs mid-page in large type
+    if (layout.watermark?.test(it.text)) return false;
+    return true;
+  });
+  // Sort by y descending then x ascending, with baselines snapped so that sub-point
+  // jitter doesn't split items on the same visual line into different sort groups
+  const snapY = (y: number) => Math.round(y / layout.baselineSnap) * layout.baselineSnap;
+  bodyItems.sort((a, b) => {
+    const dy = snapY(b.y) - snapY(a.y);
+    return dy !== 0 ? dy : a.x - b.x;
+  });
 
-    const page = await doc.getPage(i);
-    const textContent: PageTextContent = await page.getTextContent();
-    const viewport = page.getViewport({ scale: 1.0 });
-    const pageHeight = viewport.height;
-
-    // Header band: section labels appear at ~80-84% from bottom.
-    // Preliminary prints: section label at ~80.3-80.8%, running header at ~83-84%.
-    //   Use 0.79 floor to catch dissent labels that drop to ~80.3%.
-    // Slip opinions: section label at ~81.8-82.3%; keep 0.80 floor so body text
-    //   lines just below the header zone don't bleed into the band.
-    const hYMin = isPrelimPrint ? pageHeight * 0.79 : pageHeight * 0.80;
-    const hYMax = pageHeight * 0.84;
-
-    const allItems: { y: number; x: number; text: string; fontSize: number }[] = [];
-    for (const item of textContent.items) {
-      if ('str' in item && item.str.trim()) {
-        allItems.push({
-          y: item.transform[5],
-          x: item.transform[4],
-          text: item.str,
-          fontSize: Math.abs(item.transform[0]),
-        });
-      }
+  // Determine dominant body font size from all body items (needed for superscript detection):
+  // the largest size with enough items to be body text, or the most common size
+  const itemFSFreq = new Map<number, number>();
+  for (const item of bodyItems) {
+    const fs = Math.round(item.fontSize);
+    itemFSFreq.set(fs, (itemFSFreq.get(fs) || 0) + 1);
+  }
+  let bodyFS = 0;
+  for (const [fs, freq] of itemFSFreq) {
+    if (layout.bodyFontMinItems > 0 && freq >= layout.bodyFontMinItems && fs > bodyFS) { bodyFS = fs; }
+  }
+  // Fallback: if no font has enough items, use the most frequent
+  if (bodyFS === 0) {
+    let maxFreq = 0;
+    for (const [fs, freq] of itemFSFreq) {
+      if (freq > maxFreq) { maxFreq = freq; bodyFS = fs; }
     }
+  }
 
-    // Extract section header from the lowest y-position row in the header band.
-    //
-    // Preliminary prints have TWO rows in this band:
-    //   y≈83-84%: running page header ("OCTOBER TERM, 2021" / case name alternating)
-    //   y≈80-81%: section label ("Syllabus", "Per Curiam", "Gorsuch, J., concurring")
-    // Slip opinions have only ONE row (the section label at ~81-82%).
-    //
-    // By selecting only the lowest y row we always get the section label and
-    // ignore the alternating recto/verso running header above it.
-    const headerItems = allItems.filter((it) => it.y >= hYMin && it.y <= hYMax);
-    let sectionHeader: SectionHeader | null = null;
-    if (headerItems.length > 0) {
-      const snapY = (y: number) => Math.round(y / 2) * 2;
-      const minY = Math.min(...headerItems.map((it) => snapY(it.y)));
-      const lowestRowItems = headerItems.filter((it) => snapY(it.y) <= minY + 4);
-      lowestRowItems.sort((a, b) => a.x - b.x);
-      const headerText = lowestRowItems.map((it) => it.text.trim()).join(' ');
-      sectionHeader = parseSectionHeader(headerText);
+  // Find the y-position of the footnote separator line (——————) to avoid
+  // marking footnote-section numbers as superscript references.
+  // The separator is a line of em-dashes at a smaller font than body text.
+  let separatorY = -1;
+  for (const item of bodyItems) {
+    if (/^——+$/.test(item.text.trim()) && bodyFS > 0 && item.fontSize < bodyFS - layout.fontDrop.footnote) {
+      // In PDF coordinates, y increases upward, and bodyItems are sorted descending by y,
+      // so the separator (lower on page) has a smaller y value.
+      separatorY = item.y;
+      break;
     }
+  }
 
-    // Body text: everything below the header band and above the footer
-    const bodyItems = allItems.filter((it) => {
-      const y = it.y;
-      // Skip items in header area (y > hYMin) and footer area (y < 60)
-      if (y >= hYMin) return false;
-      if (y < 60) return false;
-      // Skip "Cite as:" lines and lone page numbers in the top header row
-      if (y > pageHeight - 60) {
-        const t = it.text.trim();
-        if (/^Cite as:/.test(t)) return false;
-        if (/^\d+$/.test(t)) return false;
-        if (/^\(Slip Opinion\)/.test(t)) return false;
+  // Pre-process: snap floating superscript footnote refs to their nearest body
+  // text line. Superscripts float between lines (y between two baselines) and
+  // would otherwise be treated as separate lines, causing {{fn:N}} markers to
+  // appear at the wrong position in the text.
+  for (let idx = 0; idx < bodyItems.length; idx++) {
+    const item = bodyItems[idx];
+    const trimmedText = item.text.trim();
+    const isAboveSep = separatorY < 0 || item.y > separatorY + 2;
+    const isSuperRef = (
+      isAboveSep &&
+      /^\d{1,2}$/.test(trimmedText) &&
+      bodyFS > 0 &&
+      item.fontSize < bodyFS - layout.fontDrop.superscript
+    );
+    if (!isSuperRef) continue;
+
+    // Check if already on the same rounded y as a nearby body text item
+    let onBodyLine = false;
+    for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
+      if (j === idx) continue;
+      const other = bodyItems[j];
+      if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - layout.fontDrop.superscript) continue;
+      if (Math.abs(Math.round(other.y) - Math.round(item.y)) <= 2) {
+        onBodyLine = true;
+        break;
       }
-      // Preliminary print watermark ("Page Proof Pending Publication") appears
-      // mid-page at large font size — exclude it from body text on all pages.
-      if (/Page Proof/.test(it.text)) return false;
-      return true;
-    });
-    // Sort by y descending then x ascending. Use coarse rounding (nearest 2px)
-    // to avoid sub-pixel jitter splitting items on the same visual line into
-    // different sort groups (e.g., small-caps "HOMAS" at y=307.500 vs body text
-    // at y=307.499 — Math.round gives 308 vs 307, breaking line ordering).
-    const snapY = (y: number) => Math.round(y / 2) * 2;
-    bodyItems.sort((a, b) => {
-      const dy = snapY(b.y) - snapY(a.y);
-      return dy !== 0 ? dy : a.x - b.x;
-    });
-
-    // Determine dominant body font size from all body items (needed for superscript detection).
-    // Use the largest font size with significant frequency (≥5 items), not the most frequent,
-    // because on footnote-heavy pages the smaller footnote font can outnumber body text.
-    const itemFSFreq = new Map<number, number>();
-    for (const item of bodyItems) {
-      const fs = Math.round(item.fontSize);
-      itemFSFreq.set(fs, (itemFSFreq.get(fs) || 0) + 1);
-    }
-    let bodyFS = 0;
-    for (const [fs, freq] of itemFSFreq) {
-      if (freq >= 5 && fs > bodyFS) { bodyFS = fs; }
     }
-    // Fallback: if no font has ≥5 items, use the most frequent
-    if (bodyFS === 0) {
-      let maxFreq = 0;
-      for (const [fs, freq] of itemFSFreq) {
-        if (freq > maxFreq) { maxFreq = freq; bodyFS = fs; }
+    if (onBodyLine) continue;
+
+    // Find nearest body text item by y and snap to it
+    let nearestY = item.y;
+    let minDist = Infinity;
+    for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
+      if (j === idx) continue;
+      const other = bodyItems[j];
+      if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - layout.fontDrop.superscript) continue;
+      const dist = Math.abs(other.y - item.y);
+      if (dist < minDist) {
+        minDist = dist;
+        nearestY = other.y;
       }
     }
+    bodyItems[idx] = { ...item, y: nearestY };
+  }
 
-    // Find the y-position of the footnote separator line (——————) to avoid
-    // marking footnote-section numbers as superscript references.
-    // The separator is a line of em-dashes at a smaller font than body text.
-    let separatorY = -1;
-    for (const item of bodyItems) {
-      if (/^——+$/.test(item.text.trim()) && bodyFS > 0 && item.fontSize < bodyFS - 1) {
-        // In PDF coordinates, y increases upward, and bodyItems are sorted descending by y,
-        // so the separator (lower on page) has a smaller y value.
-        separatorY = item.y;
-        break;
-      }
-    }
+  // Re-sort after snapping superscript y positions
+  bodyItems.sort((a, b) => {
+    const dy = snapY(b.y) - snapY(a.y);
+    return dy !== 0 ? dy : a.x - b.x;
+  });
 
-    // Pre-process: snap floating superscript footnote refs to their nearest body
-    // text line. Superscripts float between lines (y between two baselines) and
-    // would otherwise be treated as separate lines, causing {{fn:N}} markers to
-    // appear at the wrong position in the text.
-    for (let idx = 0; idx < bodyItems.length; idx++) {
-      const item = bodyItems[idx];
-      const trimmedText = item.text.trim();
-      const isAboveSep = separatorY < 0 || item.y > separatorY + 2;
-      const isSuperRef = (
-        isAboveSep &&
-        /^\d{1,2}$/.test(trimmedText) &&
-        bodyFS > 0 &&
-        item.fontSize < bodyFS - 2.5
-      );
-      if (!isSuperRef) continue;
-
-      // Check if already on the same rounded y as a nearby body text item
-      let onBodyLine = false;
-      for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
-        if (j === idx) continue;
-        const other = bodyItems[j];
-        if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - 2.5) continue;
-        if (Math.abs(Math.round(other.y) - Math.round(item.y)) <= 2) {
-          onBodyLine = true;
-          break;
-        }
+  // Group into text lines, handling small-cap name rendering.
+  // SCOTUS PDFs render names in small caps: the first letter is at body font size
+  // and remaining letters are ALL-CAPS at a smaller size (e.g., "J" at 11pt + "USTICE" at 9pt).
+  // pdf.js returns these as separate items, so we need to join them without a space.
+  // Track x-position of first item on each line to detect paragraph indentation.
+  // Superscript footnote reference numbers (1-2 digits at much smaller font) in the body
+  // area (above separator) are wrapped with {{fn:N}} markers for the frontend.
+  // `styled` is the same line with italic and bold items wrapped in emphasis toggles.
+  const textLines: { text: string; styled: string; avgFontSize: number; startX: number }[] = [];
+  let curText = '';
+  let curStyled = '';
+  let curStartX = 0;
+  let lastY = -1;
+  let lastFontSize = 0;
+  let fsSum = 0;
+  let fsCount = 0;
+
+  for (const item of bodyItems) {
+    const trimmedItem = item.text.trim();
+
+    // Detect superscript footnote reference numbers in body text (above separator only).
+    // These are 1-2 digit numbers at a significantly smaller font than body text.
+    const isAboveSeparator = separatorY < 0 || item.y > separatorY + 2;
+    const isSuperscriptRef = (
+      isAboveSeparator &&
+      /^\d{1,2}$/.test(trimmedItem) &&
+      bodyFS > 0 &&
+      item.fontSize < bodyFS - layout.fontDrop.superscript
+    );
+
+    if (lastY >= 0 && Math.abs(item.y - lastY) > 2) {
+      // New line
+      if (curText.trim()) {
+        textLines.push({ text: curText.trim(), styled: curStyled.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
       }
-      if (onBodyLine) continue;
-
-      // Find nearest body text item by y and snap to it
-      let nearestY = item.y;
-      let minDist = Infinity;
-      for (let j = Math.max(0, idx - 10); j < Math.min(bodyItems.length, idx + 10); j++) {
-        if (j === idx) continue;
-        const other = bodyItems[j];
-        if (/^\d{1,2}$/.test(other.text.trim()) && other.fontSize < bodyFS - 2.5) continue;
-        const dist = Math.abs(other.y - item.y);
-        if (dist < minDist) {
-          minDist = dist;
-          nearestY = other.y;
-        }
+      if (isSuperscriptRef) {
+        curText = `{{fn:${trimmedItem}}}`;
+        curStyled = curText;
+      } else {
+        curText = item.text;
+        curStyled = emphasize(item.text, item.emphasis);
       }
-      bodyItems[idx] = { ...item, y: nearestY };
-    }
-
-    // Re-sort after snapping superscript y positions
-    bodyItems.sort((a, b) => {
-      const dy = snapY(b.y) - snapY(a.y);
-      return dy !== 0 ? dy : a.x - b.x;
-    });
-
-    // Group into text lines, handling small-cap name rendering.
-    // SCOTUS PDFs render names in small caps: the first letter is at body font size
-    // and remaining letters are ALL-CAPS at a smaller size (e.g., "J" at 11pt + "USTICE" at 9pt).
-    // pdf.js returns these as separate items, so we need to join them without a space.
-    // Track x-position of first item on each line to detect paragraph indentation.
-    // Superscript footnote reference numbers (1-2 digits at much smaller font) in the body
-    // area (above separator) are wrapped with {{fn:N}} markers for the frontend.
-    const textLines: { text: string; avgFontSize: number; startX: number }[] = [];
-    let curText = '';
-    let curStartX = 0;
-    let lastY = -1;
-    let lastFontSize = 0;
-    let fsSum = 0;
-    let fsCount = 0;
-
-    for (const item of bodyItems) {
-      const trimmedItem = item.text.trim();
-
-      // Detect superscript footnote reference numbers in body text (above separator only).
-      // These are 1-2 digit numbers at a significantly smaller font than body text.
-      const isAboveSeparator = separatorY < 0 || item.y > separatorY + 2;
-      const isSuperscriptRef = (
-        isAboveSeparator &&
-        /^\d{1,2}$/.test(trimmedItem) &&
-        bodyFS > 0 &&
-        item.fontSize < bodyFS - 2.5
+      curStartX = item.x;
+      fsSum = item.fontSize;
+      fsCount = 1;
+    } else {
+      // Same line — check if this is a small-cap continuation
+      const isSmallCap = (
+        trimmedItem.length > 0 &&
+        /^[A-Z]+$/.test(trimmedItem) &&
+        item.fontSize < lastFontSize - layout.fontDrop.smallCap &&
+        curText.length > 0 &&
+        /[A-Z]$/.test(curText)
       );
 
-      if (lastY >= 0 && Math.abs(item.y - lastY) > 2) {
-        // New line
-        if (curText.trim()) textLines.push({ text: curText.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
-        if (isSuperscriptRef) {
-          curText = `{{fn:${trimmedItem}}}`;
-        } else {
-          curText = item.text;
-        }
-        curStartX = item.x;
-        fsSum = item.fontSize;
-        fsCount = 1;
+      if (isSuperscriptRef) {
+        // Footnote reference — append marker without space before it
+        curText += `{{fn:${trimmedItem}}}`;
+        curStyled += `{{fn:${trimmedItem}}}`;
+      } else if (isSmallCap) {
+        // Join without space — small-cap continuation
+        curText += trimmedItem;
+        curStyled += trimmedItem;
+      } else if (trimmedItem && /^[.,;:!?)\]»\u201d\u2019]/.test(trimmedItem)) {
+        // Closing punctuation that immediately follows the previous word in the PDF
+        // (e.g., a Roman comma after an italic word are separate pdfjs items but
+        // should have no space between them). Always attach without space.
+        curText += trimmedItem;
+        curStyled += emphasize(trimmedItem, item.emphasis);
       } else {
-        // Same line — check if this is a small-cap continuation
-        const isSmallCap = (
-          trimmedItem.length > 0 &&
-          /^[A-Z]+$/.test(trimmedItem) &&
-          item.fontSize < lastFontSize - 0.5 &&
-          curText.length > 0 &&
-          /[A-Z]$/.test(curText)
-        );
-
-        if (isSuperscriptRef) {
-          // Footnote reference — append marker without space before it
-          curText += `{{fn:${trimmedItem}}}`;
-        } else if (isSmallCap) {
-          // Join without space — small-cap continuation
-          curText += trimmedItem;
-        } else if (trimmedItem && /^[.,;:!?)\]»\u201d\u2019]/.test(trimmedItem)) {
-          // Closing punctuation that immediately follows the previous word in the PDF
-          // (e.g., a Roman comma after an italic word are separate pdfjs items but
-          // should have no space between them). Always attach without space.
-          curText += trimmedItem;
-        } else {
-          if (!curText) curStartX = item.x;
-          curText += (curText && !curText.endsWith(' ') ? ' ' : '') + item.text;
-        }
-        fsSum += item.fontSize;
-        fsCount++;
+        if (!curText) curStartX = item.x;
+        const sep = curText && !curText.endsWith(' ') ? ' ' : '';
+        curText += sep + item.text;
+        curStyled += sep + emphasize(item.text, item.emphasis);
       }
-      lastY = item.y;
-      lastFontSize = item.fontSize;
+      fsSum += item.fontSize;
+      fsCount++;
     }
-    if (curText.trim()) textLines.push({ text: curText.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
+    lastY = item.y;
+    lastFontSize = item.fontSize;
+  }
+  if (curText.trim()) {
+    textLines.push({ text: curText.trim(), styled: curStyled.trim(), avgFontSize: fsCount > 0 ? fsSum / fsCount : 0, startX: curStartX });
+  }
 
-    // Find the dominant left margin for body text lines (most common startX)
-    const bodyFontLines = textLines.filter(
-      (l) => l.avgFontSize > 0 && bodyFS > 0 && l.avgFontSize >= bodyFS - 1
-    );
-    const xFreq = new Map<number, number>();
-    for (const line of bodyFontLines) {
-      const rx = Math.round(line.startX);
-      xFreq.set(rx, (xFreq.get(rx) || 0) + 1);
+  // Find the dominant left margin for body text lines
+  const bodyFontLines = textLines.filter(
+    (l) => l.avgFontSize > 0 && bodyFS > 0 && l.avgFontSize >= bodyFS - layout.fontDrop.footnote
+  );
+  const bodyLeftMargin = findBodyLeftMargin(bodyFontLines.map((l) => l.startX));
+
+  // Debug footnote detection
+  // Split text lines into body and footnotes.
+  // SCOTUS footnotes appear after a "——————" separator line, in smaller font.
+  // The footnote number appears on its own line (fs ~6pt), followed by
+  // the footnote text on subsequent lines (fs ~9pt, body is ~11pt).
+  const bodyLines: string[] = [];
+  const footnotes = new Map<number, string>();
+  let startsParagraph = false;
+
+  // Find the separator line index
+  let separatorIdx = -1;
+  for (let li = 0; li < textLines.length; li++) {
+    if (/^——+$/.test(textLines[li].text.trim())) {
+      // Verify it's in the smaller font region (not body text)
+      const isSmall = textLines[li].avgFontSize > 0 && bodyFS > 0 && textLines[li].avgFontSize < bodyFS - layout.fontDrop.footnote;
+      if (isSmall) {
+        separatorIdx = li;
+        break;
+      }
     }
-    let bodyLeftMargin = 0;
-    let maxXFreq = 0;
-    for (const [x, freq] of xFreq) {
-      if (freq > maxXFreq) { maxXFreq = freq; bodyLeftMargin = x; }
+  }
+
+  // Process body lines (everything before the separator)
+  const bodyEnd = separatorIdx >= 0 ? separatorIdx : textLines.length;
+  let inQuote = false;
+  for (let li = 0; li < bodyEnd; li++) {
+    const line = textLines[li];
+    const trimmed = line.text.trim();
+    const wasQuote = inQuote;
+    inQuote = false;
+
+    // Detect centered section headings (Roman numerals, capital letters, digits).
+    // These appear on their own centered lines — significantly right of normal indent.
+    const indent = line.startX - bodyLeftMargin;
+    const isBodyFont = Math.abs(line.avgFontSize - bodyFS) < layout.bodyFontTolerance;
+    const isCentered = bodyLeftMargin > 0 && indent > layout.paragraphIndent.max && isBodyFont;
+
+    if (isCentered && /^(I{1,4}V?|VI{0,3}|IX|X{0,3})$/.test(trimmed)) {
+      // Roman numeral heading (level 1): I, II, III, IV, V, VI, VII, VIII, IX, X
+      bodyLines.push('');
+      bodyLines.push(`{{h1:${trimmed}}}`);
+      bodyLines.push('');
+      continue;
+    }
+    if (isCentered && /^[A-Z]$/.test(trimmed)) {
+      // Capital letter heading (level 2): A, B, C, D
+      bodyLines.push('');
+      bodyLines.push(`{{h2:${trimmed}}}`);
+      bodyLines.push('');
+      continue;
+    }
+    if (isCentered && /^\d{1,2}$/.test(trimmed)) {
+      // Numeric heading (level 3): 1, 2, 3
+      bodyLines.push('');
+      bodyLines.push(`{{h3:${trimmed}}}`);
+      bodyLines.push('');
+      continue;
     }
 
-    // Debug footnote detection
-    // Split text lines into body and footnotes.
-    // SCOTUS footnotes appear after a "——————" separator line, in smaller font.
-    // The footnote number appears on its own line (fs ~6pt), followed by
-    // the footnote text on subsequent lines (fs ~9pt, body is ~11pt).
-    const bodyLines: string[] = [];
-    const footnotes = new Map<number, string>();
-
-    // Find the separator line index
-    let separatorIdx = -1;
-    for (let li = 0; li < textLines.length; li++) {
-      if (/^——+$/.test(textLines[li].text.trim())) {
-        // Verify it's in the smaller font region (not body text)
-        const isSmall = textLines[li].avgFontSize > 0 && bodyFS > 0 && textLines[li].avgFontSize < bodyFS - 1;
-        if (isSmall) {
-          separatorIdx = li;
-          break;
-        }
-      }
+    // Block quotations become paragraphs of their own, flagged with a leading {{bq}}
+    const next = li + 1 < bodyEnd ? textLines[li + 1] : null;
+    const nextIndent = next && Math.abs(next.avgFontSize - bodyFS) < layout.bodyFontTolerance ? next.startX - bodyLeftMargin : null;
+    const quote = bodyLeftMargin > 0 && isBodyFont ? blockQuoteLine(trimmed, indent, nextIndent, wasQuote) : null;
+    if (quote === 'open') {
+      if (bodyLines.length > 0) bodyLines.push('');
+      else startsParagraph = true;
+      bodyLines.push(`{{bq}}${line.styled}`);
+      inQuote = true;
+      continue;
+    }
+    if (quote === 'continue') {
+      bodyLines.push(line.styled);
+      inQuote = true;
+      continue;
     }
 
-    // Process body lines (everything before the separator)
-    const bodyEnd = separatorIdx >= 0 ? separatorIdx : textLines.length;
-    for (let li = 0; li < bodyEnd; li++) {
+    // Detect paragraph breaks via indentation. Text resuming after a block quotation
+    // starts a paragraph of its own too.
+    const isParagraphIndent = bodyLeftMargin > 0 && indent > layout.paragraphIndent.min && indent < layout.paragraphIndent.max && isBodyFont;
+    // "Held:" in the Syllabus starts at the flush-left margin (no indent), so it
+    // won't trigger isParagraphIndent — detect it explicitly as a paragraph starter.
+    const isHeldMarker = /^(?:Held|HELD)\s*:/.test(trimmed);
+    if ((isParagraphIndent || isHeldMarker || wasQuote) && bodyLines.length > 0) {
+      bodyLines.push(''); // blank line = paragraph break
+    } else if (isParagraphIndent || isHeldMarker) {
+      startsParagraph = true; // the page opens with a new paragraph
+    }
+
+    bodyLines.push(line.styled);
+  }
+
+  // Process footnotes (everything after the separator)
+  let footnoteContinuation = '';
+  if (separatorIdx >= 0) {
+    let fnId = 0;
+    let fnText = '';
+
+    for (let li = separatorIdx + 1; li < textLines.length; li++) {
       const line = textLines[li];
       const trimmed = line.text.trim();
 
-      // Detect centered section headings (Roman numerals, capital letters, digits).
-      // These appear on their own centered lines — significantly right of normal indent.
-      const indent = line.startX - bodyLeftMargin;
-      const isBodyFont = Math.abs(line.avgFontSize - bodyFS) < 1.5;
-      const isCentered = bodyLeftMargin > 0 && indent > 50 && isBodyFont;
-
-      if (isCentered && /^(I{1,4}V?|VI{0,3}|IX|X{0,3})$/.test(trimmed)) {
-        // Roman numeral heading (level 1): I, II, III, IV, V, VI, VII, VIII, IX, X
-        bodyLines.push('');
-        bodyLines.push(`{{h1:${trimmed}}}`);
-        bodyLines.push('');
-        continue;
-      }
-      if (isCentered && /^[A-Z]$/.test(trimmed)) {
-        // Capital letter heading (level 2): A, B, C, D
-        bodyLines.push('');
-        bodyLines.push(`{{h2:${trimmed}}}`);
-        bodyLines.push('');
-        continue;
-      }
-      if (isCentered && /^\d{1,2}$/.test(trimmed)) {
-        // Numeric heading (level 3): 1, 2, 3
-        bodyLines.push('');
-        bodyLines.push(`{{h3:${trimmed}}}`);
-        bodyLines.push('');
+      // Footnote number on its own line (very small font ~6pt, just a digit).
+      // This is the ONLY reliable way to detect a new footnote start in SCOTUS PDFs.
+      // The number appears at a distinctly smaller font than both body (~11pt) and
+      // footnote text (~9pt).
+      if (/^\d{1,2}$/.test(trimmed) && line.avgFontSize < bodyFS - layout.fontDrop.noteNumber) {
+        // Save previous footnote
+        if (fnId > 0) footnotes.set(fnId, fnText.trim());
+        fnId = parseInt(trimmed);
+        fnText = '';
         continue;
       }
 
-      // Detect paragraph breaks via indentation.
-      const isParagraphIndent = bodyLeftMargin > 0 && indent > 5 && indent < 50 && isBodyFont;
-      // "Held:" in the Syllabus starts at the flush-left margin (no indent), so it
-      // won't trigger isParagraphIndent — detect it explicitly as a paragraph starter.
-      const isHeldMarker = /^(?:Held|HELD)\s*:/.test(trimmed);
-      if ((isParagraphIndent || isHeldMarker) && bodyLines.length > 0) {
-        bodyLines.push(''); // blank line = paragraph break
+      // Skip separator lines
+      if (/^——+$/.test(trimmed)) continue;
+
+      if (fnId > 0) {
+        // Continuation of current footnote
+        fnText += ' ' + line.styled;
+      } else {
+        // No footnote number seen yet — this is continuation from previous page
+        footnoteContinuation += ' ' + line.styled;
       }
+    }
+    if (fnId > 0) footnotes.set(fnId, fnText.trim());
+    footnoteContinuation = footnoteContinuation.trim();
+  }
+
+  return { sectionHeader, printedPage, bodyLines, startsParagraph, footnotes, footnoteContinuation };
+}
+
+export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options: ParseOptions = {}): Promise<ParsedOpinion> {
+  // Pre-load the worker on the main thread so pdfjs doesn't try to spawn a Web Worker
+  // (which isn't available in serverless environments)
+  if (!(globalThis as any).pdfjsWorker) {
+    const worker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+    (globalThis as any).pdfjsWorker = worker;
+  }
+
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const doc = await pdfjsLib.getDocument({
+    data: new Uint8Array(pdfData),
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+
+  const numPages = doc.numPages;
+  const pagesToProcess = Math.min(numPages, options.maxPages ?? numPages);
 
-      bodyLines.push(line.text);
+  // The layout (slip opinion, preliminary print, ...) from the text of page 1
+  let layout: LayoutProfile;
+  if (options.layout) {
+    layout = LAYOUT_PROFILES[options.layout];
+  } else {
+    const p1content: PageTextContent = await (await doc.getPage(1)).getTextContent();
+    layout = detectLayout(p1content.items.map((item) => ('str' in item ? item.str : '')).join(' '));
+  }
+
+  // Process all pages, extracting section headers and body text
+  interface PageResult {
+    sectionHeader: SectionHeader | null;
+    bodyLines: string[];
+    footnotes: Map<number, string>;
+    footnoteContinuation: string;
+  }
+
+  const pages: PageResult[] = [];
+  let lastPrintedPage: number | null = null;
+  let lastHeaderId: string | null = null;
+  const fontEmphases = new Map<string, Emphasis | null>();
+  // The chapter being read, for `onChapter`
+  let previewHeader: SectionHeader | null = null;
+  let previewStart = 0;
+
+  for (let i = 1; i <= pagesToProcess; i++) {
+    if (options.signal?.aborted) throw new Error('PARSE_CANCELLED');
+
+    // Preliminary prints: page 1 is a cover page (no opinion content).
+    if (layout.coverPage && i === 1) {
+      pages.push({ sectionHeader: null, bodyLines: [], footnotes: new Map(), footnoteContinuation: '' });
+      continue;
     }
 
-    // Process footnotes (everything after the separator)
-    let footnoteContinuation = '';
-    if (separatorIdx >= 0) {
-      let fnId = 0;
-      let fnText = '';
-
-      for (let li = separatorIdx + 1; li < textLines.length; li++) {
-        const line = textLines[li];
-        const trimmed = line.text.trim();
-
-        // Footnote number on its own line (very small font ~6pt, just a digit).
-        // This is the ONLY reliable way to detect a new footnote start in SCOTUS PDFs.
-        // The number appears at a distinctly smaller font than both body (~11pt) and
-        // footnote text (~9pt).
-        if (/^\d{1,2}$/.test(trimmed) && line.avgFontSize < bodyFS - 3) {
-          // Save previous footnote
-          if (fnId > 0) footnotes.set(fnId, fnText.trim());
-          fnId = parseInt(trimmed);
-          fnText = '';
-          continue;
-        }
+    const text = await readPage(await doc.getPage(i), layout, fontEmphases);
+    const { sectionHeader } = text;
 
-        // Skip separator lines
-        if (/^——+$/.test(trimmed)) continue;
+    // Slip opinions restart at 1 for each opinion; preliminary prints use U.S. Reports pages.
+    // If the number's missing, count on from the previous page unless a new slip opinion starts here.
+    let printedPage = text.printedPage;
+    if (printedPage === null && lastPrintedPage !== null) {
+      const samePagination = layout.continuousPagination || !sectionHeader || sectionHeader.id === lastHeaderId;
+      if (samePagination) printedPage = lastPrintedPage + 1;
+    }
+    lastPrintedPage = printedPage;
+    if (sectionHeader) lastHeaderId = sectionHeader.id;
+
+    pages.push({
+      sectionHeader,
+      bodyLines: withPageMarker(text.bodyLines, printedPage, text.startsParagraph),
+      footnotes: text.footnotes,
+      footnoteContinuation: text.footnoteContinuation,
+    });
 
-        if (fnId > 0) {
-          // Continuation of current footnote
-          fnText += ' ' + trimmed;
-        } else {
-          // No footnote number seen yet — this is continuation from previous page
-          footnoteContinuation += ' ' + trimmed;
-        }
+    // A new section header closes the chapter before it
+    if (options.onChapter && sectionHeader && sectionHeader.id !== previewHeader?.id) {
+      if (previewHeader) {
+        const { decided } = extractProceduralDates(stripEmphasis(pages.slice(0, 3).map((p) => p.bodyLines.join('\n')).join('\n')));
+        options.onChapter(previewChapter(previewHeader, pages.slice(previewStart, -1), decided));
       }
-      if (fnId > 0) footnotes.set(fnId, fnText.trim());
-      footnoteContinuation = footnoteContinuation.trim();
+      previewHeader = sectionHeader;
+      previewStart = pages.length - 1;
     }
-
-    pages.push({ sectionHeader, bodyLines, footnotes, footnoteContinuation });
   }
 
+  const repairs = reconcilePageFootnotes(pages);
+
   // Group pages into chapters by section header changes
   interface ChapterData {
     header: SectionHeader;
@@ -1108,27 +1975,7 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
     }
 
     currentLines.push(...page.bodyLines);
-
-    // Merge footnote continuation text from previous page's last footnote
-    if (page.footnoteContinuation) {
-      let maxId = 0;
-      for (const id of currentFootnotes.keys()) {
-        if (id > maxId) maxId = id;
-      }
-      if (maxId > 0) {
-        const existing = currentFootnotes.get(maxId) || '';
-        currentFootnotes.set(maxId, (existing + ' ' + page.footnoteContinuation).trim());
-      }
-    }
-
-    for (const [id, text] of page.footnotes) {
-      const existing = currentFootnotes.get(id);
-      if (existing) {
-        currentFootnotes.set(id, existing + ' ' + text);
-      } else {
-        currentFootnotes.set(id, text);
-      }
-    }
+    addPageFootnotes(currentFootnotes, page);
   }
 
   // Save last chapter
@@ -1140,11 +1987,16 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
     });
   }
 
+  // The decision date settles which Justices a surname or "THE CHIEF JUSTICE" means
+  const firstPagesText = stripEmphasis(pages.slice(0, 3).map((p) => p.bodyLines.join('\n')).join('\n'));
+  const decidedDate = extractDecidedDate(firstPagesText);
+  const dates = extractProceduralDates(firstPagesText);
+
   // For preliminary prints: split chapters at inline section openers.
   // Prelim print running headers sometimes don't update when a new section starts mid-page,
   // so body text like "Justice Sotomayor, concurring." may be bundled into the wrong chapter.
   const resolvedDatas: typeof chapterDatas = [];
-  if (isPrelimPrint) {
+  if (layout.splitAtOpeners) {
     // Matches: "Justice Sotomayor, concurring." / "Chief Justice Roberts, dissenting."
     // / "Justice Breyer, Justice Sotomayor, and Justice Kagan, dissenting."
     const bodyOpenerRe =
@@ -1155,9 +2007,11 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
       let segStart = 0;
       let segHeader = cd.header;
       let didSplit = false;
+      // A segment split off mid-page starts with that page's marker
+      let segPrefix: string[] = [];
 
       for (let i = 0; i < lines.length; i++) {
-        const raw = lines[i].trim();
+        const raw = stripEmphasis(lines[i]).trim();
         if (!raw) continue;
         const m = raw.match(bodyOpenerRe);
         if (!m) continue;
@@ -1168,7 +2022,7 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
         const newId = `${type}-${lastName.toLowerCase()}`;
         if (newId === segHeader.id) continue; // same section, no split needed
 
-        const author = KNOWN_JUSTICES[lastName] ?? nameParts[nameParts.length - 1];
+        const author = findJustice(lastName, dates.decided)?.name ?? nameParts[nameParts.length - 1];
         const newHeader: SectionHeader = {
           raw,
           normalized: `${author}, ${type}`,
@@ -1177,46 +2031,49 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
           author,
         };
 
-        const segText = lines.slice(segStart, i).join('\n');
-        if (segText.trim()) {
+        const segText = [...segPrefix, ...lines.slice(segStart, i)].join('\n');
+        if (segText.replace(/\{\{pg:\d+\}\}/g, '').trim()) {
           resolvedDatas.push({ header: segHeader, text: segText, footnotes: didSplit ? new Map() : cd.footnotes });
         }
+        const lastMarker = lines.slice(0, i).reverse().find((l) => /^\{\{pg:\d+\}\}$/.test(l.trim()));
+        segPrefix = lastMarker ? [lastMarker] : [];
         segStart = i;
         segHeader = newHeader;
         didSplit = true;
       }
 
-      const remainingText = lines.slice(segStart).join('\n');
-      if (remainingText.trim()) {
+      const remainingText = [...segPrefix, ...lines.slice(segStart)].join('\n');
+      if (remainingText.replace(/\{\{pg:\d+\}\}/g, '').trim()) {
         resolvedDatas.push({ header: segHeader, text: remainingText, footnotes: didSplit ? new Map() : cd.footnotes });
       }
     }
   } else {
     resolvedDatas.push(...chapterDatas);
   }
+  repairs.push(...reconcileChapterFootnotes(resolvedDatas));
 
-  // Build final chapters
+  // Build final chapters. Full citations are remembered across chapters so that
+  // short forms in a separate opinion resolve to the cite given in the majority.
+  const citedCases: CitedCases = new Map();
   const chapters: Chapter[] = resolvedDatas.map((cd) => {
-    // Convert footnote map to sorted array
-    const footnotes: { id: number; text: string }[] = [];
-    for (const [id, text] of cd.footnotes) {
-      footnotes.push({ id, text: markCitations(dehyphenate(text)) });
-    }
-    footnotes.sort((a, b) => a.id - b.id);
-
-    const paragraphs = tagBoilerplate(buildParagraphs(cd.text));
+    collectCitedCases([cd.text, ...cd.footnotes.values()], citedCases);
+    const paragraphs = toParagraphs(tagBoilerplate(buildParagraphs(cd.text, citedCases, dates.decided)), dates.decided);
+    const footnotes = toFootnotes(cd.footnotes, citedCases, dates.decided);
     let author = cd.header.author;
 
     // For "Opinion of the Court" chapters, extract the author from the
     // JUSTICE delivery line (e.g. "JUSTICE THOMAS delivered the opinion...")
     if (cd.header.id === 'opinion-majority' && !author) {
-      author = extractAuthorFromDeliveryLine(paragraphs);
+      author = extractAuthorFromDeliveryLine(paragraphs, dates.decided);
     }
 
     return {
       id: cd.header.id,
       title: cd.header.title,
+      kind: 'other',
       author,
+      role: '',
+      joinedBy: [],
       paragraphs,
       footnotes,
     };
@@ -1228,8 +2085,11 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
     chapters.push({
       id: 'opinion',
       title: 'Opinion',
+      kind: 'other',
       author: null,
-      paragraphs: buildParagraphs(allText),
+      role: '',
+      joinedBy: [],
+      paragraphs: toParagraphs(buildParagraphs(allText, new Map(), dates.decided), dates.decided),
       footnotes: [],
     });
   }
@@ -1254,44 +2114,57 @@ export async function parsePdf(pdfData: ArrayBuffer, sourceUrl: string, options:
       if (orderIdxs.length > 0) {
         const bpParas = ch.paragraphs.filter((p, i) => i < bpjIdx && /^\{\{bp/.test(p.text));
         const orderParas = orderIdxs.map(i => ch.paragraphs[i]);
+        // Copies: the caption stays with the concurrence too, and each chapter numbers its own anchors
         const orderChapter: Chapter = {
-          id: 'order', title: 'Order', author: null,
-          paragraphs: [...bpParas, ...orderParas],
+          id: 'order', title: 'Order', kind: 'order', author: null, role: '', joinedBy: [],
+          paragraphs: [...bpParas, ...orderParas].map((p) => ({ ...p })),
           footnotes: [],
         };
         const trimmedParas = ch.paragraphs.filter((_, i) => !orderIdxs.includes(i));
+        anchorParagraphs(orderChapter.paragraphs);
+        anchorParagraphs(trimmedParas);
         chapters.splice(0, 1, orderChapter, { ...ch, paragraphs: trimmedParas });
       }
     }
   }
 
+  describeChapters(chapters, chiefJusticeOn(dates.decided).name);
+
   // Extract metadata from page 1 items
   let caseTitle = await extractCaseTitleFromPage1(doc);
-  const firstPagesText = pages.slice(0, 3).map((p) => p.bodyLines.join('\n')).join('\n');
-  const docketNumber = extractDocketNumber(firstPagesText);
-  const decidedDate = extractDecidedDate(firstPagesText);
+  const dockets = extractDockets(chapters);
+  const docketNumber = extractDocketNumber(firstPagesText) || (dockets[0]?.number ?? '');
 
   // Fallback: extract case title from body text if page 1 method failed
   if (caseTitle === 'Unknown Case') {
     caseTitle = extractCaseTitleFromText(firstPagesText);
   }
 
-  return { caseTitle, docketNumber, decidedDate, sourceUrl, chapters };
+  // No caption found (e.g. an application order): the single case the header names
+  if (dockets.length === 0 && docketNumber) {
+    dockets.push({ number: docketNumber, caption: caseTitle, lowerCourt: '', lowerCourtId: '' });
+  }
+
+  const { holdings, disposition } = extractHoldings(chapters);
+  return {
+    schemaVersion: OPINION_SCHEMA_VERSION, parserVersion: PARSER_VERSION, caseTitle, docketNumber, dockets, decidedDate, dates,
+    lowerCourtId: dockets[0]?.lowerCourtId ?? '', sourceUrl, chapters, holdings, disposition,
+    diagnostics: diagnoseOpinion({ chapters }, repairs),
+  };
 }
 
-function extractAuthorFromDeliveryLine(paragraphs: { text: string }[]): string | null {
+function extractAuthorFromDeliveryLine(paragraphs: { text: string }[], date: string): string | null {
   for (const p of paragraphs) {
     const m = p.text.match(/^\{\{bpj:(.+)\}\}$/);
     if (!m) continue;
     const line = m[1];
     // "CHIEF JUSTICE ROBERTS delivered..." or "JUSTICE THOMAS delivered..."
     const justiceMatch = line.match(/(?:CHIEF\s+)?JUSTICE\s+([A-Z]{2,})\b/);
-    if (justiceMatch && KNOWN_JUSTICES[justiceMatch[1]]) {
-      return KNOWN_JUSTICES[justiceMatch[1]];
-    }
+    const justice = justiceMatch ? findJustice(justiceMatch[1], date) : null;
+    if (justice) return justice.name;
     // "THE CHIEF JUSTICE delivered..."
     if (/^THE CHIEF JUSTICE\b/.test(line)) {
-      return KNOWN_JUSTICES['ROBERTS'] || null;
+      return chiefJusticeOn(date).name;
     }
   }
   return null;
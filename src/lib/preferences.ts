@@ -6,8 +6,12 @@ export interface Preferences {
 
 export interface ReadingPosition {
   chapterId: string;
-  scrollPercent: number;
-  page: number;
+  /** The paragraph at the top of the view (see anchors.ts); empty at a chapter's start */
+  anchor: string;
+  textHash: string;
+  /** Positions saved before paragraph anchors */
+  scrollPercent?: number;
+  page?: number;
 }
 
 const PREFS_KEY = 'scotuspdf:prefs';
@@ -0,0 +1,221 @@
+import type {
+  Chapter, ChapterKind, DocketEntry, Holding, InlineSpan, Joinder, Paragraph, ParagraphKind, ParsedOpinion, ParseDiagnostics, ParseRepair,
+  ProceduralDates,
+} from './types';
+import { markersToSpans, spansToPlainText } from './spans';
+import { chapterKind, describeChapters } from './joinders';
+import { extractDockets } from './dockets';
+import { extractProceduralDates } from './dates';
+import { lowerCourtId } from './courts';
+import { diagnoseOpinion } from './diagnostics';
+import { anchorParagraphs } from './anchors';
+
+/**
+ * Current shape of ParsedOpinion JSON. Bump this and add a step to MIGRATIONS
+ * whenever a parser change alters the shape of its output, so opinions already
+ * cached in S3 (or at the CDN) keep rendering.
+ *
+ *   1 — marker strings only (Paragraph.text / Footnote.text)
+ *   2 — typed inline spans on paragraphs and footnotes
+ *   3 — printed page numbers on paragraphs (`pages`, inline `page` spans)
+ *   4 — ante/post `ref` spans carry a page range, target opinion and display text
+ *   5 — paragraph `kind` (body, blockquote, heading, boilerplate)
+ *   6 — `emphasis` spans (italic, bold, small caps)
+ *   7 — chapter `role` and `joinedBy`
+ *   8 — chapter `kind`
+ *   9 — syllabus `holdings` and `disposition`; "Pp." page cites as `ref` spans
+ *  10 — `dockets`: every consolidated case with its caption and lower court
+ *  11 — ISO argued/reargued/decided `dates`; `lowerCourtId` on the opinion and each docket
+ *  12 — parse `diagnostics`: warnings and a confidence score
+ *  13 — `diagnostics.repairs`: what footnote reconciliation fixed
+ *  14 — `parserVersion`
+ *  15 — paragraph `anchor` and `textHash`, for deep links and saved positions
+ *  16 — no marker `text` on paragraphs and footnotes: `spans` is their content
+ */
+export const OPINION_SCHEMA_VERSION = 16;
+
+/**
+ * Version of what the parsers make of a PDF, stamped on each opinion as `parserVersion`.
+ * Bump it with any parser change that alters the output for documents already parsed —
+ * a superscript snapped to the right word, a footnote now found — whether or not the
+ * shape changes: cached opinions from an older parser are then served while they are
+ * re-parsed (see opinion-cache.ts).
+ */
+export const PARSER_VERSION = 5;
+
+/** The parts of an older cached opinion the migrations read and write. */
+interface LegacyOpinion {
+  schemaVersion?: unknown;
+  caseTitle?: string;
+  docketNumber?: string;
+  dockets?: DocketEntry[];
+  decidedDate?: string;
+  dates?: ProceduralDates;
+  lowerCourtId?: string;
+  holdings?: Holding[];
+  disposition?: string;
+  diagnostics?: Omit<ParseDiagnostics, 'repairs'> & { repairs?: ParseRepair[] };
+  parserVersion?: number;
+  chapters?: {
+    id?: string;
+    kind?: ChapterKind;
+    role?: string;
+    joinedBy?: Joinder[];
+    paragraphs?: { text?: string; spans?: InlineSpan[]; pages?: number[]; kind?: ParagraphKind; anchor?: string; textHash?: string }[];
+    footnotes?: { text?: string; spans?: InlineSpan[] }[];
+  }[];
+}
+
+/** Each step upgrades an opinion from version N to N + 1 in place. */
+const MIGRATIONS: Record<number, (opinion: LegacyOpinion) => void> = {
+  1: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const para of chapter.paragraphs ?? []) {
+        para.spans = markersToSpans(para.text ?? '');
+      }
+      for (const fn of chapter.footnotes ?? []) {
+        fn.spans = markersToSpans(fn.text ?? '');
+      }
+    }
+  },
+  // Page boundaries weren't kept before v3; they only come back with a re-parse
+  2: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const para of chapter.paragraphs ?? []) {
+        para.pages ??= [];
+      }
+    }
+  },
+  // Older ref spans only had a direction and page; Part and note refs need a re-parse
+  3: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const item of [...(chapter.paragraphs ?? []), ...(chapter.footnotes ?? [])]) {
+        for (const span of item.spans ?? []) {
+          if (span.type !== 'ref') continue;
+          span.endPage ??= '';
+          span.author ??= '';
+          span.role ??= '';
+          span.display ??= `${span.direction}, at ${span.page}`;
+        }
+      }
+    }
+  },
+  // Headings and boilerplate are known from their spans; quotations only from a re-parse
+  4: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const para of chapter.paragraphs ?? []) {
+        const lead = para.spans?.[0]?.type;
+        para.kind ??= lead === 'heading' || lead === 'boilerplate' ? lead : 'body';
+      }
+    }
+  },
+  // Font styles weren't read before v6; older opinions keep rendering as plain text
+  5: () => {},
+  // Opening lines and the syllabus are already in the stored paragraphs, so read them again
+  6: (opinion) => {
+    const chapters = opinion.chapters ?? [];
+    for (const chapter of chapters) {
+      chapter.role ??= '';
+      chapter.joinedBy ??= [];
+    }
+    describeChapters(chapters.filter((chapter) => chapter.id && chapter.paragraphs) as Chapter[]);
+  },
+  // The kind follows from the id and role a v7 opinion already has
+  7: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      chapter.kind ??= chapterKind({ id: chapter.id ?? '', role: chapter.role ?? '' });
+    }
+  },
+  // The syllabus's "Pp." cites weren't marked before v9; holdings only come back with a re-parse
+  8: (opinion) => {
+    opinion.holdings ??= [];
+    opinion.disposition ??= '';
+  },
+  // Captions are in the stored boilerplate; the single docket number answers when they aren't
+  9: (opinion) => {
+    if (opinion.dockets) return;
+    const chapters = (opinion.chapters ?? []).filter((chapter) => chapter.id && chapter.paragraphs) as Chapter[];
+    opinion.dockets = extractDockets(chapters);
+    if (opinion.dockets.length === 0 && opinion.docketNumber) {
+      opinion.dockets.push({ number: opinion.docketNumber, caption: opinion.caseTitle ?? '', lowerCourt: '', lowerCourtId: '' });
+    }
+  },
+  // The "Argued ...—Decided ..." line is stored boilerplate; the printed decision date backs it up
+  10: (opinion) => {
+    const boilerplate = (opinion.chapters ?? [])
+      .flatMap((chapter) => chapter.paragraphs ?? [])
+      .filter((para) => para.kind === 'boilerplate')
+      .map((para) => spansToPlainText(para.spans ?? []));
+    if (opinion.decidedDate) boilerplate.push(`Decided ${opinion.decidedDate}`);
+    opinion.dates ??= extractProceduralDates(boilerplate.join('\n'));
+    for (const docket of opinion.dockets ?? []) docket.lowerCourtId ??= lowerCourtId(docket.lowerCourt);
+    opinion.lowerCourtId ??= opinion.dockets?.[0]?.lowerCourtId ?? '';
+  },
+  // Every check reads the finished chapters, which are all stored
+  11: (opinion) => {
+    const chapters = (opinion.chapters ?? []).map((chapter) => ({ paragraphs: [], footnotes: [], ...chapter })) as Chapter[];
+    opinion.diagnostics ??= diagnoseOpinion({ chapters });
+  },
+  // Reconciliation runs on the pages, which aren't stored: older parses report no repairs
+  12: (opinion) => {
+    if (opinion.diagnostics) opinion.diagnostics.repairs ??= [];
+  },
+  // Parsed before versioning, by a parser older than any that stamps its version
+  13: (opinion) => {
+    opinion.parserVersion ??= 0;
+  },
+  // Anchors follow from each paragraph's pages and spans, which are stored
+  14: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const para of chapter.paragraphs ?? []) {
+        para.spans ??= [];
+        para.pages ??= [];
+      }
+      anchorParagraphs((chapter.paragraphs ?? []) as Paragraph[]);
+    }
+  },
+  // Spans have carried everything since v2; the marker strings were left in beside them
+  15: (opinion) => {
+    for (const chapter of opinion.chapters ?? []) {
+      for (const item of [...(chapter.paragraphs ?? []), ...(chapter.footnotes ?? [])]) delete item.text;
+    }
+  },
+};
+
+/**
+ * An opinion as served and cached: without the marker `text` the parser works from, so
+ * clients read paragraphs and footnotes from their `spans` alone.
+ */
+export function servedOpinion<T extends Pick<ParsedOpinion, 'chapters'>>(opinion: T): T {
+  return { ...opinion, chapters: opinion.chapters.map(servedChapter) };
+}
+
+/** A chapter as served; see servedOpinion */
+export function servedChapter(chapter: Chapter): Chapter {
+  // Still typed with `text`, which is deprecated outside the parser
+  const withoutText = <T extends { text: string }>({ text: _text, ...rest }: T) => rest as T;
+  return {
+    ...chapter,
+    paragraphs: chapter.paragraphs.map((para) => ({ ...withoutText(para), footnotes: para.footnotes.map(withoutText) })),
+    footnotes: chapter.footnotes.map(withoutText),
+  };
+}
+
+/**
+ * Upgrade a cached or freshly fetched opinion to the current schema version.
+ * JSON without a usable version number predates versioning and is treated as v1;
+ * anything newer than this build understands is passed through unchanged.
+ */
+export function migrateOpinion(raw: unknown): ParsedOpinion {
+  const opinion = raw as LegacyOpinion;
+  const declared = opinion.schemaVersion;
+  let version = typeof declared === 'number' && Number.isInteger(declared) && declared >= 1 ? declared : 1;
+  while (version < OPINION_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from opinion schema v${version}`);
+    step(opinion);
+    version++;
+  }
+  opinion.schemaVersion = version;
+  return opinion as ParsedOpinion;
+}
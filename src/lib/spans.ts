@@ -0,0 +1,163 @@
+import type { InlineSpan } from './types';
+
+/**
+ * Inline marker encoding shared by the parser and the span tokenizer.
+ *
+ * The parser still works on marker-annotated strings internally (every pass —
+ * dehyphenation, small-cap repair, boilerplate tagging — is a string transform),
+ * but free-text marker fields are escaped so a case name containing ":" or "}}"
+ * can't break the marker grammar. `markersToSpans` is the only place that reads
+ * markers back; consumers render from `Paragraph.spans` instead of re-parsing.
+ */
+
+/** Escape characters that would otherwise terminate a marker field. */
+export function encodeMarkerField(value: string): string {
+  return value.replace(/[%:{}]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function decodeMarkerField(value: string): string {
+  return value.replace(/%(25|3A|7B|7D)/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// Whole-paragraph wrappers: {{h1:I}}, {{bp:...}}, {{bpj:...}}. Their content is free
+// text (boilerplate contains colons, e.g. "NOTE: Where it is feasible") and may hold
+// nested inline markers, so they're matched before the inline pass.
+const BLOCK_RE = /^\{\{(h[1-3]|bp|bpj):([\s\S]*)\}\}$/;
+
+// Inline markers. Encoded fields never contain braces, so the first "}}" ends the marker.
+const INLINE_RE = /\{\{(em|fn|cite|ref|note|part|usc|fr|reporter|cfr|const|stat|pl|pg):([^{}]*)\}\}/g;
+
+// {{em:i:...}} / {{em:b:...}} / {{em:sc:...}}
+const EMPHASIS_STYLES: Record<string, 'italic' | 'bold' | 'smallcaps'> = { i: 'italic', b: 'bold', sc: 'smallcaps' };
+
+function inlineSpan(kind: string, body: string): InlineSpan | null {
+  // The last field is display text; rejoin any extra ":" splits so unescaped legacy
+  // markers (schema v1) with a colon in the display still tokenize.
+  const fields = body.split(':');
+  const tail = (n: number) => decodeMarkerField(fields.slice(n).join(':'));
+  const f = (i: number) => decodeMarkerField(fields[i] ?? '');
+
+  switch (kind) {
+    case 'em': {
+      const style = EMPHASIS_STYLES[fields[0]];
+      return style && fields.length >= 2 ? { type: 'emphasis', style, text: tail(1) } : null;
+    }
+    case 'fn': {
+      const id = parseInt(fields[0]);
+      return isNaN(id) ? null : { type: 'fn', id };
+    }
+    case 'cite': {
+      if (fields.length < 5) return null;
+      // Legacy markers may also carry an unescaped ":" in the case name. The display of a
+      // named cite starts with the case name, so pick the split where that holds.
+      let split = 4;
+      for (let k = 4; k < fields.length; k++) {
+        const name = fields.slice(3, k).join(':');
+        if (fields.slice(k).join(':').startsWith(name)) { split = k; break; }
+      }
+      return {
+        type: 'cite', volume: f(0), page: f(1), pinpoint: f(2),
+        caseName: decodeMarkerField(fields.slice(3, split).join(':')), display: tail(split),
+      };
+    }
+    case 'pg': {
+      const page = parseInt(fields[0]);
+      return isNaN(page) ? null : { type: 'page', page };
+    }
+    case 'ref':
+      if (fields[0] !== 'ante' && fields[0] !== 'post') return null;
+      // Markers written before schema v4 carry only the direction and page
+      if (fields.length < 6) {
+        return { type: 'ref', direction: fields[0], page: f(1), endPage: '', author: '', role: '', display: `${fields[0]}, at ${f(1)}` };
+      }
+      return { type: 'ref', direction: fields[0], page: f(1), endPage: f(2), author: f(3), role: f(4), display: tail(5) };
+    case 'note': {
+      const id = parseInt(fields[0]);
+      if (isNaN(id) || (fields[1] !== 'supra' && fields[1] !== 'infra') || fields.length < 3) return null;
+      return { type: 'note', id, direction: fields[1], display: tail(2) };
+    }
+    case 'part':
+      if (fields.length < 5 || !['supra', 'infra', 'ante', 'post'].includes(fields[1])) return null;
+      return {
+        type: 'part', label: f(0), direction: fields[1] as 'supra' | 'infra' | 'ante' | 'post',
+        author: f(2), role: f(3), display: tail(4),
+      };
+    case 'usc':
+      if (fields.length < 4) return null;
+      return { type: 'usc', title: f(0), section: f(1), subsection: f(2), display: tail(3) };
+    case 'fr':
+      if (fields.length < 4) return null;
+      return { type: 'fr', volume: f(0), page: f(1), year: f(2), display: tail(3) };
+    case 'stat':
+      if (fields.length < 4) return null;
+      return { type: 'stat', volume: f(0), page: f(1), pinpoint: f(2), display: tail(3) };
+    case 'pl':
+      if (fields.length < 3) return null;
+      return { type: 'pl', congress: f(0), number: f(1), display: tail(2) };
+    case 'cfr':
+      if (fields.length < 5) return null;
+      return { type: 'cfr', title: f(0), part: f(1), section: f(2), subsection: f(3), display: tail(4) };
+    case 'const':
+      if (fields.length < 5 || (fields[0] !== 'article' && fields[0] !== 'amendment')) return null;
+      return { type: 'const', part: fields[0], number: f(1), section: f(2), clause: f(3), display: tail(4) };
+    case 'reporter':
+      if (fields.length < 8) return null;
+      return {
+        type: 'reporter', reporter: f(0), volume: f(1), page: f(2), pinpoint: f(3),
+        court: f(4), year: f(5), caseName: f(6), display: tail(7),
+      };
+  }
+  return null;
+}
+
+function pushText(spans: InlineSpan[], text: string) {
+  if (!text) return;
+  const last = spans[spans.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    spans.push({ type: 'text', text });
+  }
+}
+
+/** Tokenize marker-annotated text into typed inline spans. Unknown markers stay as text. */
+export function markersToSpans(text: string): InlineSpan[] {
+  const block = text.match(BLOCK_RE);
+  if (block) {
+    const kind = block[1];
+    const inner = spansToPlainText(markersToSpans(block[2]));
+    if (kind === 'bp' || kind === 'bpj') {
+      return [{ type: 'boilerplate', text: inner, delivery: kind === 'bpj' }];
+    }
+    return [{ type: 'heading', level: parseInt(kind[1]) as 1 | 2 | 3, label: inner }];
+  }
+
+  const spans: InlineSpan[] = [];
+  let lastIndex = 0;
+  let match;
+  INLINE_RE.lastIndex = 0;
+  while ((match = INLINE_RE.exec(text)) !== null) {
+    const span = inlineSpan(match[1], match[2]);
+    if (!span) continue;
+    pushText(spans, text.slice(lastIndex, match.index));
+    spans.push(span);
+    lastIndex = INLINE_RE.lastIndex;
+  }
+  pushText(spans, text.slice(lastIndex));
+  return spans;
+}
+
+/** Readable text of a span list: link display text is kept, footnote refs and page breaks are dropped. */
+export function spansToPlainText(spans: InlineSpan[]): string {
+  return spans.map((s) => {
+    switch (s.type) {
+      case 'text': return s.text;
+      case 'emphasis': return s.text;
+      case 'fn': return '';
+      case 'page': return '';
+      case 'boilerplate': return s.text;
+      case 'heading': return s.label;
+      default: return s.display;
+    }
+  }).join('');
+}
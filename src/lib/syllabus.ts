@@ -0,0 +1,87 @@
+import type { Chapter, Holding } from './types';
+import { markersToSpans, spansToPlainText } from './spans';
+import { syllabusParagraphs } from './joinders';
+
+/**
+ * The holdings the syllabus lists after "Held:" — each closed by the pages of the opinion of
+ * the Court it summarizes ("Pp. 5–12.", already a `ref` marker) — and the judgment that
+ * follows them ("91 F. 4th 1173, vacated and remanded.").
+ */
+
+const HELD_RE = /(?:\{\{em:i:Held\}\}|\bHeld)\s*:\s*/;
+
+/** A syllabus page cite, as markCitations writes it, with the period that ends the holding */
+const PAGE_CITE_RE = /\{\{ref:post:\d+:\d*::court:[^}]*\}\}\.?/g;
+
+/** "1.", "(a)", "(2)", "(iii)" at the start of a holding */
+const LABEL_RE = /^(\d{1,2}\.|\((?:[a-z]{1,4}|\d{1,2})\))\s+/;
+
+const ROMAN_LABEL_RE = /^\((?:i{1,3}|iv|vi{0,3}|ix|x)\)$/;
+
+/** "affrmed" is "affirmed" with its fi ligature lost in extraction */
+const DISPOSITION_RE = /(?:^|[,.;]\s*)((?:affi?rmed|reversed|vacated|dismissed|remanded)\b[^.]*)\./i;
+
+/**
+ * A judgment stated in full, as consolidated cases do: "The judgment in No. 24–1287 is
+ * vacated, and the case is remanded …; the judgment in No. 25–250 is affirmed."
+ */
+const JUDGMENT_CLAUSE_RE =
+  /\bjudgment\s+(?:of\s+[^.;]*?\s+)?(?:in\s+No\.\s*(\d+[–-]\s*\d+),?\s+)?is\s+(affi?rmed|reversed|vacated)\b(?:[^.;]*?\bthe\s+case\s+is\s+(remanded[^.;]*))?/gi;
+
+/** The judgment: the short form closing the holdings, else each docket's judgment clause */
+function dispositionIn(body: string, judgment: string): string {
+  const short = judgment.match(DISPOSITION_RE)?.[1];
+  const clauses = short ? [] : [...body.matchAll(JUDGMENT_CLAUSE_RE)].map(([, docket, outcome, remand]) => {
+    const clause = remand ? `${outcome} and ${remand}` : outcome;
+    return docket ? `No. ${docket.replace(/\s+/g, '')}, ${clause}` : clause;
+  });
+  const disposition = (short ?? clauses.join('; ')).replace(/\baffrmed\b/gi, 'affirmed');
+  return disposition && disposition[0].toUpperCase() + disposition.slice(1);
+}
+
+/**
+ * Kind of outline label. "(i)" is a roman numeral unless it continues a run of letters
+ * ("(h)" then "(i)"); likewise "(v)" and "(x)".
+ */
+function labelStyle(label: string, previousLetter: string): string {
+  if (/^\d/.test(label)) return 'number';
+  if (/^\(\d/.test(label)) return 'paren-number';
+  if (ROMAN_LABEL_RE.test(label)) {
+    const letter = label.slice(1, -1);
+    const continuesLetters = letter.length === 1 && previousLetter.charCodeAt(0) === letter.charCodeAt(0) - 1;
+    if (!continuesLetters) return 'roman';
+  }
+  return 'letter';
+}
+
+export function extractHoldings(chapters: Chapter[]): { holdings: Holding[]; disposition: string } {
+  const text = syllabusParagraphs(chapters).map((p) => p.text).join('\n');
+  const held = text.match(HELD_RE);
+  if (!held) return { holdings: [], disposition: '' };
+
+  const body = text.slice(held.index! + held[0].length).replace(/\s*\{\{pg:\d+\}\}\s*/g, ' ');
+  const holdings: Holding[] = [];
+  const styles: string[] = [];
+  let previousLetter = '';
+  let start = 0;
+  for (const m of body.matchAll(PAGE_CITE_RE)) {
+    const end = m.index + m[0].length;
+    let chunk = body.slice(start, end).replace(/\s*\n\s*/g, ' ').trim();
+    start = end;
+
+    const labelMatch = chunk.match(LABEL_RE);
+    const label = labelMatch?.[1] ?? '';
+    let level = 0;
+    if (label) {
+      const style = labelStyle(label, previousLetter);
+      if (style === 'letter') previousLetter = label.slice(1, -1);
+      if (!styles.includes(style)) styles.push(style);
+      level = styles.indexOf(style) + 1;
+      chunk = chunk.slice(labelMatch![0].length);
+    }
+    holdings.push({ label, level, text: chunk, spans: markersToSpans(chunk) });
+  }
+
+  const plain = (text: string) => spansToPlainText(markersToSpans(text)).trim();
+  return { holdings, disposition: dispositionIn(plain(body), plain(body.slice(start))) };
+}
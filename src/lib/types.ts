@@ -1,27 +1,232 @@
+/**
+ * Typed inline content of a paragraph or footnote, produced by the parser.
+ * Block-level spans (`heading`, `boilerplate`) are always the only span in their paragraph.
+ */
+export type InlineSpan =
+  | { type: 'text'; text: string }
+  /**
+   * Text set in an italic or bold face, or a name in small caps ("Justice Thomas", printed
+   * J USTICE T HOMAS). Case names inside citation links aren't split out; they're always italic.
+   */
+  | { type: 'emphasis'; style: 'italic' | 'bold' | 'smallcaps'; text: string }
+  | { type: 'fn'; id: number }
+  | { type: 'cite'; volume: string; page: string; pinpoint: string; caseName: string; display: string }
+  /**
+   * "ante, at 12–14 (THOMAS, J., dissenting)". `endPage` is empty for a single page.
+   * `author` and `role` ("concurring", "dissenting", or "court" for the opinion of the
+   * Court) come from a parenthetical naming the target opinion; empty without one.
+   */
+  | { type: 'ref'; direction: 'ante' | 'post'; page: string; endPage: string; author: string; role: string; display: string }
+  /** "n. 3, supra": a footnote of the same opinion */
+  | { type: 'note'; id: number; direction: 'supra' | 'infra'; display: string }
+  /** "Part III–B, infra": `label` is the heading path ("III–B"); `author` / `role` as for `ref` */
+  | { type: 'part'; label: string; direction: 'supra' | 'infra' | 'ante' | 'post'; author: string; role: string; display: string }
+  | { type: 'usc'; title: string; section: string; subsection: string; display: string }
+  | { type: 'fr'; volume: string; page: string; year: string; display: string }
+  | { type: 'stat'; volume: string; page: string; pinpoint: string; display: string }
+  /** Public Law `congress`–`number`, e.g. Pub. L. 117–169 */
+  | { type: 'pl'; congress: string; number: string; display: string }
+  /** `section` is the full "part.section" number ("1502.4"); empty when a whole part is cited */
+  | { type: 'cfr'; title: string; part: string; section: string; subsection: string; display: string }
+  /**
+   * A Constitution provision. `number` is a Roman numeral for articles ("I") and Arabic
+   * for amendments ("14"); `section` / `clause` are empty when not cited.
+   */
+  | { type: 'const'; part: 'article' | 'amendment'; number: string; section: string; clause: string; display: string }
+  | {
+      type: 'reporter';
+      /** Canonical abbreviation, e.g. "F.4th", "F. Supp. 2d", "S. Ct." */
+      reporter: string;
+      volume: string;
+      page: string;
+      pinpoint: string;
+      /** Court as abbreviated in the citation parenthetical ("CA9", "SDNY"); empty if implied */
+      court: string;
+      year: string;
+      caseName: string;
+      display: string;
+    }
+  /** A printed page that begins mid-paragraph (star paging: "*14") */
+  | { type: 'page'; page: number }
+  | { type: 'heading'; level: 1 | 2 | 3; label: string }
+  | { type: 'boilerplate'; text: string; delivery: boolean };
+
 export interface Footnote {
   id: number;
+  /**
+   * @deprecated The parser's marker-annotated working text ({{cite:...}} etc.), left off
+   * opinions as served and cached (see servedOpinion); read `spans`.
+   */
   text: string;
+  spans: InlineSpan[];
 }
 
+/**
+ * What a paragraph is on the page: running text, an indented block quotation, a section
+ * heading, or caption/notice boilerplate.
+ */
+export type ParagraphKind = 'body' | 'blockquote' | 'heading' | 'boilerplate';
+
 export interface Paragraph {
+  /**
+   * @deprecated The parser's marker-annotated working text ({{fn:N}}, {{bp:...}} etc.),
+   * left off opinions as served and cached (see servedOpinion); read `spans`.
+   */
   text: string;
+  spans: InlineSpan[];
+  kind: ParagraphKind;
+  /**
+   * Printed pages the paragraph spans, in order; empty when the PDF has no page numbers.
+   * Every page after the first begins at an inline `page` span.
+   */
+  pages: number[];
+  /** Where links and saved positions find it: "p-14-3", the third to start on page 14 (see anchors.ts) */
+  anchor: string;
+  /** Hash of its normalized text, to find it again when a re-parse moves its anchor */
+  textHash: string;
   footnotes: Footnote[];
 }
 
+/**
+ * A justice joining an opinion: all of it, only `parts` ("I", "II–A"), or all but
+ * `exceptParts`.
+ */
+export interface Joinder {
+  justice: string;
+  parts?: string[];
+  exceptParts?: string[];
+}
+
+/**
+ * What kind of writing a chapter is. Partial dissents include "concurring in part and
+ * dissenting in part"; "other" is a separate opinion whose stance couldn't be read.
+ */
+export type ChapterKind =
+  | 'syllabus'
+  | 'majority'
+  | 'plurality'
+  | 'per-curiam'
+  | 'concurrence'
+  | 'concurrence-in-judgment'
+  | 'partial-dissent'
+  | 'dissent'
+  | 'statement'
+  | 'appendix'
+  | 'order'
+  | 'other';
+
 export interface Chapter {
   id: string;
   title: string;
+  kind: ChapterKind;
   author: string | null;
+  /**
+   * The writing as its opening line describes it: "opinion of the Court", "plurality opinion",
+   * "per curiam", "dissenting", "concurring in part and dissenting in part". Empty for the
+   * syllabus, orders and anything unrecognized.
+   */
+  role: string;
+  /** Who joined it, from the opening line or the syllabus's vote summary. */
+  joinedBy: Joinder[];
   paragraphs: Paragraph[];
   footnotes: Footnote[];
 }
 
+/** One holding from the syllabus: the text after "Held:", or one of its numbered or lettered parts. */
+export interface Holding {
+  /** "1.", "(a)", "(ii)"; empty for the text right after "Held:" */
+  label: string;
+  /** Outline depth: 0 after "Held:", then one level per kind of label in the order they appear */
+  level: number;
+  /** Marker-annotated text ending in the `ref` to the Court's pages ("Pp. 5–12"); render from `spans`. */
+  text: string;
+  spans: InlineSpan[];
+}
+
+/** One of the cases an opinion decides; consolidated cases share a single opinion. */
+export interface DocketEntry {
+  /** "24-1287", "25A914" */
+  number: string;
+  /** As printed, with "et al." normalized: "LEARNING RESOURCES, INC., et al. v. DONALD J. TRUMP, ..."; empty if not found */
+  caption: string;
+  /** "United States Court of Appeals for the Federal Circuit"; empty for original actions or if not found */
+  lowerCourt: string;
+  /** The lower court as the Court abbreviates it in citations ("CAFC", "La. App."); empty if not recognized */
+  lowerCourtId: string;
+}
+
+/** ISO dates ("2024-07-01") from the syllabus or caption; empty when not printed */
+export interface ProceduralDates {
+  argued: string;
+  reargued: string;
+  decided: string;
+}
+
+/**
+ * What looked wrong in a parse: a footnote reference with no note, a note number skipped,
+ * a signed writing with no author, caption boilerplate that never reached a delivery line,
+ * or no section headers at all.
+ */
+export type ParseWarningCode =
+  | 'orphan-footnote-ref'
+  | 'skipped-footnote'
+  | 'missing-author'
+  | 'unclosed-boilerplate'
+  | 'no-sections';
+
+export interface ParseWarning {
+  code: ParseWarningCode;
+  /** The chapter it was found in */
+  chapterId: string;
+  message: string;
+}
+
+export type ParseRepairCode =
+  | 'leaked-footnote'
+  | 'footnote-continuation'
+  | 'moved-footnote';
+
+/** A fix footnote reconciliation made to the parse */
+export interface ParseRepair {
+  code: ParseRepairCode;
+  /** The chapter the note ended up in */
+  chapterId: string;
+  footnote: number;
+  /** Printed page the repair was made on, where known */
+  page: number | null;
+  message: string;
+}
+
+export interface ParseDiagnostics {
+  warnings: ParseWarning[];
+  /** Fixes already made; these don't lower the confidence score */
+  repairs: ParseRepair[];
+  /** 0–1: 1 for a parse with no warnings, less by each warning's weight */
+  confidence: number;
+}
+
 export interface ParsedOpinion {
+  /** Shape version of this JSON; see OPINION_SCHEMA_VERSION in schema.ts. */
+  schemaVersion: number;
+  /** Version of the parser that made it; see PARSER_VERSION in schema.ts. 0 if unstamped. */
+  parserVersion: number;
   caseTitle: string;
+  /** The first of `dockets`, kept for case keys and links that take a single number */
   docketNumber: string;
+  /** Every case the opinion decides, in the order the caption lists them */
+  dockets: DocketEntry[];
+  /** As printed ("July 1, 2024"); `dates.decided` has it in ISO form */
   decidedDate: string;
+  dates: ProceduralDates;
+  /** `lowerCourtId` of the first docket */
+  lowerCourtId: string;
   sourceUrl: string;
   chapters: Chapter[];
+  /** From the syllabus; empty when there is none */
+  holdings: Holding[];
+  /** The judgment as the syllabus states it ("Reversed and remanded"); empty if not found */
+  disposition: string;
+  diagnostics: ParseDiagnostics;
 }
 
 export interface RecentOpinion {
@@ -0,0 +1,8 @@
+/**
+ * `import url from './worker.ts?node-worker'`: the URL of a worker_threads entry point,
+ * bundled into the server build as a chunk of its own (see nodeWorker in astro.config.mjs).
+ */
+declare module '*?node-worker' {
+  const url: string;
+  export default url;
+}
@@ -0,0 +1,131 @@
+import type { APIRoute } from 'astro';
+import { getCached, setCache } from '../../lib/s3cache';
+
+export const prerender = false;
+
+// eCFR keeps point-in-time versions of every title back to January 2017. Older decisions
+// fall back to govinfo's annual CFR editions (revised once a year, so the edition for the
+// decision year is the closest available).
+const ECFR_EARLIEST = '2017-01-03';
+
+interface CfrResult {
+  html: string;
+  editionDate: string;
+  sourceUrl: string;
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 10_000);
+    const res = await fetch(url, { redirect: 'manual', signal: controller.signal });
+    clearTimeout(timeout);
+    if (res.status !== 200) return null;
+    return await res.text();
+  } catch {
+    return null;
+  }
+}
+
+/** Point-in-time text from the eCFR renderer (already an HTML fragment). */
+async function fetchFromEcfr(title: number, part: string, section: string, date: string): Promise<CfrResult | null> {
+  const scope = section ? `section=${section}` : `part=${part}`;
+  const html = await fetchText(`https://www.ecfr.gov/api/renderer/v1/content/enhanced/${date}/title-${title}?${scope}`);
+  if (!html) return null;
+  const sourceUrl = `https://www.ecfr.gov/on/${date}/title-${title}/${section ? `section-${section}` : `part-${part}`}`;
+  return { html, editionDate: date, sourceUrl };
+}
+
+/** Annual edition via the govinfo link service, which redirects to the section's HTML granule. */
+async function fetchFromGovinfo(title: number, part: string, section: string, year: number): Promise<CfrResult | null> {
+  const sectionnum = section ? `&sectionnum=${section.split('.')[1]}` : '';
+  let location: string | null = null;
+  try {
+    const res = await fetch(
+      `https://www.govinfo.gov/link/cfr/${title}/${part}?link-type=html&year=${year}${sectionnum}`,
+      { redirect: 'manual' }
+    );
+    const loc = res.headers.get('location');
+    if (loc && res.status >= 300 && res.status < 400) location = loc;
+  } catch {
+    return null;
+  }
+  if (!location) return null;
+
+  const rawHtml = await fetchText(location);
+  if (!rawHtml) return null;
+
+  // Clean HTML: strip script/style/link tags, extract body content
+  const cleanedHtml = rawHtml
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<link\b[^>]*\/?>/gi, '');
+  const bodyMatch = cleanedHtml.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+
+  // CFR-2019-title40-vol37-sec1502-4 → edition year 2019
+  const yearMatch = location.match(/CFR-(\d{4})-/);
+  return {
+    html: bodyMatch ? bodyMatch[1] : cleanedHtml,
+    editionDate: yearMatch ? yearMatch[1] : String(year),
+    sourceUrl: location,
+  };
+}
+
+export const GET: APIRoute = async ({ request }) => {
+  const url = new URL(request.url);
+  const titleParam = url.searchParams.get('title');
+  const partParam = url.searchParams.get('part');
+  const section = url.searchParams.get('section') ?? '';
+  const dateParam = url.searchParams.get('date');
+
+  if (!titleParam || !partParam || !dateParam) {
+    return new Response(JSON.stringify({ error: 'Missing params' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const title = parseInt(titleParam);
+  const part = partParam;
+
+  if (
+    isNaN(title) ||
+    !/^\d+$/.test(part) ||
+    (section && !new RegExp(`^${part}\\.\\d+[a-z]?$`).test(section)) ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(dateParam)
+  ) {
+    return new Response(JSON.stringify({ error: 'Invalid params' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Never ask for a future date (eCFR rejects it); decisions are always in the past anyway
+  const today = new Date().toISOString().slice(0, 10);
+  const date = dateParam > today ? today : dateParam;
+  const cacheKey = `cfr-v1:${title}:${part}:${section}:${date}`;
+
+  const cached = await getCached<CfrResult>(cacheKey);
+  if (cached) {
+    return new Response(JSON.stringify(cached), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=86400' },
+    });
+  }
+
+  const result = date >= ECFR_EARLIEST
+    ? await fetchFromEcfr(title, part, section, date)
+    : await fetchFromGovinfo(title, part, section, parseInt(date.slice(0, 4)));
+
+  if (!result) {
+    return new Response(JSON.stringify({ error: 'not_found' }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Cache for 30 days
+  await setCache(cacheKey, result, 30 * 24 * 60 * 60);
+
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=86400' },
+  });
+};
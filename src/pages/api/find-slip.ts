@@ -2,12 +2,36 @@ import type { APIRoute } from 'astro';
 
 export const prerender = false;
 
+// Docket numbers as the listing prints them: "24-1287", "25A914", "22O145"
+const DOCKET_RE = /\b\d{2}[-AO]\d+\b/g;
+
+// Consolidated cases are listed once, under the lead docket. The other dockets name it
+// on their docket page ("Linked with 24-1287 ..."), so look there when the listing misses.
+async function linkedDockets(docket: string): Promise<string[]> {
+  try {
+    const resp = await fetch(
+      `https://www.supremecourt.gov/docket/docketfiles/html/public/${encodeURIComponent(docket)}.html`,
+      { headers: { 'User-Agent': 'Mozilla/5.0' } }
+    );
+    if (!resp.ok) return [];
+    const html = await resp.text();
+    const linked: string[] = [];
+    for (const m of html.matchAll(/(?:Linked|Consolidated)\s+with\s+([^<]+)/gi)) {
+      linked.push(...(m[1].match(DOCKET_RE) ?? []));
+    }
+    return linked.filter((d) => d !== docket);
+  } catch {
+    return [];
+  }
+}
+
 // Fetch the slip opinion listing for an OT term and find the PDF URL for a docket or case name.
 // The supremecourt.gov listing pages (/opinions/slipopinion/{term}) have been
 // accessible with full PDF links starting from OT2019 (term code "19").
+// Any docket of a set of consolidated cases finds their shared opinion.
 export const GET: APIRoute = async ({ request }) => {
   const url = new URL(request.url);
-  const docket = url.searchParams.get('docket');
+  const docket = url.searchParams.get('docket')?.replace(/\u2013/g, '-') ?? null;
   const name = url.searchParams.get('name');    // alternative to docket: fuzzy case-name match
   const term = url.searchParams.get('term'); // 4-digit year string, e.g. "2021"
 
@@ -48,26 +72,35 @@ export const GET: APIRoute = async ({ request }) => {
     nameParts = [p1.trim().toLowerCase(), p2.trim().toLowerCase()].filter(Boolean);
   }
 
-  // The page is an HTML table. Each row has: #, date, docket, case-name+PDF-link.
+  // The page is an HTML table. Each row has: #, date, docket(s), case-name+PDF-link.
+  const rows: { row: string; term: string; filename: string; dockets: string[] }[] = [];
   const rowRegex = /<tr[^>]*>(.*?)<\/tr>/gis;
   let match;
   while ((match = rowRegex.exec(html)) !== null) {
     const row = match[1];
-
     const pdfMatch = row.match(/href='(\/opinions\/(\d+)pdf\/([\w\-_.]+\.pdf))'/i);
     if (!pdfMatch) continue;
+    rows.push({ row, term: pdfMatch[2], filename: pdfMatch[3], dockets: row.match(DOCKET_RE) ?? [] });
+  }
 
-    // Match by docket number (exact substring)
-    if (docket && row.includes(docket)) {
-      return new Response(
-        JSON.stringify({ term: pdfMatch[2], filename: pdfMatch[3] }),
-        { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'max-age=86400, s-maxage=86400' } }
-      );
-    }
+  const found = (entry: { term: string; filename: string }) => new Response(
+    JSON.stringify({ term: entry.term, filename: entry.filename }),
+    { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'max-age=86400, s-maxage=86400' } }
+  );
+
+  // Match by docket number: any docket in the row, then any docket consolidated with it
+  if (docket) {
+    const byDocket = rows.find((r) => r.dockets.includes(docket));
+    if (byDocket) return found(byDocket);
+    const linked = await linkedDockets(docket);
+    const byLinked = rows.find((r) => r.dockets.some((d) => linked.includes(d)));
+    if (byLinked) return found(byLinked);
+  }
 
-    // Match by case name: extract text from the PDF anchor tag (the case name link).
-    // Do NOT use a generic text-node scan — the first text node in the row is the date.
-    if (nameParts.length > 0) {
+  // Match by case name: extract text from the PDF anchor tag (the case name link).
+  // Do NOT use a generic text-node scan — the first text node in the row is the date.
+  if (nameParts.length > 0) {
+    for (const { row, term: rowTerm, filename } of rows) {
       const anchorMatch = row.match(/<a\s[^>]*href='[^']*\.pdf'[^>]*>([^<]+)<\/a>/i);
       const linkText = (anchorMatch?.[1] ?? '').toLowerCase();
       // Primary: both party fragments present (handles stable names)
@@ -76,12 +109,7 @@ export const GET: APIRoute = async ({ request }) => {
       const [p1, p2] = nameParts;
       const bothMatch = nameParts.every(p => linkText.includes(p));
       const p2OnlyMatch = p2 && p2.length >= 7 && linkText.includes(p2);
-      if (bothMatch || p2OnlyMatch) {
-        return new Response(
-          JSON.stringify({ term: pdfMatch[2], filename: pdfMatch[3] }),
-          { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'max-age=86400, s-maxage=86400' } }
-        );
-      }
+      if (bothMatch || p2OnlyMatch) return found({ term: rowTerm, filename });
     }
   }
 
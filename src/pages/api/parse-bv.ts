@@ -1,6 +1,8 @@
 import type { APIRoute } from 'astro';
 import { parseBoundVolumeCase } from '../../lib/bv-parser';
-import { getCached, setCache } from '../../lib/s3cache';
+import { setCache } from '../../lib/s3cache';
+import { getCachedOpinion, opinionResponse, refreshInBackground } from '../../lib/opinion-cache';
+import { servedOpinion } from '../../lib/schema';
 import type { ParsedOpinion } from '../../lib/types';
 
 export const prerender = false;
@@ -48,7 +50,7 @@ async function resolveUrl(candidates: string[]): Promise<string | null> {
   return null;
 }
 
-export const GET: APIRoute = async ({ request }) => {
+export const GET: APIRoute = async ({ request, locals }) => {
   const url = new URL(request.url);
   const volumeParam = url.searchParams.get('volume');
   const pageParam = url.searchParams.get('page');
@@ -73,22 +75,37 @@ export const GET: APIRoute = async ({ request }) => {
 
   const cacheKey = `parsed/bv/${volume}/${page}.json`;
 
-  // Check cache
-  const cached = await getCached<ParsedOpinion>(cacheKey);
+  // Check cache; an entry from an older parser is served while it's re-parsed
+  const cached = await getCachedOpinion(cacheKey);
   if (cached) {
-    return new Response(JSON.stringify(cached), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': 'max-age=0, s-maxage=2592000',
-      },
+    if (cached.stale) refreshInBackground(locals, cacheKey, async () => setCache(cacheKey, await parseCase(volume, page)));
+    return opinionResponse(cached.opinion);
+  }
+
+  let parsed: ParsedOpinion;
+  try {
+    parsed = await parseCase(volume, page);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    console.error('Bound volume parse error:', detail);
+    return new Response(JSON.stringify({ error: 'Failed to parse bound volume case', detail }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
     });
   }
 
-  // Try each URL group in order (PP1 then PP2 for preliminary prints)
-  let parsed: ParsedOpinion | null = null;
+  // Cache (non-blocking)
+  setCache(cacheKey, parsed).catch(err => console.error('Cache store failed:', err));
+
+  return opinionResponse(parsed);
+};
+
+/** Find the case in the volume's PDFs and parse it; throws the last failure if no part has it */
+async function parseCase(volume: number, page: number): Promise<ParsedOpinion> {
   let lastError = 'Case not found in volume';
 
-  for (const candidates of urlGroups) {
+  // Try each URL group in order (PP1 then PP2 for preliminary prints)
+  for (const candidates of getUrlGroups(volume)) {
     const pdfUrl = await resolveUrl(candidates);
     if (!pdfUrl) continue;
 
@@ -102,29 +119,12 @@ export const GET: APIRoute = async ({ request }) => {
     }
 
     try {
-      parsed = await parseBoundVolumeCase(pdfData, volume, page);
-      break;
+      return servedOpinion(await parseBoundVolumeCase(pdfData, volume, page));
     } catch (err) {
       lastError = err instanceof Error ? err.message : String(err);
       // case not in this part — try next group
     }
   }
 
-  if (!parsed) {
-    console.error('Bound volume parse error:', lastError);
-    return new Response(JSON.stringify({ error: 'Failed to parse bound volume case', detail: lastError }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  // Cache (non-blocking)
-  setCache(cacheKey, parsed).catch(err => console.error('Cache store failed:', err));
-
-  return new Response(JSON.stringify(parsed), {
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'max-age=0, s-maxage=2592000',
-    },
-  });
-};
+  throw new Error(lastError);
+}
@@ -1,6 +1,8 @@
 import type { APIRoute } from 'astro';
 import { parsePdf } from '../../lib/parser';
-import { getCached, setCache } from '../../lib/s3cache';
+import { setCache } from '../../lib/s3cache';
+import { getCachedOpinion, opinionResponse, refreshInBackground } from '../../lib/opinion-cache';
+import { servedOpinion } from '../../lib/schema';
 import type { ParsedOpinion } from '../../lib/types';
 
 export const prerender = false;
@@ -8,7 +10,7 @@ export const prerender = false;
 const MAX_PDF_BYTES = 25 * 1024 * 1024;
 const FETCH_TIMEOUT_MS = 20_000;
 
-export const GET: APIRoute = async ({ request }) => {
+export const GET: APIRoute = async ({ request, locals }) => {
   const url = new URL(request.url);
   const vol = parseInt(url.searchParams.get('vol') ?? '');
   const page = parseInt(url.searchParams.get('page') ?? '');
@@ -21,16 +23,38 @@ export const GET: APIRoute = async ({ request }) => {
   }
 
   const cacheKey = `parsed/usreports/${vol}/${page}.json`;
-  const cached = await getCached<ParsedOpinion>(cacheKey);
+
+  // Check cache; an entry from an older parser is served while it's re-parsed
+  const cached = await getCachedOpinion(cacheKey);
   if (cached) {
-    return new Response(JSON.stringify(cached), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': 'max-age=0, s-maxage=2592000',
-      },
+    if (cached.stale) refreshInBackground(locals, cacheKey, async () => setCache(cacheKey, await parseCase(vol, page)));
+    return opinionResponse(cached.opinion);
+  }
+
+  let parsed: ParsedOpinion;
+  try {
+    parsed = await parseCase(vol, page);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (msg === 'PDF_TOO_LARGE') {
+      return new Response(JSON.stringify({ error: 'PDF too large' }), {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    return new Response(JSON.stringify({ error: msg === 'PDF_PARSE_FAILED' ? 'Failed to parse opinion PDF' : 'Failed to fetch opinion PDF' }), {
+      status: 502,
+      headers: { 'Content-Type': 'application/json' },
     });
   }
 
+  setCache(cacheKey, parsed).catch(e => console.error('Cache store failed:', e));
+
+  return opinionResponse(parsed);
+};
+
+/** Fetch and parse a US Reports granule; throws PDF_TOO_LARGE, PDF_FETCH_FAILED or PDF_PARSE_FAILED */
+async function parseCase(vol: number, page: number): Promise<ParsedOpinion> {
   const apiKey = import.meta.env.GOVINFO_API_KEY ?? '';
   const pdfUrl = `https://api.govinfo.gov/packages/USREPORTS-${vol}/granules/USREPORTS-${vol}-${page}/pdf?api_key=${apiKey}`;
   const sourceUrl = `https://www.govinfo.gov/app/details/USREPORTS-${vol}/USREPORTS-${vol}-${page}`;
@@ -47,28 +71,17 @@ export const GET: APIRoute = async ({ request }) => {
     pdfData = buf;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    if (msg === 'PDF_TOO_LARGE') {
-      return new Response(JSON.stringify({ error: 'PDF too large' }), {
-        status: 413,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    if (msg === 'PDF_TOO_LARGE') throw err;
     console.error('USREPORTS fetch error:', msg);
-    return new Response(JSON.stringify({ error: 'Failed to fetch opinion PDF' }), {
-      status: 502,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    throw new Error('PDF_FETCH_FAILED');
   }
 
   let parsed: ParsedOpinion;
   try {
-    parsed = await parsePdf(pdfData, sourceUrl);
+    parsed = await parsePdf(pdfData, sourceUrl, { layout: 'us-reports' });
   } catch (err) {
     console.error('USREPORTS parse error:', err);
-    return new Response(JSON.stringify({ error: 'Failed to parse opinion PDF' }), {
-      status: 502,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    throw new Error('PDF_PARSE_FAILED');
   }
 
   // parsePdf() title extraction relies on "SUPREME COURT OF THE UNITED STATES" text,
@@ -91,12 +104,5 @@ export const GET: APIRoute = async ({ request }) => {
     }
   }
 
-  setCache(cacheKey, parsed).catch(e => console.error('Cache store failed:', e));
-
-  return new Response(JSON.stringify(parsed), {
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'max-age=0, s-maxage=2592000',
-    },
-  });
-};
+  return servedOpinion(parsed);
+}
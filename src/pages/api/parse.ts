@@ -1,6 +1,12 @@
 import type { APIRoute } from 'astro';
 import { parsePdf } from '../../lib/parser';
-import { getCached, setCache } from '../../lib/s3cache';
+import { setCache } from '../../lib/s3cache';
+import { getCachedOpinion, opinionResponse, refreshInBackground } from '../../lib/opinion-cache';
+import { servedChapter, servedOpinion } from '../../lib/schema';
+import { formatEvent, type ParseStreamEvent } from '../../lib/parse-stream';
+import { ParseJobRegistry, type JoinOptions } from '../../lib/parse-jobs';
+import { ParsePool } from '../../lib/parse-pool';
+import parseWorkerUrl from '../../lib/parse-worker.ts?node-worker';
 import type { ParsedOpinion } from '../../lib/types';
 
 export const prerender = false;
@@ -8,8 +14,16 @@ export const prerender = false;
 const ALLOWED_HOSTS = ['www.supremecourt.gov', 'supremecourt.gov'];
 const MAX_PDF_BYTES = 25 * 1024 * 1024; // 25 MB
 const FETCH_TIMEOUT_MS = 15_000;
+const PARSE_WORKERS = 2;
+const PARSE_TIMEOUT_MS = 20_000;
+const PARSE_MAX_MEMORY_MB = 512;
 
-const inflight = new Map<string, Promise<ParsedOpinion>>();
+const jobs = new ParseJobRegistry();
+const pool = new ParsePool(parseWorkerUrl, {
+  size: PARSE_WORKERS,
+  timeoutMs: PARSE_TIMEOUT_MS,
+  maxMemoryMb: PARSE_MAX_MEMORY_MB,
+});
 
 function cacheKeyFromUrl(url: string): string {
   const parsed = new URL(url);
@@ -18,7 +32,7 @@ function cacheKeyFromUrl(url: string): string {
   return `parsed/${path}.json`;
 }
 
-export const GET: APIRoute = async ({ request }) => {
+export const GET: APIRoute = async ({ request, locals }) => {
   const url = new URL(request.url);
   const pdfUrl = url.searchParams.get('url');
 
@@ -48,67 +62,104 @@ export const GET: APIRoute = async ({ request }) => {
   }
 
   const cacheKey = cacheKeyFromUrl(pdfUrl);
+  const stream = url.searchParams.get('stream') === '1';
 
-  // Check cache
-  const cached = await getCached<ParsedOpinion>(cacheKey);
+  // Check cache; an entry from an older parser is served while it's re-parsed
+  const cached = await getCachedOpinion(cacheKey);
   if (cached) {
-    return new Response(JSON.stringify(cached), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': 'max-age=0, s-maxage=2592000',
-      },
-    });
+    if (cached.stale) refreshInBackground(locals, cacheKey, () => parseOnce(pdfUrl, cacheKey));
+    if (stream) return eventStream(async (send) => send({ event: 'opinion', data: cached.opinion }));
+    return opinionResponse(cached.opinion);
   }
 
-  // Singleflight: if another request is already parsing this PDF, reuse its promise
-  let parsePromise = inflight.get(cacheKey);
-  if (!parsePromise) {
-    parsePromise = (async (): Promise<ParsedOpinion> => {
-      const pdfData = await fetchPdfWithLimits(pdfUrl);
-      return await parsePdf(pdfData, pdfUrl);
-    })();
-    inflight.set(cacheKey, parsePromise);
-    parsePromise.finally(() => inflight.delete(cacheKey));
+  if (stream) {
+    return eventStream(async (send, signal) => {
+      try {
+        const parsed = await parseOnce(pdfUrl, cacheKey, {
+          onChapter: (chapter) => send({ event: 'chapter', data: servedChapter(chapter) }),
+          signal,
+        });
+        send({ event: 'opinion', data: parsed });
+      } catch (err) {
+        send({ event: 'error', data: { error: parseError(err).error } });
+      }
+    });
   }
 
   let parsed: ParsedOpinion;
   try {
-    parsed = await parsePromise;
+    parsed = await parseOnce(pdfUrl, cacheKey, { signal: request.signal });
   } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    if (message === 'PDF_TOO_LARGE') {
-      return new Response(JSON.stringify({ error: 'PDF exceeds max size' }), {
-        status: 413,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-    if (message === 'PDF_FETCH_TIMEOUT') {
-      return new Response(JSON.stringify({ error: 'PDF fetch timed out' }), {
-        status: 504,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-    console.error('PDF parse error:', message);
-    return new Response(JSON.stringify({ error: 'Failed to parse PDF' }), {
-      status: 502,
+    const { status, error } = parseError(err);
+    return new Response(JSON.stringify({ error }), {
+      status,
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
-  // Cache in S3 (non-blocking)
-  setCache(cacheKey, parsed).catch((err) => console.error('Cache store failed:', err));
+  return opinionResponse(parsed);
+};
+
+/**
+ * Fetch and parse a PDF in the worker pool, caching the result in S3. Requests for a PDF
+ * already being parsed join that job; it is cancelled once every request has gone.
+ */
+function parseOnce(pdfUrl: string, cacheKey: string, options: JoinOptions = {}): Promise<ParsedOpinion> {
+  return jobs.join(cacheKey, async (onChapter, signal) => {
+    const pdfData = await fetchPdfWithLimits(pdfUrl, signal);
+    // The dev server runs the TypeScript sources, which a worker thread can't load
+    const parsed = servedOpinion(import.meta.env.DEV
+      ? await parsePdf(pdfData, pdfUrl, { onChapter, signal })
+      : await pool.parse(pdfData, pdfUrl, { onChapter, signal }));
+    // Cache in S3 (non-blocking)
+    setCache(cacheKey, parsed).catch((err) => console.error('Cache store failed:', err));
+    return parsed;
+  }, options);
+}
 
-  return new Response(JSON.stringify(parsed), {
+function parseError(err: unknown): { status: number; error: string } {
+  const message = err instanceof Error ? err.message : String(err);
+  if (message === 'PDF_TOO_LARGE') return { status: 413, error: 'PDF exceeds max size' };
+  if (message === 'PDF_FETCH_TIMEOUT') return { status: 504, error: 'PDF fetch timed out' };
+  if (message === 'PARSE_TIMEOUT') return { status: 504, error: 'PDF parse timed out' };
+  if (message === 'PARSE_OUT_OF_MEMORY') return { status: 413, error: 'PDF too large to parse' };
+  // The client has gone; there's no one to answer
+  if (message === 'PARSE_CANCELLED') return { status: 499, error: 'Parse cancelled' };
+  console.error('PDF parse error:', message);
+  return { status: 502, error: 'Failed to parse PDF' };
+}
+
+/**
+ * A Server-Sent Events response. `signal` aborts when the client goes away; events sent
+ * after that are dropped.
+ */
+function eventStream(run: (send: (event: ParseStreamEvent) => void, signal: AbortSignal) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const gone = new AbortController();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await run((event) => {
+        if (!gone.signal.aborted) controller.enqueue(encoder.encode(formatEvent(event)));
+      }, gone.signal);
+      if (!gone.signal.aborted) controller.close();
+    },
+    cancel() {
+      gone.abort();
+    },
+  });
+  return new Response(body, {
     headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'max-age=0, s-maxage=2592000',
+      'Content-Type': 'text/event-stream',
+      // A stream may end in an error; only the JSON endpoint is cached at the CDN
+      'Cache-Control': 'no-store',
     },
   });
-};
+}
 
-async function fetchPdfWithLimits(pdfUrl: string): Promise<ArrayBuffer> {
+async function fetchPdfWithLimits(pdfUrl: string, signal?: AbortSignal): Promise<ArrayBuffer> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  signal?.addEventListener('abort', () => controller.abort(), { once: true });
   try {
     const resp = await fetch(pdfUrl, { signal: controller.signal });
     if (!resp.ok) {
@@ -151,7 +202,7 @@ async function fetchPdfWithLimits(pdfUrl: string): Promise<ArrayBuffer> {
     return merged.buffer;
   } catch (err) {
     if (err instanceof Error && err.name === 'AbortError') {
-      throw new Error('PDF_FETCH_TIMEOUT');
+      throw new Error(signal?.aborted ? 'PARSE_CANCELLED' : 'PDF_FETCH_TIMEOUT');
     }
     throw err;
   } finally {
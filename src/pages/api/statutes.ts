@@ -0,0 +1,132 @@
+import type { APIRoute } from 'astro';
+import { getCached, setCache } from '../../lib/s3cache';
+
+export const prerender = false;
+
+interface StatuteResult {
+  title: string;
+  enactedDate: string;
+  sourceUrl: string;
+}
+
+/** Resolve a govinfo link-service URL to the PDF it redirects to. */
+async function resolveLink(linkUrl: string): Promise<string | null> {
+  try {
+    const res = await fetch(linkUrl, { redirect: 'manual' });
+    const location = res.headers.get('location');
+    if (location && res.status >= 300 && res.status < 400) return location;
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/**
+ * Popular name (or, failing that, the long title) and enactment date from the
+ * package or granule MODS record.
+ */
+async function fetchMetadata(modsUrl: string): Promise<{ title: string; enactedDate: string }> {
+  let xml = '';
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 10_000);
+    const res = await fetch(modsUrl, { redirect: 'manual', signal: controller.signal });
+    clearTimeout(timeout);
+    if (res.status === 200) xml = await res.text();
+  } catch {
+    // metadata is optional; the link still works without it
+  }
+
+  const shortTitle = xml.match(/<shortTitle[^>]*>([^<]+)<\/shortTitle>/);
+  const longTitle = xml.match(/<titleInfo>\s*<title>([^<]+)<\/title>/);
+  const dateMatch = xml.match(/<dateIssued[^>]*>(\d{4}-\d{2}-\d{2})<\/dateIssued>/);
+  return {
+    title: (shortTitle?.[1] ?? longTitle?.[1] ?? '').trim(),
+    enactedDate: dateMatch
+      ? new Date(dateMatch[1] + 'T12:00:00Z').toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        })
+      : '',
+  };
+}
+
+/** "136 Stat. 1818" → the law's granule in the STATUTE collection, opened at the cited page. */
+async function fetchStatute(volume: number, page: number, pinpoint: number): Promise<StatuteResult | null> {
+  // location: https://www.govinfo.gov/content/pkg/STATUTE-136/pdf/STATUTE-136-Pg1818.pdf
+  const location = await resolveLink(`https://www.govinfo.gov/link/statute/${volume}/${page}?link-type=pdf`);
+  const granule = location?.match(/(STATUTE-\d+)-Pg(\d+)/);
+  if (!location || !granule) return null;
+
+  const { title, enactedDate } = await fetchMetadata(
+    `https://www.govinfo.gov/metadata/granule/${granule[1]}/${granule[0]}/mods.xml`
+  );
+  // The granule PDF starts at the law's first page, so the pinpoint is an offset into it
+  const pdfPage = Math.max(1, pinpoint - parseInt(granule[2]) + 1);
+  return { title, enactedDate, sourceUrl: `${location.replace(/#.*$/, '')}#page=${pdfPage}` };
+}
+
+/** "Pub. L. 117–169" → the slip law in the PLAW collection (104th Congress onward). */
+async function fetchPublicLaw(congress: number, number: number): Promise<StatuteResult | null> {
+  // location: https://www.govinfo.gov/content/pkg/PLAW-117publ169/pdf/PLAW-117publ169.pdf
+  const location = await resolveLink(`https://www.govinfo.gov/link/plaw/${congress}/public/${number}?link-type=pdf`);
+  const pkg = location?.match(/PLAW-\d+publ\d+/);
+  if (!location || !pkg) return null;
+
+  const { title, enactedDate } = await fetchMetadata(`https://www.govinfo.gov/metadata/pkg/${pkg[0]}/mods.xml`);
+  return { title, enactedDate, sourceUrl: location };
+}
+
+export const GET: APIRoute = async ({ request }) => {
+  const url = new URL(request.url);
+  const kind = url.searchParams.get('kind');
+  const firstParam = url.searchParams.get(kind === 'pl' ? 'congress' : 'volume');
+  const secondParam = url.searchParams.get(kind === 'pl' ? 'number' : 'page');
+
+  if ((kind !== 'stat' && kind !== 'pl') || !firstParam || !secondParam) {
+    return new Response(JSON.stringify({ error: 'Missing params' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const first = parseInt(firstParam);
+  const second = parseInt(secondParam);
+  const pinpoint = parseInt(url.searchParams.get('pinpoint') ?? secondParam);
+
+  if (isNaN(first) || isNaN(second) || isNaN(pinpoint) || pinpoint < second) {
+    return new Response(JSON.stringify({ error: 'Invalid params' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const cacheKey = kind === 'stat'
+    ? `stat-v1:${first}:${second}:${pinpoint}`
+    : `pl-v1:${first}:${second}`;
+
+  const cached = await getCached<StatuteResult>(cacheKey);
+  if (cached) {
+    return new Response(JSON.stringify(cached), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=86400' },
+    });
+  }
+
+  const result = kind === 'stat'
+    ? await fetchStatute(first, second, pinpoint)
+    : await fetchPublicLaw(first, second);
+
+  if (!result) {
+    return new Response(JSON.stringify({ error: 'not_found' }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Cache for 30 days
+  await setCache(cacheKey, result, 30 * 24 * 60 * 60);
+
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=86400' },
+  });
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { findParagraph, parseAnchorFragment, textHash } from '../src/lib/anchors';
+import { markersToSpans } from '../src/lib/spans';
+import type { Chapter } from '../src/lib/types';
+import { chapter as makeChapter, paragraph } from './factories';
+
+// makeChapter anchors its paragraphs with anchorParagraphs
+function chapter(id: string, paras: [string, number[]][]): Chapter {
+  const paragraphs = paras.map(([text, pages]) => paragraph(text, { pages }));
+  return makeChapter(id, paragraphs, { kind: 'dissent', author: 'Thomas', role: 'dissenting' });
+}
+
+describe('anchorParagraphs', () => {
+  it('numbers paragraphs by the printed page they start on', () => {
+    const ch = chapter('dissenting-thomas', [['A.', [13]], ['B.', [13, 14]], ['C.', [14]], ['D.', [14]]]);
+    expect(ch.paragraphs.map((p) => p.anchor)).toEqual(['p-13-1', 'p-13-2', 'p-14-1', 'p-14-2']);
+    expect(chapter('order', [['A.', []], ['B.', []]]).paragraphs.map((p) => p.anchor)).toEqual(['p-1', 'p-2']);
+  });
+});
+
+describe('textHash', () => {
+  it('ignores spacing, punctuation, emphasis and footnote numbers', () => {
+    const hash = (text: string) => textHash({ spans: markersToSpans(text) });
+    expect(hash('The Court  holds, that{{fn:3}} it is so.')).toBe(hash('The court holds that it is so'));
+    expect(hash('The Court holds that it is so.')).not.toBe(hash('The Court holds that it is not so.'));
+  });
+});
+
+describe('parseAnchorFragment', () => {
+  it('reads a chapter and paragraph anchor', () => {
+    expect(parseAnchorFragment('#dissenting-thomas/p-14-3')).toEqual({ chapterId: 'dissenting-thomas', anchor: 'p-14-3' });
+    expect(parseAnchorFragment('order/p-2')).toEqual({ chapterId: 'order', anchor: 'p-2' });
+    expect(parseAnchorFragment('#dissenting-thomas')).toBeNull();
+  });
+});
+
+describe('findParagraph', () => {
+  const before = chapter('dissenting-thomas', [['A.', [13]], ['B.', [14]], ['C.', [14]], ['D.', [14]]]);
+
+  it('finds a paragraph by anchor', () => {
+    expect(findParagraph([before], { chapterId: 'dissenting-thomas', anchor: 'p-14-2' })).toBe(2);
+    expect(findParagraph([before], { chapterId: 'concurring-alito', anchor: 'p-14-2' })).toBeNull();
+  });
+
+  it('follows the text when a re-parse moves its anchor', () => {
+    const saved = { chapterId: 'dissenting-thomas', anchor: 'p-14-2', textHash: before.paragraphs[2].textHash };
+    // "B." was split in two, so "C." is now the third paragraph on page 14
+    const after = chapter('dissenting-thomas', [['A.', [13]], ['B1.', [14]], ['B2.', [14]], ['C.', [14]], ['D.', [14]]]);
+    expect(findParagraph([after], saved)).toBe(3);
+  });
+
+  it('falls back to the anchor, then to the page, when the text changed', () => {
+    const after = chapter('dissenting-thomas', [['A.', [13]], ['B.', [14]], ['C, fixed.', [14]]]);
+    const saved = { chapterId: 'dissenting-thomas', anchor: 'p-14-2', textHash: before.paragraphs[2].textHash };
+    expect(findParagraph([after], saved)).toBe(2);
+    expect(findParagraph([after], { chapterId: 'dissenting-thomas', anchor: 'p-14-3' })).toBe(2);
+    const merged = chapter('dissenting-thomas', [['A.', [13, 14]], ['D.', [15]]]);
+    expect(findParagraph([merged], { chapterId: 'dissenting-thomas', anchor: 'p-14-1' })).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { romanToArabic, getProvision, isConstitutionProvision, provisionTitle } from '../src/lib/constitution';
+
+describe('romanToArabic', () => {
+  it('converts amendment numerals', () => {
+    expect(romanToArabic('I')).toBe('1');
+    expect(romanToArabic('XIV')).toBe('14');
+    expect(romanToArabic('XXVII')).toBe('27');
+  });
+
+  it('leaves Arabic numbers alone', () => {
+    expect(romanToArabic('14')).toBe('14');
+  });
+});
+
+describe('isConstitutionProvision', () => {
+  it('accepts cited articles, sections and clauses that exist', () => {
+    expect(isConstitutionProvision('article', 'I', '8', '18')).toBe(true);
+    expect(isConstitutionProvision('article', 'VI', '', '2')).toBe(true);
+    expect(isConstitutionProvision('amendment', '14', '5', '')).toBe(true);
+  });
+
+  it('rejects sections and clauses the Constitution does not have', () => {
+    expect(isConstitutionProvision('article', 'I', '8', '19')).toBe(false);
+    expect(isConstitutionProvision('article', 'VIII', '', '')).toBe(false);
+    expect(isConstitutionProvision('article', 'I', '', '3')).toBe(false);
+    expect(isConstitutionProvision('amendment', '1', '2', '')).toBe(false);
+  });
+});
+
+describe('constitution data', () => {
+  it('has the text of the cited clause', () => {
+    const commerce = getProvision('article', 'I')!.sections.find((s) => s.number === '8')!.clauses[2];
+    expect(commerce).toMatch(/^To regulate Commerce with foreign Nations/);
+    expect(getProvision('amendment', '27')?.ratified).toBe(1992);
+  });
+});
+
+describe('provisionTitle', () => {
+  it('names articles and amendments', () => {
+    expect(provisionTitle('article', 'III')).toBe('Article III');
+    expect(provisionTitle('amendment', '19')).toBe('Amendment XIX');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { describeCourt, courtListenerUrl, lowerCourtId } from '../src/lib/courts';
+
+describe('describeCourt', () => {
+  it('expands numbered circuits', () => {
+    expect(describeCourt('CA9', 'F.4th')).toBe('U.S. Court of Appeals for the Ninth Circuit');
+    expect(describeCourt('CA11', 'F.3d')).toBe('U.S. Court of Appeals for the Eleventh Circuit');
+  });
+
+  it('expands the D.C. and Federal Circuits', () => {
+    expect(describeCourt('CADC', 'F.4th')).toBe('U.S. Court of Appeals for the D.C. Circuit');
+    expect(describeCourt('CA Fed.', 'F.4th')).toBe('U.S. Court of Appeals for the Federal Circuit');
+  });
+
+  it('expands district courts', () => {
+    expect(describeCourt('SDNY', 'F. Supp. 3d')).toBe('U.S. District Court for the Southern District of New York');
+    expect(describeCourt('ND Cal.', 'F. Supp. 3d')).toBe('U.S. District Court for the Northern District of California');
+    expect(describeCourt('D. Mass.', 'F. Supp. 2d')).toBe('U.S. District Court for the District of Massachusetts');
+    expect(describeCourt('DC', 'F. Supp. 2d')).toBe('U.S. District Court for the District of Columbia');
+  });
+
+  it('infers the court from the reporter when the parenthetical has none', () => {
+    expect(describeCourt('', 'S. Ct.')).toBe('Supreme Court of the United States');
+    expect(describeCourt('', 'F. Supp.')).toBe('U.S. District Court');
+  });
+
+  it('falls back to the abbreviation when unrecognized', () => {
+    expect(describeCourt('Tex. App.', 'S. W. 3d')).toBe('Tex. App.');
+  });
+});
+
+describe('courtListenerUrl', () => {
+  it('encodes reporters containing spaces', () => {
+    expect(courtListenerUrl('F. Supp. 2d', '500', '20')).toBe('https://www.courtlistener.com/c/F.%20Supp.%202d/500/20/');
+  });
+});
+
+describe('lowerCourtId', () => {
+  it('abbreviates federal courts of appeals', () => {
+    expect(lowerCourtId('United States Court of Appeals for the Fifth Circuit')).toBe('CA5');
+    expect(lowerCourtId('United States Court of Appeals for the District of Columbia Circuit')).toBe('CADC');
+    expect(lowerCourtId('United States Court of Appeals for the Federal Circuit')).toBe('CAFC');
+  });
+
+  it('abbreviates district courts so describeCourt reads them back', () => {
+    for (const name of [
+      'United States District Court for the Northern District of Texas',
+      'United States District Court for the Southern District of New York',
+      'United States District Court for the District of Massachusetts',
+    ]) {
+      expect(describeCourt(lowerCourtId(name), '')).toBe(name.replace('United States', 'U.S.'));
+    }
+  });
+
+  it('abbreviates state courts by level', () => {
+    expect(lowerCourtId('Supreme Court of Ohio')).toBe('Ohio');
+    expect(lowerCourtId('Court of Appeal of Louisiana, First Circuit')).toBe('La. App.');
+    expect(lowerCourtId('Court of Criminal Appeals of Texas')).toBe('Tex. Crim. App.');
+    expect(lowerCourtId('Court of Appeals of New York')).toBe('N. Y.');
+    expect(lowerCourtId('Supreme Court of Appeals of West Virginia')).toBe('W. Va.');
+  });
+
+  it('is empty for an unrecognized court', () => {
+    expect(lowerCourtId('Tax Court')).toBe('');
+    expect(lowerCourtId('')).toBe('');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { refCandidates, resolvePageRef, resolvePartRef, headingPaths } from '../src/lib/crossrefs';
+import { markersToSpans } from '../src/lib/spans';
+import type { Chapter, InlineSpan } from '../src/lib/types';
+import { chapter as makeChapter, paragraph } from './factories';
+
+function chapter(id: string, author: string | null, paras: [string, number[]][]): Chapter {
+  return makeChapter(id, paras.map(([text, pages]) => paragraph(text, { pages })), { author });
+}
+
+function ref<T extends 'ref' | 'part'>(text: string): Extract<InlineSpan, { type: T }> {
+  return markersToSpans(text)[0] as Extract<InlineSpan, { type: T }>;
+}
+
+// Slip opinion: each writing is paginated from 1
+const chapters = [
+  chapter('syllabus', null, [['Held: the statute applies.', [1, 2]]]),
+  chapter('opinion-majority', 'Roberts', [
+    ['{{h1:I}}', [1]], ['Facts.', [1, 2]],
+    ['{{h1:II}}', [3]], ['{{h2:A}}', [3]], ['Text.', [3, 4]], ['{{h2:B}}', [5]], ['{{h3:1}}', [5]], ['More.', [5, 6]],
+  ]),
+  chapter('concurring-barrett', 'Barrett', [['I join.', [1, 2]]]),
+  chapter('dissenting-sotomayor', 'Sotomayor', [['{{h1:I}}', [1]], ['Dissent.', [1, 2, 3]], ['{{h1:II}}', [4]], ['More.', [4]]]),
+  chapter('dissenting-jackson', 'Jackson', [['Dissent.', [1, 2, 3, 4, 5]]]),
+];
+
+describe('refCandidates', () => {
+  it('keeps supra/infra in the current opinion', () => {
+    expect(refCandidates(chapters, 'dissenting-sotomayor', 'infra', '', '').map(c => c.id)).toEqual(['dissenting-sotomayor']);
+  });
+
+  it('tries the opinion of the Court first for ante', () => {
+    expect(refCandidates(chapters, 'dissenting-jackson', 'ante', '', '').map(c => c.id)).toEqual([
+      'opinion-majority', 'dissenting-sotomayor', 'concurring-barrett', 'dissenting-jackson',
+    ]);
+  });
+
+  it('follows a parenthetical naming the opinion', () => {
+    expect(refCandidates(chapters, 'opinion-majority', 'post', 'JACKSON', 'dissenting').map(c => c.id)).toEqual(['dissenting-jackson']);
+    expect(refCandidates(chapters, 'dissenting-jackson', 'ante', '', 'court').map(c => c.id)).toEqual(['opinion-majority']);
+  });
+});
+
+describe('resolvePageRef', () => {
+  it('finds the page in the opinion of the Court for ante', () => {
+    expect(resolvePageRef(chapters, 'dissenting-jackson', ref<'ref'>('{{ref:ante:4::::ante, at 4}}')))
+      .toEqual({ chapterId: 'opinion-majority', page: 4 });
+  });
+
+  it('takes the nearest following opinion with the page for post', () => {
+    expect(resolvePageRef(chapters, 'opinion-majority', ref<'ref'>('{{ref:post:3::::post, at 3}}')))
+      .toEqual({ chapterId: 'dissenting-sotomayor', page: 3 });
+  });
+
+  it('uses the named opinion over the nearest one', () => {
+    expect(resolvePageRef(chapters, 'opinion-majority', ref<'ref'>('{{ref:post:2:3:JACKSON:dissenting:post, at 2–3}}')))
+      .toEqual({ chapterId: 'dissenting-jackson', page: 2 });
+  });
+
+  it('falls back to the start of a named opinion without page numbers', () => {
+    const unpaged = chapters.map(c => ({ ...c, paragraphs: c.paragraphs.map(p => ({ ...p, pages: [] })) }));
+    expect(resolvePageRef(unpaged, 'opinion-majority', ref<'ref'>('{{ref:post:2::SOTOMAYOR:dissenting:post, at 2}}')))
+      .toEqual({ chapterId: 'dissenting-sotomayor', page: null });
+    expect(resolvePageRef(unpaged, 'opinion-majority', ref<'ref'>('{{ref:post:2::::post, at 2}}'))).toBeNull();
+  });
+});
+
+describe('resolvePartRef', () => {
+  it('builds heading paths from h1–h3 markers', () => {
+    expect([...headingPaths(chapters[1]).values()]).toEqual(['I', 'II', 'II–A', 'II–B', 'II–B–1']);
+  });
+
+  it('resolves supra/infra against the current opinion', () => {
+    expect(resolvePartRef(chapters, 'opinion-majority', ref<'part'>('{{part:II–B–1:supra:::Part II–B–1, supra}}')))
+      .toEqual({ chapterId: 'opinion-majority', paragraphIndex: 6 });
+    expect(resolvePartRef(chapters, 'dissenting-sotomayor', ref<'part'>('{{part:II:infra:::Part II, infra}}')))
+      .toEqual({ chapterId: 'dissenting-sotomayor', paragraphIndex: 2 });
+  });
+
+  it('resolves ante against the opinion of the Court', () => {
+    expect(resolvePartRef(chapters, 'dissenting-sotomayor', ref<'part'>('{{part:II–A:ante:::ante, Part II–A}}')))
+      .toEqual({ chapterId: 'opinion-majority', paragraphIndex: 3 });
+  });
+
+  it('returns null for a Part the opinion does not have', () => {
+    expect(resolvePartRef(chapters, 'opinion-majority', ref<'part'>('{{part:IV:infra:::Part IV, infra}}'))).toBeNull();
+  });
+});
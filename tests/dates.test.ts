@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { extractProceduralDates } from '../src/lib/dates';
+
+describe('extractProceduralDates', () => {
+  it('reads the syllabus argued and decided line', () => {
+    expect(extractProceduralDates('No. 23–939. Argued April 25, 2024—Decided July 1, 2024')).toEqual({
+      argued: '2024-04-25', reargued: '', decided: '2024-07-01',
+    });
+  });
+
+  it('reads a reargument', () => {
+    expect(extractProceduralDates('Argued March 1, 2022—Reargued October 3, 2022—Decided June 30, 2023')).toEqual({
+      argued: '2022-03-01', reargued: '2022-10-03', decided: '2023-06-30',
+    });
+  });
+
+  it('keeps the first day of a two-day argument', () => {
+    expect(extractProceduralDates('Argued February 28 and March 1, 2023—Decided June 30, 2023').argued).toBe('2023-02-28');
+    expect(extractProceduralDates('Argued Dec. 1–2, 1952—Decided May 17, 1954').argued).toBe('1952-12-01');
+  });
+
+  it('falls back to the bracketed date under the caption', () => {
+    expect(extractProceduralDates('ON WRIT OF CERTIORARI ... [January 9, 2026]').decided).toBe('2026-01-09');
+  });
+
+  it('is empty when nothing is printed', () => {
+    expect(extractProceduralDates('No date here')).toEqual({ argued: '', reargued: '', decided: '' });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseOpinion } from '../src/lib/diagnostics';
+import { markersToSpans } from '../src/lib/spans';
+import type { Chapter, ChapterKind } from '../src/lib/types';
+import { chapter as makeChapter } from './factories';
+
+function chapter(id: string, kind: ChapterKind, author: string | null, texts: string[], notes: number[] = []): Chapter {
+  return makeChapter(id, texts, {
+    kind, author,
+    footnotes: notes.map((id) => ({ id, text: 'Note.', spans: markersToSpans('Note.') })),
+  });
+}
+
+const caption = '{{bp:SUPREME COURT OF THE UNITED STATES}}';
+const delivery = '{{bpj:JUSTICE KAGAN delivered the opinion of the Court.}}';
+
+describe('diagnoseOpinion', () => {
+  it('finds nothing wrong with a well-formed opinion', () => {
+    expect(diagnoseOpinion({ chapters: [
+      chapter('syllabus', 'syllabus', null, [caption, 'Held: affirmed.']),
+      chapter('opinion-majority', 'majority', 'Kagan', [caption, delivery, 'Text.{{fn:1}} More.{{fn:2}}'], [1, 2]),
+      chapter('opinion-per-curiam', 'per-curiam', null, ['{{bpj:PER CURIAM.}}', 'Text.']),
+    ] })).toEqual({ warnings: [], repairs: [], confidence: 1 });
+  });
+
+  it('flags references without notes and skipped note numbers', () => {
+    const { warnings } = diagnoseOpinion({ chapters: [
+      chapter('dissenting-thomas', 'dissent', 'Thomas', [delivery, 'A.{{fn:1}} B.{{fn:4}} C.{{fn:5}}'], [1, 2, 5]),
+    ] });
+    expect(warnings.map((w) => [w.code, w.message])).toEqual([
+      ['orphan-footnote-ref', 'Footnote 4 is referenced but its note was not found'],
+      ['skipped-footnote', 'No footnote 3, though notes run from 1 to 5'],
+    ]);
+  });
+
+  it('flags unsigned writings and captions that never reach a delivery line', () => {
+    const { warnings, confidence } = diagnoseOpinion({ chapters: [
+      chapter('concurring-barrett', 'concurrence', null, [caption, 'All of the opinion, read as caption.']),
+    ] });
+    expect(warnings.map((w) => w.code)).toEqual(['missing-author', 'unclosed-boilerplate']);
+    expect(confidence).toBe(0.75);
+  });
+
+  it('flags a document with no recognized sections', () => {
+    const { warnings, confidence } = diagnoseOpinion({ chapters: [chapter('opinion', 'other', null, ['Text.'])] });
+    expect(warnings.map((w) => w.code)).toEqual(['no-sections']);
+    expect(confidence).toBe(0.7);
+  });
+});
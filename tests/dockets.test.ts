@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { extractDockets } from '../src/lib/dockets';
+import type { Chapter } from '../src/lib/types';
+import { chapter as makeChapter } from './factories';
+
+function chapter(id: string, boilerplate: string[], body: string[] = ['The opinion.']): Chapter {
+  return makeChapter(id, [...boilerplate.map((text) => `{{bp:${text}}}`), '{{bpj:JUSTICE ALITO delivered the opinion of the Court.}}', ...body]);
+}
+
+const HEADER = 'SUPREME COURT OF THE UNITED STATES _________________';
+
+describe('extractDockets', () => {
+  it('reads a single slip opinion caption under its number', () => {
+    expect(extractDockets([chapter('opinion-majority', [
+      `${HEADER} No. 24–808 _________________`,
+      'CONEY ISLAND AUTO PARTS UNLIMITED, INC.,',
+      'PETITIONER v. JEANNE ANN BURTON,',
+      'CHAPTER 7 TRUSTEE ON WRIT OF CERTIORARI TO THE UNITED STATES COURT OF APPEALS FOR THE SIXTH CIRCUIT [January 20, 2026]',
+    ])])).toEqual([{
+      number: '24-808',
+      caption: 'CONEY ISLAND AUTO PARTS UNLIMITED, INC. v. JEANNE ANN BURTON, CHAPTER 7 TRUSTEE',
+      lowerCourt: 'United States Court of Appeals for the Sixth Circuit',
+      lowerCourtId: 'CA6',
+    }]);
+  });
+
+  it('splits consolidated captions at the line ending each court', () => {
+    const dockets = extractDockets([chapter('opinion-majority', [
+      `${HEADER} Nos. 23–719, 23–720, and 23–721 _________________`,
+      'ACME CORP., PETITIONER 23–719 v. SMITH ON WRIT OF CERTIORARI TO THE SUPREME COURT OF OHIO',
+      'JONES, ET AL., PETITIONERS 23–720 v. SMITH ON WRIT OF CERTIORARI TO THE SAME COURT',
+      'OHIO, PETITIONER 23–721 v.',
+      'SMITH ON WRIT OF CERTIORARI TO THE UNITED STATES COURT OF APPEALS FOR THE SIXTH CIRCUIT [June 1, 2024]',
+    ])]);
+    expect(dockets.map((d) => [d.number, d.caption, d.lowerCourt])).toEqual([
+      ['23-719', 'ACME CORP. v. SMITH', 'Supreme Court of Ohio'],
+      ['23-720', 'JONES, et al. v. SMITH', 'Supreme Court of Ohio'],
+      ['23-721', 'OHIO v. SMITH', 'United States Court of Appeals for the Sixth Circuit'],
+    ]);
+    expect(dockets.map((d) => d.lowerCourtId)).toEqual(['Ohio', 'Ohio', 'CA6']);
+  });
+
+  it('keeps listed numbers whose caption was not found', () => {
+    const dockets = extractDockets([chapter('opinion-majority', [`${HEADER} Nos. 24–1287 and 25– 250 _________________`])]);
+    expect(dockets.map((d) => d.number)).toEqual(['24-1287', '25-250']);
+    expect(dockets[1]).toEqual({ number: '25-250', caption: '', lowerCourt: '', lowerCourtId: '' });
+  });
+
+  it('reads a preliminary print caption set above the number', () => {
+    expect(extractDockets([
+      chapter('syllabus', ['KEMP v. UNITED STATES certiorari to the united states court of appeals for the eleventh circuit No. 21–5726. Argued April 19, 2022—Decided June 13, 2022']),
+      chapter('opinion-majority', []),
+    ])).toEqual([{
+      number: '21-5726', caption: 'KEMP v. UNITED STATES',
+      lowerCourt: 'United States Court of Appeals for the Eleventh Circuit', lowerCourtId: 'CA11',
+    }]);
+  });
+
+  it('adds the cases the syllabus footnotes as decided together', () => {
+    const syllabus = chapter('syllabus', [
+      `SUPREME COURT OF THE UNITED STATES ALPHA v. BETA CERTIORARI TO THE UNITED STATES COURT OF APPEALS FOR THE NINTH CIRCUIT * No. 22–10. Argued`,
+    ], ['*Together with No. 22–11, Gamma v. Beta, also on certiorari to the same court.']);
+    expect(extractDockets([syllabus, chapter('opinion-majority', [])]).map((d) => [d.number, d.caption, d.lowerCourtId])).toEqual([
+      ['22-10', 'ALPHA v. BETA', 'CA9'],
+      ['22-11', 'Gamma v. Beta', 'CA9'],
+    ]);
+  });
+
+  it('returns nothing without a caption or number', () => {
+    expect(extractDockets([chapter('opinion', [])])).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { anchorParagraphs } from '../src/lib/anchors';
+import { markersToSpans } from '../src/lib/spans';
+import type { Chapter, Paragraph } from '../src/lib/types';
+
+/**
+ * Opinion parts for tests, built from marked text with every other field defaulted, so a
+ * new field on Paragraph or Chapter is filled in here rather than in each test file.
+ */
+
+/** A paragraph of marked text: boilerplate when it opens with a `{{bp…}}` marker, else body */
+export function paragraph(text: string, fields: Partial<Paragraph> = {}): Paragraph {
+  return {
+    text,
+    spans: markersToSpans(text),
+    kind: text.startsWith('{{bp') ? 'boilerplate' : 'body',
+    pages: [],
+    anchor: '',
+    textHash: '',
+    footnotes: [],
+    ...fields,
+  };
+}
+
+/** A chapter of `paragraphs`, given as marked text or as built paragraphs, anchored as the parser does */
+export function chapter(
+  id: string,
+  paragraphs: (string | Paragraph)[] = [],
+  fields: Partial<Omit<Chapter, 'id' | 'paragraphs'>> = {},
+): Chapter {
+  const paras = paragraphs.map((p) => (typeof p === 'string' ? paragraph(p) : p));
+  anchorParagraphs(paras);
+  return { id, title: id, kind: 'other', author: null, role: '', joinedBy: [], paragraphs: paras, footnotes: [], ...fields };
+}
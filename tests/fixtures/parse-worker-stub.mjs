@@ -0,0 +1,39 @@
+// Stands in for src/lib/parse-worker.ts in tests/parse-pool.test.ts: the same protocol,
+// with the behaviour named by `sourceUrl`.
+import { parentPort, workerData } from 'node:worker_threads';
+
+const { pdf, sourceUrl, cancelFlag } = workerData;
+const flag = new Int32Array(cancelFlag);
+const post = (message) => parentPort.postMessage(message);
+const chapter = (id) => ({ id, title: id, kind: 'other', author: null, role: '', joinedBy: [], paragraphs: [], footnotes: [] });
+
+function spin(ms) {
+  const end = Date.now() + ms;
+  while (Date.now() < end);
+}
+
+switch (sourceUrl) {
+  case 'chapters':
+    post({ type: 'chapter', chapter: chapter('syllabus') });
+    post({ type: 'chapter', chapter: chapter('opinion-majority') });
+    post({ type: 'done', opinion: { sourceUrl, pdfBytes: pdf.byteLength, chapters: [chapter('syllabus'), chapter('opinion-majority')] } });
+    break;
+  case 'pages':
+    // Checks the flag between pages, as parsePdf does
+    for (;;) {
+      if (Atomics.load(flag, 0) === 1) {
+        post({ type: 'error', message: 'PARSE_CANCELLED' });
+        break;
+      }
+      spin(10);
+    }
+    break;
+  case 'stuck':
+    for (;;) spin(1000);
+  case 'oom': {
+    const hoard = [];
+    for (;;) hoard.push(new Array(1e5).fill({}));
+  }
+  default:
+    post({ type: 'error', message: 'Failed to read PDF' });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileChapterFootnotes, reconcilePageFootnotes, type NotedPage } from '../src/lib/footnotes';
+
+function page(id: string | null, bodyLines: string[], notes: [number, string][] = [], footnoteContinuation = ''): NotedPage {
+  return { sectionHeader: id ? { id } : null, bodyLines, footnotes: new Map(notes), footnoteContinuation };
+}
+
+describe('reconcilePageFootnotes', () => {
+  it('moves notes read as body text back to the page notes', () => {
+    const pages = [page('opinion-majority', [
+      '{{pg:532}}',
+      'a question of law.{{fn:1}} The Court of Appeals',
+      'affirmed.',
+      '{{fn:1}} Compare Spinar v. South Dakota Bd. of Regents,',
+      '796 F.2d 1060 (CA8 1986).',
+    ])];
+    const repairs = reconcilePageFootnotes(pages);
+    expect(pages[0].bodyLines).toEqual(['{{pg:532}}', 'a question of law.{{fn:1}} The Court of Appeals', 'affirmed.']);
+    expect(pages[0].footnotes.get(1)).toBe('Compare Spinar v. South Dakota Bd. of Regents, 796 F.2d 1060 (CA8 1986).');
+    expect(repairs).toEqual([{
+      code: 'leaked-footnote', chapterId: 'opinion-majority', footnote: 1, page: 532,
+      message: 'Footnote 1 was read as body text and moved to the notes',
+    }]);
+  });
+
+  it('reads plain note numbers under a stray separator rule', () => {
+    const pages = [page('dissenting-gorsuch', ['Text.{{fn:3}} More text.', '———', '3 See ibid.', '4 Id., at 9.'], [[4, 'Id., at 9.']])];
+    const repairs = reconcilePageFootnotes(pages);
+    expect(pages[0].bodyLines).toEqual(['Text.{{fn:3}} More text.']);
+    expect([...pages[0].footnotes]).toEqual([[4, 'Id., at 9.'], [3, 'See ibid.']]);
+    expect(repairs.map((r) => r.footnote)).toEqual([3]);
+  });
+
+  it('leaves a first reference at the start of a line in the body', () => {
+    const pages = [page('opinion-majority', ['Text.', '{{fn:2}} and more text.'], [[2, 'Note.']])];
+    expect(reconcilePageFootnotes(pages)).toEqual([]);
+    expect(pages[0].bodyLines).toHaveLength(2);
+  });
+
+  it("returns run-on text on a writing's first page to the writing before", () => {
+    const pages = [
+      page('opinion-majority', ['A.{{fn:1}} B.{{fn:2}}'], [[1, 'One.'], [2, 'Two, continued']]),
+      page('concurring-thomas', ['{{pg:10}}', 'JUSTICE THOMAS, concurring.', 'C.{{fn:1}}'], [[1, 'Thomas one,']], 'on the next page.'),
+      page(null, ['D.'], [], 'continued.'),
+    ];
+    const repairs = reconcilePageFootnotes(pages);
+    expect(pages[0].footnotes.get(2)).toBe('Two, continued on the next page.');
+    expect(pages[1].footnoteContinuation).toBe('');
+    // Once the writing has notes of its own, run-on text is its own
+    expect(pages[2].footnoteContinuation).toBe('continued.');
+    expect(repairs.map((r) => [r.code, r.chapterId, r.footnote, r.page])).toEqual([
+      ['footnote-continuation', 'opinion-majority', 2, 10],
+    ]);
+  });
+});
+
+describe('reconcileChapterFootnotes', () => {
+  it('gives a note to the chapter that references it', () => {
+    const chapters = [
+      { header: { id: 'opinion-majority' }, text: 'A.{{fn:1}}', footnotes: new Map([[1, 'One.'], [2, 'Sotomayor two.']]) },
+      { header: { id: 'concurring-sotomayor' }, text: 'B.{{fn:2}}', footnotes: new Map<number, string>() },
+    ];
+    const repairs = reconcileChapterFootnotes(chapters);
+    expect([...chapters[0].footnotes.keys()]).toEqual([1]);
+    expect(chapters[1].footnotes.get(2)).toBe('Sotomayor two.');
+    expect(repairs).toEqual([{
+      code: 'moved-footnote', chapterId: 'concurring-sotomayor', footnote: 2, page: null,
+      message: 'Footnote 2 was filed under opinion-majority and moved to the writing that references it',
+    }]);
+  });
+
+  it('leaves notes their own chapter references', () => {
+    const chapters = [
+      { header: { id: 'opinion-majority' }, text: 'A.{{fn:1}}', footnotes: new Map([[1, 'One.']]) },
+      { header: { id: 'dissenting-alito' }, text: 'B.{{fn:1}}', footnotes: new Map<number, string>() },
+    ];
+    expect(reconcileChapterFootnotes(chapters)).toEqual([]);
+    expect(chapters[0].footnotes.get(1)).toBe('One.');
+  });
+});
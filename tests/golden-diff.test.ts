@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffSnapshots, formatDiff, inlineChange, type GoldenSnapshot } from '../scripts/golden-diff';
+
+function snapshot(chapters: [string, string[]][]): GoldenSnapshot {
+  return {
+    source: 'test.pdf',
+    opinion: ['caseTitle: A v. B'],
+    holdings: [],
+    chapters: chapters.map(([id, paragraphs]) => ({ id, heading: id, paragraphs, footnotes: [] })),
+  };
+}
+
+describe('diffLines', () => {
+  it('reads a removed line followed by an added one as a change', () => {
+    expect(diffLines(['a', 'b', 'c', 'd'], ['a', 'B', 'c', 'd', 'e'])).toEqual([
+      { kind: 'changed', at: 2, before: 'b', after: 'B' },
+      { kind: 'added', at: 5, text: 'e' },
+    ]);
+  });
+
+  it('numbers removed lines as they were', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c'])).toEqual([{ kind: 'removed', at: 2, text: 'b' }]);
+    expect(diffLines(['a'], ['a'])).toEqual([]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('diffs chapters by id, and reports chapters gained or lost', () => {
+    const before = snapshot([['syllabus', ['s1']], ['opinion-majority', ['p1', 'p2']], ['dissenting-alito', ['d1']]]);
+    const after = snapshot([['syllabus', ['s1']], ['opinion-majority', ['p1', 'p2 split', 'p3']], ['dissenting-thomas', ['d1']]]);
+    const diffs = diffSnapshots(before, after);
+    expect(diffs.map((d) => [d.section, d.status])).toEqual([
+      ['opinion-majority paragraphs', undefined],
+      ['dissenting-thomas', 'added'],
+      ['dissenting-thomas paragraphs', 'added'],
+      ['dissenting-alito', 'removed'],
+      ['dissenting-alito paragraphs', 'removed'],
+    ]);
+    expect(formatDiff(diffs.slice(0, 1))).toBe([
+      '  opinion-majority paragraphs',
+      '    ~ #2    p2{+ split+}',
+      '    + #3    p3',
+    ].join('\n'));
+  });
+});
+
+describe('inlineChange', () => {
+  it('marks whole words, with the context around them', () => {
+    expect(inlineChange('disposition: Reversed', 'disposition: Affirmed')).toBe('disposition: [-Reversed-]{+Affirmed+}');
+    const long = 'word '.repeat(30);
+    expect(inlineChange(`${long}old ${long}`, `${long}new ${long}`))
+      .toBe(`…${long.slice(-60)}[-old-]{+new+} ${long.slice(0, 59)}…`);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseDeliveryLine, parseVoteSummary, chapterKind, describeChapters } from '../src/lib/joinders';
+import type { Chapter } from '../src/lib/types';
+import { chapter as makeChapter } from './factories';
+
+function chapter(id: string, author: string | null, texts: string[]): Chapter {
+  return makeChapter(id, texts, { author });
+}
+
+describe('parseDeliveryLine', () => {
+  it('reads the author and role of the opinion of the Court', () => {
+    expect(parseDeliveryLine('JUSTICE SOTOMAYOR delivered the opinion of the Court.'))
+      .toEqual({ author: 'Sotomayor', role: 'opinion of the Court', joinedBy: [] });
+    expect(parseDeliveryLine('THE CHIEF JUSTICE delivered the opinion of the Court.')?.author).toBe('Roberts');
+    expect(parseDeliveryLine('JUSTICE ALITO announced the judgment of the Court and delivered an opinion.')?.role)
+      .toBe('plurality opinion');
+    expect(parseDeliveryLine('Per Curiam.')).toEqual({ author: null, role: 'per curiam', joinedBy: [] });
+  });
+
+  it('reads joiners, with the Parts they join', () => {
+    expect(parseDeliveryLine(
+      'JUSTICE GORSUCH, with whom JUSTICE THOMAS and JUSTICE ALITO join, and with whom JUSTICE BARRETT joins as to Part I, dissenting.'
+    )).toEqual({
+      author: 'Gorsuch', role: 'dissenting',
+      joinedBy: [{ justice: 'Thomas' }, { justice: 'Alito' }, { justice: 'Barrett', parts: ['I'] }],
+    });
+    expect(parseDeliveryLine(
+      'JUSTICE KAGAN, with whom THE CHIEF JUSTICE joins as to Parts I and II–A, concurring in part and dissenting in part.*'
+    )).toEqual({
+      author: 'Kagan', role: 'concurring in part and dissenting in part',
+      joinedBy: [{ justice: 'Roberts', parts: ['I', 'II–A'] }],
+    });
+  });
+
+  it('reads a preliminary print’s title-case line', () => {
+    expect(parseDeliveryLine('Justice Sotomayor, concurring.')).toEqual({ author: 'Sotomayor', role: 'concurring', joinedBy: [] });
+  });
+
+  it('rejects running text that happens to start with a justice', () => {
+    expect(parseDeliveryLine('JUSTICE SCALIA, in his dissent, took a different view.')).toBeNull();
+    expect(parseDeliveryLine('The Court holds that the statute applies.')).toBeNull();
+  });
+});
+
+describe('parseVoteSummary', () => {
+  it('reads each sentence of the syllabus summary', () => {
+    const summary = 'Pp. 3–12. 91 F. 4th 1173, reversed. ' +
+      'ROBERTS, C. J., delivered the opinion of the Court, in which THOMAS, ALITO, and GORSUCH, JJ., joined, and in which KAGAN, J., joined as to Parts I and II. ' +
+      'GORSUCH, J., and BARRETT, J., filed concurring opinions. ' +
+      'KAGAN, J., filed an opinion concurring in part and dissenting in part, in which SOTOMAYOR, J., joined.';
+    expect(parseVoteSummary(summary)).toEqual([
+      {
+        authors: ['Roberts'], role: 'opinion of the Court',
+        joinedBy: [{ justice: 'Thomas' }, { justice: 'Alito' }, { justice: 'Gorsuch' }, { justice: 'Kagan', parts: ['I', 'II'] }],
+      },
+      { authors: ['Gorsuch', 'Barrett'], role: 'concurring', joinedBy: [] },
+      { authors: ['Kagan'], role: 'concurring in part and dissenting in part', joinedBy: [{ justice: 'Sotomayor' }] },
+    ]);
+  });
+
+  it('gives joiners of an opinion "with respect to" some Parts those Parts', () => {
+    const [vote] = parseVoteSummary(
+      'Roberts, C. J., announced the judgment of the Court and delivered the opinion of the Court with respect to Parts I and II–B, ' +
+      'in which Sotomayor and Gorsuch, JJ., joined, and an opinion with respect to Part III, in which Gorsuch, J., joined.'
+    );
+    expect(vote.joinedBy).toEqual([{ justice: 'Sotomayor', parts: ['I', 'II–B'] }, { justice: 'Gorsuch', parts: ['I', 'II–B', 'III'] }]);
+  });
+
+  it('returns nothing without a summary', () => {
+    expect(parseVoteSummary('Held: The statute applies. Pp. 2–5.')).toEqual([]);
+  });
+});
+
+describe('chapterKind', () => {
+  it('takes the stance from the role where there is one', () => {
+    expect(chapterKind({ id: 'concurring-kagan', role: 'concurring in part and dissenting in part' })).toBe('partial-dissent');
+    expect(chapterKind({ id: 'opinion-kagan', role: 'concurring in part and concurring in the judgment' })).toBe('concurrence-in-judgment');
+    expect(chapterKind({ id: 'dissenting-thomas', role: 'dissenting in part' })).toBe('partial-dissent');
+    expect(chapterKind({ id: 'opinion-majority', role: 'plurality opinion' })).toBe('plurality');
+  });
+
+  it('falls back to the section header', () => {
+    expect(chapterKind({ id: 'dissenting-gorsuch', role: '' })).toBe('dissent');
+    expect(chapterKind({ id: 'concurring-sotomayor', role: '' })).toBe('concurrence');
+    expect(chapterKind({ id: 'opinion-per-curiam', role: '' })).toBe('per-curiam');
+    expect(chapterKind({ id: 'opinion-majority', role: '' })).toBe('majority');
+    expect(chapterKind({ id: 'statement-sotomayor', role: '' })).toBe('statement');
+    expect(chapterKind({ id: 'appendix-majority', role: '' })).toBe('appendix');
+    expect(chapterKind({ id: 'opinion-kagan', role: '' })).toBe('other');
+  });
+});
+
+describe('describeChapters', () => {
+  it('prefers the opening line and falls back to the syllabus', () => {
+    const chapters = [
+      chapter('syllabus', null, ['{{em:sc:Alito}}, J., delivered the opinion of the Court, in which {{em:sc:Roberts}}, C. J., and {{em:sc:Thomas}}, J., joined. {{em:sc:Kagan}}, J., filed a dissenting opinion, in which {{em:sc:Jackson}}, J., joined.']),
+      chapter('opinion-majority', 'Alito', ['{{bpj:JUSTICE ALITO delivered the opinion of the Court.}}', 'Text.']),
+      chapter('dissenting-kagan', 'Kagan', ['{{bpj:JUSTICE KAGAN, with whom JUSTICE JACKSON joins as to Part II, dissenting.}}', 'Text.']),
+    ];
+    describeChapters(chapters);
+    expect(chapters[0]).toMatchObject({ kind: 'syllabus', role: '', joinedBy: [] });
+    expect(chapters[1]).toMatchObject({ kind: 'majority', role: 'opinion of the Court', joinedBy: [{ justice: 'Roberts' }, { justice: 'Thomas' }] });
+    expect(chapters[2]).toMatchObject({ kind: 'dissent', role: 'dissenting', joinedBy: [{ justice: 'Jackson', parts: ['II'] }] });
+  });
+
+  it('finds the opening line and vote summary after syllabus text that ran onto the opinion', () => {
+    // 596 U. S. 528, preliminary print: the syllabus closes on the opinion's first page
+    const chapters = [
+      chapter('syllabus', null, ['Held: The term "mistake" in Rule 60(b)(1) includes a judge\'s errors of law.']),
+      chapter('opinion-majority', null, [
+        'Finally, Kemp protests that this Court\'s reading is inconsistent with the history of Rule 60(b). Pp. 536–539. 857 Fed. Appx. 573, affrmed. Thomas, J., delivered the opinion of the Court, in which Roberts, C. J., and Breyer, Alito, Sotomayor, Kagan, Kavanaugh, and Barrett, JJ., joined. Sotomayor, J., fled a concurring opinion, {{em:i:post}}, p. 540. Gorsuch, J., fled a dissenting opinion, post, p. 540.',
+        '{{em:i:Andrew L. Adler}} argued the cause for petitioner. With him on the briefs were {{em:i:Lisa S. Blatt}} and {{em:i:Sarah M. Harris.}}',
+        '{{em:i:Benjamin W. Snyder}} argued the cause for the United States. *',
+        'Justice Thomas delivered the opinion of the Court.',
+        'Federal Rule of Civil Procedure 60(b)(1) allows a party to seek relief from a fnal judgment.',
+      ]),
+      chapter('concurring-sotomayor', 'Sotomayor', ['Text.']),
+      chapter('dissenting-gorsuch', 'Gorsuch', ['Text.']),
+    ];
+    describeChapters(chapters);
+    expect(chapters[1]).toMatchObject({
+      kind: 'majority', author: 'Thomas', role: 'opinion of the Court',
+      joinedBy: ['Roberts', 'Breyer', 'Alito', 'Sotomayor', 'Kagan', 'Kavanaugh', 'Barrett'].map((justice) => ({ justice })),
+    });
+    expect(chapters[2]).toMatchObject({ kind: 'concurrence', role: 'concurring' });
+    expect(chapters[3]).toMatchObject({ kind: 'dissent', role: 'dissenting' });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { JUSTICES, findJustice, chiefJusticeOn, benchOn, justiceKey } from '../src/lib/justices';
+
+describe('JUSTICES', () => {
+  it('lists every Justice, once per seat held', () => {
+    expect(new Set(JUSTICES.map((j) => j.id)).size).toBe(116);
+    expect(JUSTICES.filter((j) => j.seat === 'chief')).toHaveLength(17);
+    expect(JUSTICES.filter((j) => j.id === 'william-h-rehnquist').map((j) => j.seat)).toEqual(['associate', 'chief']);
+  });
+});
+
+describe('findJustice', () => {
+  it('reads surnames however they are printed', () => {
+    expect(justiceKey('O’CONNOR')).toBe('OCONNOR');
+    expect(findJustice("O'Connor")?.fullName).toBe("Sandra Day O'Connor");
+    expect(findJustice('VANDEVANTER')?.name).toBe('Van Devanter');
+    expect(findJustice('FRANKFURTER')?.name).toBe('Frankfurter');
+    expect(findJustice('SMITH')).toBeNull();
+  });
+
+  it('tells Justices of one name apart by the decision date', () => {
+    expect(findJustice('HARLAN', '1896-05-18')?.id).toBe('john-marshall-harlan');
+    expect(findJustice('HARLAN', '1966-06-13')?.id).toBe('john-marshall-harlan-ii');
+    expect(findJustice('JACKSON', '1952-06-02')?.id).toBe('robert-h-jackson');
+    expect(findJustice('JACKSON', '2024-07-01')?.id).toBe('ketanji-brown-jackson');
+    expect(findJustice('MARSHALL', '1819-03-06')?.id).toBe('john-marshall');
+  });
+
+  it('takes the nearest service when no one of the name was sitting, the latest without a date', () => {
+    expect(findJustice('HARLAN', '1913-01-01')?.id).toBe('john-marshall-harlan');
+    expect(findJustice('JACKSON')?.id).toBe('ketanji-brown-jackson');
+  });
+});
+
+describe('chiefJusticeOn', () => {
+  it('names the Chief on the date', () => {
+    expect(chiefJusticeOn('1954-05-17').name).toBe('Warren');
+    expect(chiefJusticeOn('1990-01-01').name).toBe('Rehnquist');
+    expect(chiefJusticeOn().name).toBe('Roberts');
+  });
+});
+
+describe('benchOn', () => {
+  it('seats nine Justices on a decision date', () => {
+    const bench = benchOn('1954-05-17').map((j) => j.name);
+    expect(bench).toHaveLength(9);
+    expect(bench).toContain('Frankfurter');
+    expect(bench).not.toContain('Harlan');
+  });
+});
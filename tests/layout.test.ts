@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { detectLayout, isPageNumber, LAYOUT_PROFILES, type LayoutName } from '../src/lib/layout';
+import { readPage } from '../src/lib/parser';
+
+describe('detectLayout', () => {
+  it('tells the document families apart by their first page', () => {
+    expect(detectLayout('(Slip Opinion) OCTOBER TERM, 2023 1 Syllabus TRUMP v. UNITED STATES').name).toBe('slip-opinion');
+    expect(detectLayout('Cite as: 601 U. S. ____ (2024) 1 Per Curiam SUPREME COURT OF THE UNITED STATES').name).toBe('slip-opinion');
+    expect(detectLayout('PRELIMINARY PRINT Volume 596 U. S. Part 2 Page Proof Pending Publication').name).toBe('preliminary-print');
+    expect(detectLayout('(ORDER LIST: 605 U.S.) MONDAY, JUNE 30, 2025 CERTIORARI -- SUMMARY DISPOSITIONS').name).toBe('order-list');
+    expect(detectLayout('285 OCTOBER TERM, 2007 Syllabus UNITED STATES v. WILLIAMS').name).toBe('us-reports');
+  });
+
+  it('reads anything else as a slip opinion', () => {
+    expect(detectLayout('')).toBe(LAYOUT_PROFILES['slip-opinion']);
+  });
+});
+
+describe('isPageNumber', () => {
+  it('takes a lone number at either end of the top row', () => {
+    const layout = LAYOUT_PROFILES['bound-volume'];
+    expect(isPageNumber(layout, '286', 72)).toBe(true);
+    expect(isPageNumber(layout, '287', 450)).toBe(true);
+    expect(isPageNumber(layout, '2007', 300)).toBe(false);
+    expect(isPageNumber(layout, 'Syllabus', 72)).toBe(false);
+  });
+});
+
+/** Text at x points across and y of the page height up, 12-point unless sized */
+type Item = [text: string, x: number, y: number, size?: number];
+
+/** A pdf.js page holding `items` */
+function page(items: Item[]) {
+  const height = 792;
+  return {
+    getTextContent: async () => ({
+      items: items.map(([str, x, y, size = 12]) => ({ str, transform: [size, 0, 0, size, x, y * height], fontName: 'f1' })),
+    }),
+    getViewport: () => ({ height, width: 612 }),
+    getOperatorList: async () => {},
+    commonObjs: { has: () => false },
+  };
+}
+
+const BODY: Item[] = [
+  ['The judgment of the Court of Appeals is affirmed.', 72, 0.6],
+  ['It is so ordered.', 72, 0.58],
+];
+
+describe('readPage', () => {
+  const read = (items: Item[], layout: LayoutName) =>
+    readPage(page(items), LAYOUT_PROFILES[layout], new Map([['f1', null]]));
+
+  it('takes the printed page from as high in the top row as the profile allows', async () => {
+    const items: Item[] = [['530', 72, 0.92], ...BODY];
+    expect((await read(items, 'slip-opinion')).printedPage).toBe(530);
+    // A bound volume's typesetter codes sit above 90%
+    expect((await read(items, 'bound-volume')).printedPage).toBeNull();
+  });
+
+  it('finds a section label as low in the band as the profile allows', async () => {
+    const items: Item[] = [['Syllabus', 280, 0.795], ...BODY];
+    expect((await read(items, 'preliminary-print')).sectionHeader?.id).toBe('syllabus');
+    expect((await read(items, 'slip-opinion')).sectionHeader).toBeNull();
+  });
+
+  it('drops the watermark where the profile has one', async () => {
+    const items: Item[] = [['Page Proof Pending Publication', 150, 0.59], ...BODY];
+    expect((await read(items, 'preliminary-print')).bodyLines.join(' ')).not.toContain('Page Proof');
+    expect((await read(items, 'slip-opinion')).bodyLines.join(' ')).toContain('Page Proof');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isStale, opinionResponse, refreshInBackground } from '../src/lib/opinion-cache';
+import { PARSER_VERSION } from '../src/lib/schema';
+import { previewOpinion } from '../src/lib/parse-stream';
+
+const url = 'https://www.supremecourt.gov/opinions/24pdf/23-939_e2pg.pdf';
+
+describe('isStale', () => {
+  it('holds opinions from an older parser stale, not from this one or a newer', () => {
+    expect(isStale({ parserVersion: 0 })).toBe(true);
+    expect(isStale({ parserVersion: PARSER_VERSION - 1 })).toBe(true);
+    expect(isStale({ parserVersion: PARSER_VERSION })).toBe(false);
+    expect(isStale({ parserVersion: PARSER_VERSION + 1 })).toBe(false);
+  });
+});
+
+describe('opinionResponse', () => {
+  it('lets the CDN keep a current opinion for a month and a stale one for minutes', () => {
+    const current = opinionResponse(previewOpinion(url, []));
+    expect(current.headers.get('Cache-Control')).toBe('max-age=0, s-maxage=2592000');
+    expect(current.headers.get('X-Parser-Version')).toBe(String(PARSER_VERSION));
+
+    const stale = opinionResponse({ ...previewOpinion(url, []), parserVersion: 0 });
+    expect(stale.headers.get('Cache-Control')).toBe('max-age=0, s-maxage=300');
+  });
+});
+
+describe('refreshInBackground', () => {
+  it('keeps the function alive for the re-parse, and logs rather than throws when it fails', async () => {
+    const waitUntil = vi.fn();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    refreshInBackground({ netlify: { context: { waitUntil } } }, 'parsed/x.json', () => Promise.reject(new Error('PARSE_TIMEOUT')));
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await waitUntil.mock.calls[0][0];
+    expect(error).toHaveBeenCalledWith('Background re-parse of parsed/x.json failed:', new Error('PARSE_TIMEOUT'));
+    error.mockRestore();
+  });
+
+  it('runs the re-parse outside Netlify too', async () => {
+    const refresh = vi.fn(() => Promise.resolve());
+    refreshInBackground({}, 'parsed/x.json', refresh);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+});
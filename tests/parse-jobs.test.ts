@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ParseJobRegistry, type ParseJobRunner } from '../src/lib/parse-jobs';
+import type { Chapter, ParsedOpinion } from '../src/lib/types';
+import { chapter } from './factories';
+
+const opinion = { caseTitle: 'KEMP v. UNITED STATES' } as ParsedOpinion;
+
+/** A runner the test drives: emit chapters, then finish it or watch it get cancelled */
+function controlled() {
+  let emit!: (chapter: Chapter) => void;
+  let finish!: (opinion: ParsedOpinion) => void;
+  let signal!: AbortSignal;
+  let starts = 0;
+  const run: ParseJobRunner = (onChapter, jobSignal) => {
+    starts++;
+    emit = onChapter;
+    signal = jobSignal;
+    return new Promise((resolve, reject) => {
+      finish = resolve;
+      jobSignal.addEventListener('abort', () => reject(new Error('PARSE_CANCELLED')));
+    });
+  };
+  return { run, emit: (c: Chapter) => emit(c), finish: (o: ParsedOpinion) => finish(o), signal: () => signal, starts: () => starts };
+}
+
+describe('ParseJobRegistry', () => {
+  it('runs one job per key and catches late joiners up on its chapters', async () => {
+    const jobs = new ParseJobRegistry();
+    const job = controlled();
+    const first: string[] = [];
+    const second: string[] = [];
+    const a = jobs.join('parsed/21-5726.json', job.run, { onChapter: (c) => first.push(c.id) });
+    job.emit(chapter('syllabus'));
+    const b = jobs.join('parsed/21-5726.json', job.run, { onChapter: (c) => second.push(c.id) });
+    job.emit(chapter('opinion-majority'));
+    expect(jobs.get('parsed/21-5726.json')).toMatchObject({ state: 'running', waiting: 2 });
+
+    job.finish(opinion);
+    expect(await a).toBe(opinion);
+    expect(await b).toBe(opinion);
+    expect(job.starts()).toBe(1);
+    expect(first).toEqual(['syllabus', 'opinion-majority']);
+    expect(second).toEqual(['syllabus', 'opinion-majority']);
+    expect(jobs.list()).toEqual([]);
+  });
+
+  it('cancels a job once every request waiting on it has gone', async () => {
+    const jobs = new ParseJobRegistry();
+    const job = controlled();
+    const left = new AbortController();
+    const stays = new AbortController();
+    const a = jobs.join('k', job.run, { signal: left.signal });
+    const b = jobs.join('k', job.run, { signal: stays.signal });
+
+    left.abort();
+    await expect(a).rejects.toThrow('PARSE_CANCELLED');
+    expect(job.signal().aborted).toBe(false);
+
+    stays.abort();
+    await expect(b).rejects.toThrow('PARSE_CANCELLED');
+    expect(job.signal().aborted).toBe(true);
+  });
+
+  it('counts a request that went away once, when the job later settles', async () => {
+    const jobs = new ParseJobRegistry();
+    const job = controlled();
+    const left = new AbortController();
+    const a = jobs.join('k', job.run, { signal: left.signal });
+    const b = jobs.join('k', job.run);
+    const entry = jobs.get('k')!;
+
+    left.abort();
+    await expect(a).rejects.toThrow('PARSE_CANCELLED');
+    expect(entry.waiting).toBe(1);
+    job.finish(opinion);
+    expect(await b).toBe(opinion);
+    expect(entry.waiting).toBe(0);
+  });
+
+  it('starts afresh when asked again while a cancelled job winds down', async () => {
+    const jobs = new ParseJobRegistry();
+    // Still busy: the cancel hasn't reached it yet
+    const slow: ParseJobRunner = () => new Promise(() => {});
+    const controller = new AbortController();
+    const a = jobs.join('k', slow, { signal: controller.signal });
+    controller.abort();
+    await expect(a).rejects.toThrow('PARSE_CANCELLED');
+    expect(jobs.get('k')?.state).toBe('cancelled');
+
+    const fresh = controlled();
+    const b = jobs.join('k', fresh.run);
+    expect(fresh.starts()).toBe(1);
+    expect(jobs.get('k')?.state).toBe('running');
+    fresh.finish(opinion);
+    expect(await b).toBe(opinion);
+  });
+});
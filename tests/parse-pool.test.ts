@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { ParsePool } from '../src/lib/parse-pool';
+import type { Chapter } from '../src/lib/types';
+
+const STUB = new URL('./fixtures/parse-worker-stub.mjs', import.meta.url);
+
+function pool(options: Partial<ConstructorParameters<typeof ParsePool>[1]> = {}): ParsePool {
+  return new ParsePool(STUB, { size: 2, timeoutMs: 5_000, maxMemoryMb: 64, graceMs: 2_000, ...options });
+}
+
+/** Resolves once every worker has exited */
+async function drained(p: ParsePool): Promise<void> {
+  while (p.active > 0) await new Promise((r) => setTimeout(r, 10));
+}
+
+describe('ParsePool', () => {
+  it('hands over chapters as they are read, then the opinion', async () => {
+    const p = pool();
+    const pdf = new Uint8Array(64).buffer;
+    const chapters: Chapter[] = [];
+    const opinion = await p.parse(pdf, 'chapters', { onChapter: (c) => chapters.push(c) });
+    expect(chapters.map((c) => c.id)).toEqual(['syllabus', 'opinion-majority']);
+    expect(opinion.chapters).toHaveLength(2);
+    // The PDF went to the worker rather than being copied
+    expect(pdf.byteLength).toBe(0);
+    expect((opinion as unknown as { pdfBytes: number }).pdfBytes).toBe(64);
+    await drained(p);
+  });
+
+  it('runs no more parses at once than it has workers', async () => {
+    const p = pool({ size: 1 });
+    const parses = [p.parse(new ArrayBuffer(8), 'chapters'), p.parse(new ArrayBuffer(8), 'chapters')];
+    expect([p.active, p.queued]).toEqual([1, 1]);
+    await Promise.all(parses);
+    await drained(p);
+    expect([p.active, p.queued]).toEqual([0, 0]);
+  });
+
+  it('passes on the parser’s own errors', async () => {
+    await expect(pool().parse(new ArrayBuffer(8), 'broken')).rejects.toThrow('Failed to read PDF');
+  });
+
+  it('stops a cancelled parse between pages', async () => {
+    const p = pool({ graceMs: 10_000 });
+    const controller = new AbortController();
+    const parse = p.parse(new ArrayBuffer(8), 'pages', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+    await expect(parse).rejects.toThrow('PARSE_CANCELLED');
+    // The worker saw the flag and exited well inside the grace period
+    const started = Date.now();
+    await drained(p);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it('terminates a parse over its time budget', async () => {
+    const p = pool({ timeoutMs: 100, graceMs: 100 });
+    await expect(p.parse(new ArrayBuffer(8), 'stuck')).rejects.toThrow('PARSE_TIMEOUT');
+    await drained(p);
+  });
+
+  it('caps each worker’s memory', async () => {
+    const p = pool({ maxMemoryMb: 16 });
+    await expect(p.parse(new ArrayBuffer(8), 'oom')).rejects.toThrow('PARSE_OUT_OF_MEMORY');
+    await drained(p);
+  }, 20_000);
+
+  it('drops a cancelled parse from the queue without starting it', async () => {
+    const p = pool({ size: 1 });
+    const first = p.parse(new ArrayBuffer(8), 'chapters');
+    const controller = new AbortController();
+    const second = p.parse(new ArrayBuffer(8), 'chapters', { signal: controller.signal });
+    controller.abort();
+    await expect(second).rejects.toThrow('PARSE_CANCELLED');
+    expect(p.queued).toBe(0);
+    await first;
+    await drained(p);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { formatEvent, previewOpinion, readParseStream, type ParseStreamEvent } from '../src/lib/parse-stream';
+import { chapter as makeChapter } from './factories';
+
+const chapter = makeChapter('syllabus', ['Held: affirmed.'], { title: 'Syllabus', kind: 'syllabus' });
+
+/** A body that delivers `text` in chunks of `size` characters */
+function chunked(text: string, size: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size) controller.enqueue(bytes.slice(i, i + size));
+      controller.close();
+    },
+  });
+}
+
+describe('readParseStream', () => {
+  it('reads back the events formatEvent writes, however the body is chunked', async () => {
+    const sent: ParseStreamEvent[] = [
+      { event: 'chapter', data: chapter },
+      { event: 'opinion', data: previewOpinion('https://www.supremecourt.gov/opinions/24pdf/23-939_e2pg.pdf', [chapter]) },
+    ];
+    for (const size of [7, 1 << 16]) {
+      const received: ParseStreamEvent[] = [];
+      await readParseStream(chunked(sent.map(formatEvent).join(''), size), (e) => received.push(e));
+      expect(received).toEqual(sent);
+    }
+  });
+
+  it('skips comments and events it does not know', async () => {
+    const received: ParseStreamEvent[] = [];
+    const text = `: keepalive\n\nevent: progress\ndata: {"page":3}\n\n${formatEvent({ event: 'error', data: { error: 'Failed to parse PDF' } })}`;
+    await readParseStream(chunked(text, 64), (e) => received.push(e));
+    expect(received).toEqual([{ event: 'error', data: { error: 'Failed to parse PDF' } }]);
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { parsePdf } from '../src/lib/parser';
+import { parseBoundVolumeCase } from '../src/lib/bv-parser';
+import type { Chapter, ParsedOpinion } from '../src/lib/types';
 
 const FIXTURES = join(import.meta.dirname, 'fixtures');
 
@@ -22,11 +24,35 @@ describe('Learning Resources (24-1287)', () => {
     expect(result.chapters).toHaveLength(8);
   });
 
+  it('classifies the separate writings', () => {
+    expect(result.chapters.map(c => c.kind)).toEqual([
+      'syllabus', 'majority', 'concurrence', 'concurrence', 'concurrence-in-judgment', 'concurrence-in-judgment', 'dissent', 'dissent',
+    ]);
+  });
+
   it('extracts case title containing "LEARNING RESOURCES" and "v."', () => {
     expect(result.caseTitle).toContain('v.');
     expect(result.caseTitle.toUpperCase()).toContain('LEARNING RESOURCES');
   });
 
+  it('lists both consolidated cases with their captions and lower courts', () => {
+    expect(result.docketNumber).toBe('24-1287');
+    expect(result.dockets).toEqual([
+      {
+        number: '24-1287',
+        caption: 'LEARNING RESOURCES, INC., et al. v. DONALD J. TRUMP, PRESIDENT OF THE UNITED STATES, et al.',
+        lowerCourt: 'United States Court of Appeals for the District of Columbia Circuit',
+        lowerCourtId: 'CADC',
+      },
+      {
+        number: '25-250',
+        caption: 'DONALD J. TRUMP, PRESIDENT OF THE UNITED STATES, et al. v. V.O.S. SELECTIONS, INC., et al.',
+        lowerCourt: 'United States Court of Appeals for the Federal Circuit',
+        lowerCourtId: 'CAFC',
+      },
+    ]);
+  });
+
   it('Syllabus has SCOTUS header tagged as boilerplate', () => {
     const syllabus = result.chapters.find(c => c.id === 'syllabus');
     expect(syllabus).toBeDefined();
@@ -64,7 +90,7 @@ describe('Learning Resources (24-1287)', () => {
     const allText = thomas!.paragraphs.map(p => p.text).join(' ');
     // Should contain "I join" — not garbled by y-sort reordering
     expect(allText).toContain('I join');
-    expect(allText).toContain('KAVANAUGH');
+    expect(allText).toContain('I join {{em:sc:Justice Kavanaugh}}');
   });
 
   it('multi-page footnotes are not truncated (continuation text merged)', () => {
@@ -105,6 +131,15 @@ describe('Trump v. US (23-939)', () => {
     expect(result.chapters).toHaveLength(6);
   });
 
+  it('records the argued and decided dates and the court below', () => {
+    expect(result.dates).toEqual({ argued: '2024-04-25', reargued: '', decided: '2024-07-01' });
+    expect(result.lowerCourtId).toBe('CADC');
+  });
+
+  it('reports a clean parse', () => {
+    expect(result.diagnostics).toEqual({ warnings: [], repairs: [], confidence: 1 });
+  });
+
   it('extracts case title "TRUMP v. UNITED STATES"', () => {
     expect(result.caseTitle.toUpperCase()).toContain('TRUMP');
     expect(result.caseTitle).toContain('v.');
@@ -140,6 +175,31 @@ describe('Trump v. US (23-939)', () => {
     expect(allText).toContain('{{cite:591:786:');
     expect(allText).toContain(':Trump v. Vance:');
   });
+
+  it('records slip page numbers, restarting with each opinion', () => {
+    for (const chapter of result.chapters.filter(c => c.id !== 'syllabus')) {
+      expect(chapter.paragraphs[0].pages[0]).toBe(1);
+    }
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    const pages = majority.paragraphs.flatMap(p => p.pages);
+    expect(pages[pages.length - 1]).toBe(43);
+    expect(majority.paragraphs.some(p => p.text.includes('{{pg:2}}'))).toBe(true);
+  });
+
+  it('extracts the holdings and disposition from the syllabus', () => {
+    expect(result.disposition).toBe('Vacated and remanded');
+    expect(result.holdings).toHaveLength(18);
+    expect(result.holdings.slice(0, 5).map(h => [h.label, h.level])).toEqual([['', 0], ['(a)', 1], ['(1)', 2], ['(2)', 2], ['(i)', 3]]);
+    expect(result.holdings[0].text).toMatch(/^Under our constitutional structure/);
+    expect(result.holdings[0].spans.at(-2)).toMatchObject({ type: 'ref', direction: 'post', page: '5', endPage: '43', role: 'court' });
+  });
+
+  it('reads a partial joinder and roles from the syllabus vote summary', () => {
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    expect(majority.joinedBy).toContainEqual({ justice: 'Barrett', exceptParts: ['III–C'] });
+    expect(result.chapters.find(c => c.id === 'concurring-barrett')!.role).toBe('concurring in part');
+    expect(result.chapters.find(c => c.id === 'dissenting-sotomayor')!.joinedBy).toEqual([{ justice: 'Kagan' }, { justice: 'Jackson' }]);
+  });
 });
 
 describe('Bowe v. US (24-5438)', () => {
@@ -160,6 +220,33 @@ describe('Bowe v. US (24-5438)', () => {
     const bpjParas = gorsuch!.paragraphs.filter(p => /^\{\{bpj:/.test(p.text));
     expect(bpjParas.length).toBeGreaterThan(0);
   });
+
+  it('records who joined each opinion', () => {
+    const [, majority, jackson, gorsuch] = result.chapters;
+    expect(result.chapters.map(c => c.kind)).toEqual(['syllabus', 'majority', 'concurrence', 'dissent']);
+    expect(majority.role).toBe('opinion of the Court');
+    expect(majority.joinedBy.map(j => j.justice)).toEqual(['Roberts', 'Kagan', 'Kavanaugh', 'Jackson']);
+    expect(jackson).toMatchObject({ author: 'Jackson', role: 'concurring', joinedBy: [] });
+    expect(gorsuch.role).toBe('dissenting');
+    expect(gorsuch.joinedBy).toEqual([{ justice: 'Thomas' }, { justice: 'Alito' }, { justice: 'Barrett', parts: ['I'] }]);
+  });
+
+  it('keeps italics from the PDF fonts and tags small-cap names', () => {
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    const spans = majority.paragraphs.flatMap(p => p.spans);
+    expect(spans).toContainEqual({ type: 'emphasis', style: 'italic', text: 'pro se' });
+    expect(spans).toContainEqual({ type: 'emphasis', style: 'italic', text: 'In re Bowe' });
+    expect(spans).toContainEqual({ type: 'emphasis', style: 'smallcaps', text: 'Gorsuch' });
+  });
+
+  it('sets the quoted statute apart as block quotations', () => {
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    const quotes = majority.paragraphs.filter(p => p.kind === 'blockquote');
+    expect(quotes.map(p => p.text.slice(0, 8))).toEqual(['“(3)(A) ', '“(B) A m', '“(C) The', '“(D) The', '“(E) The', '“(4) A d', '“A secon']);
+    expect(result.chapters[0].paragraphs.some(p => p.kind === 'blockquote')).toBe(false);
+    expect(majority.paragraphs.some(p => p.kind === 'heading')).toBe(true);
+    expect(majority.paragraphs.some(p => p.kind === 'boilerplate')).toBe(true);
+  });
 });
 
 describe('Doe v. Dynamic Physical Therapy (preliminary print)', () => {
@@ -181,6 +268,7 @@ describe('Doe v. Dynamic Physical Therapy (preliminary print)', () => {
 
   it('extracts decided date', () => {
     expect(result.decidedDate).toBe('December 8, 2025');
+    expect(result.dates).toEqual({ argued: '', reargued: '', decided: '2025-12-08' });
   });
 
   it('body paragraphs contain {{cite:}} markers for US Reports citations', () => {
@@ -209,6 +297,12 @@ describe('Kemp v. United States (596us2r38) — prelim print mid-page section sp
 
   it('extracts docket number 21-5726', () => {
     expect(result.docketNumber).toBe('21-5726');
+    expect(result.dockets).toEqual([
+      {
+        number: '21-5726', caption: 'KEMP v. UNITED STATES',
+        lowerCourt: 'United States Court of Appeals for the Eleventh Circuit', lowerCourtId: 'CA11',
+      },
+    ]);
   });
 
   it('has 4 chapters: Syllabus, Opinion, Sotomayor concurrence, Gorsuch dissent', () => {
@@ -243,6 +337,20 @@ describe('Kemp v. United States (596us2r38) — prelim print mid-page section sp
     expect(result.chapters.find(c => c.id === 'concurring-sotomayor')!.author).toBe('Sotomayor');
     expect(result.chapters.find(c => c.id === 'dissenting-gorsuch')!.author).toBe('Gorsuch');
   });
+
+  it('moves the footnotes read as body text back to the notes', () => {
+    // Regression: the separator rule on pp. 532 and 535 wasn't recognized, so notes 1 and 2
+    // were read as body text after the paragraphs that reference them
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    expect(majority.footnotes.map(fn => fn.id)).toEqual([1, 2]);
+    expect(majority.footnotes[0].text).toMatch(/^Compare/);
+    expect(majority.paragraphs.some(p => p.text.includes('{{fn:1}} Compare'))).toBe(false);
+    expect(result.diagnostics.repairs.map(r => [r.code, r.footnote, r.page])).toEqual([
+      ['leaked-footnote', 1, 532],
+      ['leaked-footnote', 2, 535],
+    ]);
+    expect(result.diagnostics.warnings.map(w => w.code)).not.toContain('orphan-footnote-ref');
+  });
 });
 
 describe('Ellingburg v. US (24-482) — floating superscript regression', () => {
@@ -262,6 +370,28 @@ describe('Ellingburg v. US (24-482) — floating superscript regression', () =>
     expect(para!.text).toContain('implicated.{{fn:2}}');
     expect(para!.text).not.toMatch(/rights\s*\{\{fn:2\}\}/);
   });
+
+  it('hands over each chapter but the last as soon as its pages are read', async () => {
+    const previews: Chapter[] = [];
+    await parsePdf(loadFixture('24-482_d1oe.pdf'), 'https://www.supremecourt.gov/opinions/25pdf/24-482_d1oe.pdf', {
+      onChapter: (chapter) => previews.push(chapter),
+    });
+    expect(previews.map(c => c.id)).toEqual(['syllabus', 'opinion-majority']);
+    const majority = result.chapters.find(c => c.id === 'opinion-majority')!;
+    expect(previews[1].author).toBe(majority.author);
+    expect(previews[1].kind).toBe('majority');
+    expect(previews[1].paragraphs.length).toBe(majority.paragraphs.length);
+  }, 30000);
+
+  it('stops before the next page once its signal aborts', async () => {
+    const seen: string[] = [];
+    const signal = { get aborted() { return seen.length > 0; } };
+    await expect(parsePdf(loadFixture('24-482_d1oe.pdf'), 'https://www.supremecourt.gov/opinions/25pdf/24-482_d1oe.pdf', {
+      onChapter: (chapter) => seen.push(chapter.id),
+      signal,
+    })).rejects.toThrow('PARSE_CANCELLED');
+    expect(seen).toEqual(['syllabus']);
+  }, 30000);
 });
 
 describe('Coney Island v. Burton (24-808) — boilerplate regression', () => {
@@ -329,3 +459,31 @@ describe('Coney Island v. Burton (24-808) — boilerplate regression', () => {
     expect(bpjParas[0].text).toContain('SOTOMAYOR');
   });
 });
+
+describe('Kemp v. United States (596 U. S. 528) — bound-volume reader', () => {
+  let result: ParsedOpinion;
+
+  it('parses without error', async () => {
+    result = await parseBoundVolumeCase(loadFixture('596bv.pdf'), 596, 528);
+  }, 30000);
+
+  it('reads the case and its judgment', () => {
+    expect(result.docketNumber).toBe('21-5726');
+    expect(result.dates.decided).toBe('2022-06-13');
+    expect(result.disposition).toBe('Affirmed');
+    expect(result.chapters.map((c) => c.kind)).toEqual(['syllabus', 'majority', 'concurrence']);
+  });
+
+  it('starts "Held:" a paragraph of its own', () => {
+    const syllabus = result.chapters.find((c) => c.id === 'syllabus')!;
+    const held = syllabus.paragraphs.findIndex((p) => p.text.startsWith('{{em:i:Held}}: The term “mistake”'));
+    expect(held).toBeGreaterThan(0);
+    expect(syllabus.paragraphs[held - 1].text).toMatch(/was therefore untimely\.$/);
+  });
+
+  it('closes an italic run up to the comma that follows it', () => {
+    const note = result.chapters.find((c) => c.id === 'opinion-majority')!.footnotes.find((fn) => fn.id === 1)!;
+    expect(note.text).toContain('{{em:i:South Dakota Bd. of Regents}}, ');
+    expect(note.text).not.toMatch(/\}\} ,/);
+  });
+});
@@ -10,7 +10,17 @@ import {
   extractDecidedDate,
   parseSectionHeader,
   markCitations,
+  collectCitedCases,
+  withPageMarker,
+  findBodyLeftMargin,
+  blockQuoteLine,
+  fontEmphasis,
+  emphasize,
+  takeEmphasis,
+  markEmphasis,
+  toParagraphs,
 } from '../src/lib/parser';
+import type { RawParagraph } from '../src/lib/parser';
 
 describe('fixSmallCaps', () => {
   it('fixes "J USTICE" → "JUSTICE"', () => {
@@ -40,6 +50,11 @@ describe('fixSmallCaps', () => {
   it('leaves normal text unchanged', () => {
     expect(fixSmallCaps('The court held that')).toBe('The court held that');
   });
+
+  it('rebuilds only the names of the Justices sitting on the decision date', () => {
+    expect(fixSmallCaps('J USTICE F RANKFURTER and USTICE LACK dissent', '1954-05-17')).toBe('JUSTICE FRANKFURTER and JUSTICE BLACK dissent');
+    expect(fixSmallCaps('DISMISSED FOR LACK OF JURISDICTION', '2024-07-01')).toBe('DISMISSED FOR LACK OF JURISDICTION');
+  });
 });
 
 describe('dehyphenate', () => {
@@ -112,6 +127,31 @@ describe('parseSectionHeader', () => {
     expect(h!.id).toBe('concurring-thomas');
   });
 
+  it('parses statements respecting denial', () => {
+    expect(parseSectionHeader('Statement of S OTOMAYOR , J.')).toMatchObject({
+      id: 'statement-sotomayor', title: 'Statement of Sotomayor', author: 'Sotomayor',
+    });
+  });
+
+  it('parses appendices, keeping the author of the opinion they belong to', () => {
+    expect(parseSectionHeader('Appendix to opinion of the Court')).toMatchObject({
+      id: 'appendix-majority', title: 'Appendix to opinion of the Court', author: null,
+    });
+    expect(parseSectionHeader('Appendix B to opinion of G ORSUCH , J.')).toMatchObject({
+      id: 'appendix-b-gorsuch', title: 'Appendix B to opinion of Gorsuch', author: 'Gorsuch',
+    });
+  });
+
+  it('recognizes Justices of any era', () => {
+    expect(parseSectionHeader('HARLAN, J., dissenting')).toMatchObject({
+      id: 'dissenting-harlan', title: 'Harlan, dissenting', author: 'Harlan',
+    });
+    expect(parseSectionHeader('Opinion of F RANKFURTER , J.')).toMatchObject({
+      id: 'opinion-frankfurter', author: 'Frankfurter',
+    });
+    expect(parseSectionHeader('McReynolds, J., dissenting')?.author).toBe('McReynolds');
+  });
+
   it('returns null for unrecognized text', () => {
     expect(parseSectionHeader('Some random text')).toBeNull();
     expect(parseSectionHeader('')).toBeNull();
@@ -140,22 +180,24 @@ describe('splitSCOTUSHeader', () => {
 });
 
 describe('tagBoilerplate', () => {
+  const para = (text: string): RawParagraph => ({ text, kind: 'body', pages: [], footnotes: [] });
+
   it('tags NOTE disclaimer', () => {
-    const paras = [{ text: 'NOTE: Where it is feasible, a syllabus', footnotes: [] }];
+    const paras = [para('NOTE: Where it is feasible, a syllabus')];
     const result = tagBoilerplate(paras);
     expect(result[0].text).toMatch(/^\{\{bp:/);
   });
 
   it('tags NOTICE line', () => {
-    const paras = [{ text: 'NOTICE: This opinion is subject to formal revision', footnotes: [] }];
+    const paras = [para('NOTICE: This opinion is subject to formal revision')];
     const result = tagBoilerplate(paras);
     expect(result[0].text).toMatch(/^\{\{bp:/);
   });
 
   it('tags JUSTICE delivery line with {{bpj:}}', () => {
     const paras = [
-      { text: 'SUPREME COURT OF THE UNITED STATES', footnotes: [] },
-      { text: 'JUSTICE SOTOMAYOR delivered the opinion of the Court.', footnotes: [] },
+      para('SUPREME COURT OF THE UNITED STATES'),
+      para('JUSTICE SOTOMAYOR delivered the opinion of the Court.'),
     ];
     const result = tagBoilerplate(paras);
     const justicePara = result.find(p => p.text.includes('SOTOMAYOR'));
@@ -164,9 +206,9 @@ describe('tagBoilerplate', () => {
 
   it('stops at first non-matching paragraph', () => {
     const paras = [
-      { text: 'NOTICE: This opinion is subject to formal revision', footnotes: [] },
-      { text: 'This is a regular body paragraph about the case.', footnotes: [] },
-      { text: 'Another body paragraph.', footnotes: [] },
+      para('NOTICE: This opinion is subject to formal revision'),
+      para('This is a regular body paragraph about the case.'),
+      para('Another body paragraph.'),
     ];
     const result = tagBoilerplate(paras);
     expect(result[0].text).toMatch(/^\{\{bp:/);
@@ -176,19 +218,19 @@ describe('tagBoilerplate', () => {
 
   it('does NOT tag long paragraphs containing v. as boilerplate', () => {
     const longCitation = 'In ' + 'x'.repeat(260) + ' v. ' + 'y'.repeat(10) + ' 24-100 the Court held...';
-    const paras = [{ text: longCitation, footnotes: [] }];
+    const paras = [para(longCitation)];
     const result = tagBoilerplate(paras);
     expect(result[0].text).not.toMatch(/^\{\{bp:/);
   });
 
   it('tags all lines between NOTICE and JUSTICE delivery line', () => {
     const paras = [
-      { text: 'NOTICE: This opinion is subject to formal revision', footnotes: [] },
-      { text: 'CONEY ISLAND AUTO PARTS UNLIMITED, INC.,', footnotes: [] },
-      { text: 'PETITIONER v. JEANNE ANN BURTON,', footnotes: [] },
-      { text: 'CHAPTER 7 TRUSTEE ON WRIT OF CERTIORARI', footnotes: [] },
-      { text: 'JUSTICE ALITO delivered the opinion of the Court.', footnotes: [] },
-      { text: 'Body text starts here.', footnotes: [] },
+      para('NOTICE: This opinion is subject to formal revision'),
+      para('CONEY ISLAND AUTO PARTS UNLIMITED, INC.,'),
+      para('PETITIONER v. JEANNE ANN BURTON,'),
+      para('CHAPTER 7 TRUSTEE ON WRIT OF CERTIORARI'),
+      para('JUSTICE ALITO delivered the opinion of the Court.'),
+      para('Body text starts here.'),
     ];
     const result = tagBoilerplate(paras);
     expect(result[0].text).toMatch(/^\{\{bp:/);
@@ -201,10 +243,10 @@ describe('tagBoilerplate', () => {
 
   it('tags THE CHIEF JUSTICE delivery line with {{bpj:}}', () => {
     const paras = [
-      { text: '{{bp:SUPREME COURT OF THE UNITED STATES}}', footnotes: [] },
-      { text: 'CASE NAME v. OTHER PARTY', footnotes: [] },
-      { text: 'THE CHIEF JUSTICE delivered the opinion of the Court.', footnotes: [] },
-      { text: 'Body text here.', footnotes: [] },
+      para('{{bp:SUPREME COURT OF THE UNITED STATES}}'),
+      para('CASE NAME v. OTHER PARTY'),
+      para('THE CHIEF JUSTICE delivered the opinion of the Court.'),
+      para('Body text here.'),
     ];
     const result = tagBoilerplate(paras);
     expect(result[2].text).toMatch(/^\{\{bpj:/);
@@ -213,10 +255,10 @@ describe('tagBoilerplate', () => {
 
   it('Syllabus: tags case caption and cert line, stops before body', () => {
     const paras = [
-      { text: '{{bp:SUPREME COURT OF THE UNITED STATES}}', footnotes: [] },
-      { text: 'FOO v. BAR', footnotes: [] },
-      { text: 'CERTIORARI TO THE FIFTH CIRCUIT', footnotes: [] },
-      { text: 'The Court held that the statute was valid.', footnotes: [] },
+      para('{{bp:SUPREME COURT OF THE UNITED STATES}}'),
+      para('FOO v. BAR'),
+      para('CERTIORARI TO THE FIFTH CIRCUIT'),
+      para('The Court held that the statute was valid.'),
     ];
     const result = tagBoilerplate(paras);
     expect(result[1].text).toMatch(/^\{\{bp:/);
@@ -319,6 +361,145 @@ describe('buildParagraphs', () => {
     expect(paras[0].text).toContain('JUSTICE');
     expect(paras[0].text).toContain('THOMAS');
   });
+
+  it('records the page a paragraph starts on from a leading page marker', () => {
+    const paras = buildParagraphs('{{pg:3}}\nFirst paragraph.\n\nSecond paragraph.');
+    expect(paras.map(p => p.pages)).toEqual([[3], [3]]);
+    expect(paras[0].text).toBe('First paragraph.');
+  });
+
+  it('keeps a mid-paragraph page break inline and adds the page', () => {
+    const paras = buildParagraphs('{{pg:3}}\nThe court held that the\n{{pg:4}}\nstatute was valid.\n\nNext paragraph.');
+    expect(paras[0].text).toBe('The court held that the {{pg:4}} statute was valid.');
+    expect(paras[0].pages).toEqual([3, 4]);
+    expect(paras[1].pages).toEqual([4]);
+  });
+
+  it('starts the next heading on a page that begins between paragraphs', () => {
+    const paras = buildParagraphs('{{pg:3}}\nEnd of a section.\n\n{{pg:4}}\n\n{{h1:II}}\n\nNew section.');
+    expect(paras.map(p => p.pages)).toEqual([[3], [4], [4]]);
+    expect(paras[0].text).toBe('End of a section.');
+  });
+
+  it('inserts the page marker where a continuation is merged across a page', () => {
+    const paras = buildParagraphs('{{pg:3}}\nThe court held that\n\n{{pg:4}}\nthe statute was valid.');
+    expect(paras).toHaveLength(1);
+    expect(paras[0].text).toBe('The court held that {{pg:4}} the statute was valid.');
+    expect(paras[0].pages).toEqual([3, 4]);
+  });
+
+  it('keeps a block quotation apart from the text around it', () => {
+    const paras = buildParagraphs('The statute provides\n\n{{bq}}“No person shall\nbe held to answer.”\n\nThat is the rule.');
+    expect(paras.map(p => p.kind)).toEqual(['body', 'blockquote', 'body']);
+    expect(paras[1].text).toBe('“No person shall be held to answer.”');
+  });
+
+  it('merges a quoted paragraph continued across a page', () => {
+    const paras = buildParagraphs('{{pg:3}}\n{{bq}}“No person shall\n\n{{pg:4}}\n{{bq}}be held to answer.”');
+    expect(paras).toHaveLength(1);
+    expect(paras[0]).toMatchObject({ kind: 'blockquote', pages: [3, 4] });
+  });
+
+  it('tags headings', () => {
+    expect(buildParagraphs('{{h1:I}}\n\nSome text.').map(p => p.kind)).toEqual(['heading', 'body']);
+  });
+});
+
+describe('findBodyLeftMargin', () => {
+  it('takes the most common line start', () => {
+    expect(findBodyLeftMargin([72, 72, 72, 83, 72, 94.2, 72])).toBe(72);
+  });
+
+  it('looks past a block quotation filling most of the page', () => {
+    const quote = Array(12).fill(94.3);
+    expect(findBodyLeftMargin([72, 83.2, 72, ...quote, 105.3, 72])).toBe(72);
+  });
+
+  it('ignores a lone line one quote indent to the left', () => {
+    expect(findBodyLeftMargin([50, ...Array(12).fill(72)])).toBe(72);
+  });
+});
+
+describe('blockQuoteLine', () => {
+  it('opens a quote at the quote margin when the next line stays there', () => {
+    expect(blockQuoteLine('“(3)(A) Before a second', 22.3, 22.3, false)).toBe('open');
+    expect(blockQuoteLine('the court of appeals', 22.3, 22.3, true)).toBe('continue');
+  });
+
+  it('opens a quoted paragraph a further indent in', () => {
+    expect(blockQuoteLine('“(B) A motion in the', 33.4, 22.3, false)).toBe('open');
+    expect(blockQuoteLine('“(B) A motion in the', 33.4, 0, false)).toBeNull();
+  });
+
+  it('leaves Syllabus items, paragraph openers and captions alone', () => {
+    expect(blockQuoteLine('(a) Section 2244(b)(3)(E) provides', 22.3, 0, false)).toBeNull();
+    expect(blockQuoteLine('Held: The Court lacks jurisdiction', 11.2, 0, false)).toBeNull();
+    expect(blockQuoteLine('ON WRIT OF CERTIORARI', 22.3, 22.3, false)).toBeNull();
+  });
+});
+
+describe('emphasis', () => {
+  it('reads the style from a font name', () => {
+    expect(fontEmphasis('CHOFKE+CenturySchoolbook-Italic')).toBe('italic');
+    expect(fontEmphasis('CHOFKE+CenturySchoolbook-BoldItalic')).toBe('bold');
+    expect(fontEmphasis('CHOFHB+CenturySchoolbook')).toBeNull();
+  });
+
+  it('lifts runs out of the text, rejoining runs split across items and lines', () => {
+    const styled = `In ${emphasize('Trump', 'italic')} ${emphasize('v. Vance', 'italic')}, the ${emphasize('per cu -', 'italic')}\n${emphasize('riam', 'italic')} held`;
+    const { text, runs } = takeEmphasis(styled);
+    expect(text).toBe('In Trump v. Vance, the per cu -\nriam held');
+    expect(runs).toEqual([{ style: 'italic', text: 'Trump v. Vance' }, { style: 'italic', text: 'per curiam' }]);
+  });
+
+  it('marks runs outside citation markers, in order', () => {
+    const text = 'See {{cite:591:786:800:Trump v. Vance:Trump v. Vance, 591 U. S. 786, 800}}; in Vance, the Court said no.';
+    const runs = [{ style: 'italic' as const, text: 'Trump v. Vance' }, { style: 'italic' as const, text: 'Vance' }, { style: 'bold' as const, text: 'no' }];
+    expect(markEmphasis(text, runs)).toBe(
+      'See {{cite:591:786:800:Trump v. Vance:Trump v. Vance, 591 U. S. 786, 800}}; in {{em:i:Vance}}, the Court said {{em:b:no}}.'
+    );
+  });
+
+  it('marks a short run only where it stands as a word', () => {
+    const italic = (text: string) => ({ style: 'italic' as const, text });
+    expect(markEmphasis('See, e. g., Kemp, 596 U. S., at 530.', [italic('e'), italic('g')])).toBe(
+      'See, {{em:i:e}}. {{em:i:g}}., Kemp, 596 U. S., at 530.'
+    );
+    expect(markEmphasis('See, e.g., the cases cited.', [italic('e.g.')])).toBe('See, {{em:i:e.g.}}, the cases cited.');
+    expect(markEmphasis('the President said, id., at 5', [italic('id')])).toBe('the President said, {{em:i:id}}., at 5');
+    expect(markEmphasis('no excuse at all', [italic('cuse')])).toBe('no excuse at all');
+  });
+
+  it('tags the names fixSmallCaps rebuilt as small caps', () => {
+    expect(markEmphasis('I join THE CHIEF JUSTICE and JUSTICE O’CONNOR. (THOMAS, J., dissenting)', [])).toBe(
+      'I join {{em:sc:The Chief Justice}} and {{em:sc:Justice}} O’CONNOR. ({{em:sc:Thomas}}, J., dissenting)'
+    );
+    expect(markEmphasis('JUSTICE HARLAN and JUSTICE BROWN dissent.', [], '1896-05-18')).toBe(
+      '{{em:sc:Justice Harlan}} and {{em:sc:Justice Brown}} dissent.'
+    );
+    expect(markEmphasis('BROWN v. BOARD', [])).toBe('BROWN v. BOARD');
+    expect(markEmphasis('{{bpj:JUSTICE KAGAN delivered the opinion of the Court.}}', [])).toBe(
+      '{{bpj:JUSTICE KAGAN delivered the opinion of the Court.}}'
+    );
+  });
+
+  it('carries runs from buildParagraphs to the finished spans', () => {
+    const [para] = toParagraphs(buildParagraphs(`The ${emphasize('amicus', 'italic')} brief agrees.`));
+    expect(para.text).toBe('The {{em:i:amicus}} brief agrees.');
+    expect(para.spans[1]).toEqual({ type: 'emphasis', style: 'italic', text: 'amicus' });
+    expect(para).not.toHaveProperty('emphasis');
+  });
+});
+
+describe('withPageMarker', () => {
+  it('puts a page that continues a paragraph inline', () => {
+    expect(withPageMarker(['text continues'], 5, false)).toEqual(['{{pg:5}}', 'text continues']);
+  });
+
+  it('separates a page that starts a paragraph from the previous one', () => {
+    expect(withPageMarker(['    New paragraph'], 5, true)).toEqual(['', '{{pg:5}}', '    New paragraph']);
+    expect(withPageMarker(['', '{{h1:II}}'], 5, false)).toEqual(['', '{{pg:5}}', '', '{{h1:II}}']);
+  });
 });
 
 describe('markCitations', () => {
@@ -404,15 +585,15 @@ describe('markCitations', () => {
   });
 
   it('wraps ante cross-references', () => {
-    expect(markCitations('see ante, at 14')).toContain('{{ref:ante:14}}');
+    expect(markCitations('see ante, at 14')).toContain('{{ref:ante:14::::ante, at 14}}');
   });
 
   it('wraps post cross-references', () => {
-    expect(markCitations('post, at 48')).toContain('{{ref:post:48}}');
+    expect(markCitations('post, at 48')).toContain('{{ref:post:48::::post, at 48}}');
   });
 
   it('cross-reference markers are case-insensitive', () => {
-    expect(markCitations('Ante, at 5')).toContain('{{ref:ante:5}}');
+    expect(markCitations('Ante, at 5')).toContain('{{ref:ante:5::::Ante, at 5}}');
   });
 
   it('marks multiple citations in one string', () => {
@@ -509,6 +690,81 @@ describe('markCitations', () => {
   });
 });
 
+describe('markCitations — Id. / Ibid. short forms', () => {
+  it('resolves "Id., at N" to the preceding case at the new pinpoint', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786, 800 (2020). Id., at 802.');
+    expect(result).toContain('{{cite:591:786:802:Trump v. Vance:Id., at 802}}');
+  });
+
+  it('keeps the pinpoint for a bare "Ibid."', () => {
+    const result = markCitations('See 553 U. S. 285, 294. Ibid.');
+    expect(result).toContain('{{cite:553:285:294::Ibid.}}');
+  });
+
+  it('resolves lowercase "id." mid-sentence', () => {
+    const result = markCitations('553 U. S. 285. See id., at 290–291.');
+    expect(result).toContain('{{cite:553:285:290::id., at 290–291}}');
+  });
+
+  it('resolves to the authority nearest in reading order, not pass order', () => {
+    const result = markCitations('50 U. S. C. §1701(a); 553 U. S. 285. Id., at 300.');
+    expect(result).toContain('{{cite:553:285:300::Id., at 300}}');
+  });
+
+  it('resolves "Id." after a USC citation', () => {
+    const result = markCitations('50 U. S. C. §1702(a)(1)(B). Id.');
+    expect(result).toContain('{{usc:50:1702:(a)(1)(B):Id.}}');
+  });
+
+  it('moves the page for "Id., at N" after a Fed. Reg. citation', () => {
+    const result = markCitations('90 Fed. Reg. 15625 (2025). Id., at 15627.');
+    expect(result).toContain('{{fr:90:15627:2025:Id., at 15627}}');
+  });
+
+  it('leaves "Id., §N" for the bare-section pass to link', () => {
+    const result = markCitations('50 U. S. C. §1701(a). Id., §1702.');
+    expect(result).toContain('Id., {{usc:50:1702::§1702}}');
+  });
+
+  it('threads the last authority across paragraph calls via shared ctx', () => {
+    const ctx = { lastUscTitle: null };
+    markCitations('Trump v. Vance, 591 U. S. 786 (2020).', ctx);
+    expect(markCitations('Id., at 810.', ctx)).toBe('{{cite:591:786:810:Trump v. Vance:Id., at 810}}.');
+  });
+
+  it('does not resolve past an intervening brief cite', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786, 800 (2020). See Brief for Respondent 12. Id., at 14.');
+    expect(result).toContain('Id., at 14.');
+    expect(result).not.toContain(':Id., at 14}}');
+  });
+
+  it('does not resolve past a reporter the parser does not link', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020); Smith v. Jones, 100 So. 3d 5 (Fla. 2012). Id., at 7.');
+    expect(result).not.toContain(':Id., at 7}}');
+  });
+
+  it('does not resolve past a record cite', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020). See App. to Pet. for Cert. 4a. Ibid.');
+    expect(result).not.toContain(':Ibid.}}');
+    const tr = markCitations('553 U. S. 285. Tr. of Oral Arg. 15. Id., at 16.');
+    expect(tr).not.toContain(':Id., at 16}}');
+  });
+
+  it('resolves again once a new authority is cited', () => {
+    const result = markCitations('See Brief for Respondent 12; 553 U. S. 285. Id., at 290.');
+    expect(result).toContain('{{cite:553:285:290::Id., at 290}}');
+  });
+
+  it('leaves "Id." as text when nothing has been cited', () => {
+    expect(markCitations('Id., at 5.')).toBe('Id., at 5.');
+  });
+
+  it('does not treat words ending in "id." as short forms', () => {
+    const result = markCitations('553 U. S. 285. The statute is valid.');
+    expect(result).toContain('is valid.');
+  });
+});
+
 describe('parseSectionHeader — title-case patterns (preliminary prints)', () => {
   it('parses "Gorsuch, J., concurring" (prelim print format)', () => {
     const h = parseSectionHeader('Gorsuch, J., concurring');
@@ -596,3 +852,268 @@ describe('parseSectionHeader — BV running header "Opinion of Name, J." format'
     expect(h!.author).toBe('Ginsburg');
   });
 });
+
+describe('markCitations — short-form case citations', () => {
+  it('resolves "Party v. Party, vol U. S., at N" to the full cite', () => {
+    const ctx = { lastUscTitle: null };
+    markCitations('Trump v. Vance, 591 U. S. 786 (2020).', ctx);
+    const result = markCitations('Trump v. Vance, 591 U. S., at 800.', ctx);
+    expect(result).toBe('{{cite:591:786:800:Trump v. Vance:Trump v. Vance, 591 U. S., at 800}}.');
+  });
+
+  it('resolves a single-party short form', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020). Later, Vance, 591 U. S., at 802, held otherwise.');
+    expect(result).toContain('{{cite:591:786:802:Trump v. Vance:Vance, 591 U. S., at 802}}');
+  });
+
+  it('keeps signal words outside the link', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020). See Vance, 591 U. S., at 802.');
+    expect(result).toContain('See {{cite:591:786:802:Trump v. Vance:Vance, 591 U. S., at 802}}');
+  });
+
+  it('picks the case whose party name matches when a volume has several', () => {
+    const result = markCitations(
+      'Trump v. Vance, 591 U. S. 786 (2020); Trump v. Mazars USA, LLP, 591 U. S. 848 (2020). Vance, 591 U. S., at 800.'
+    );
+    expect(result).toContain('{{cite:591:786:800:Trump v. Vance:Vance, 591 U. S., at 800}}');
+  });
+
+  it('leaves a short form unlinked when its party name matches no remembered case', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020). Cf. Mazars, 591 U. S., at 860.');
+    expect(result).toContain('Cf. Mazars, 591 U. S., at 860.');
+  });
+
+  it('leaves a nameless short form unlinked when the volume holds several cases', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020); Trump v. Mazars USA, LLP, 591 U. S. 848 (2020). See 591 U. S., at 860.');
+    expect(result).toContain('See 591 U. S., at 860.');
+  });
+
+  it('finds a case cited in full only in a later footnote', () => {
+    const citedCases = new Map();
+    collectCitedCases(['As held in Vance, 591 U. S., at 800, the rule holds.', 'Trump v. Vance, 591 U. S. 786 (2020).'], citedCases);
+    const [para] = buildParagraphs('As held in Vance, 591 U. S., at 800, the rule holds.', citedCases);
+    expect(para.text).toContain('{{cite:591:786:800:Trump v. Vance:Vance, 591 U. S., at 800}}');
+  });
+
+  it('falls back to the only case in the volume when there is no name', () => {
+    const result = markCitations('553 U. S. 285 (2008). The Court explained, 553 U. S., at 290, that...');
+    expect(result).toContain('{{cite:553:285:290::553 U. S., at 290}}');
+  });
+
+  it('leaves a short form as text when the volume was never cited in full', () => {
+    expect(markCitations('Vance, 591 U. S., at 802.')).toBe('Vance, 591 U. S., at 802.');
+  });
+
+  it('resolves short forms in a later chapter through a shared registry', () => {
+    const citedCases = new Map();
+    buildParagraphs('The Court decided Trump v. Vance, 591 U. S. 786 (2020).', citedCases);
+    const [para] = buildParagraphs('But see Vance, 591 U. S., at 810.', citedCases);
+    expect(para.text).toContain('{{cite:591:786:810:Trump v. Vance:Vance, 591 U. S., at 810}}');
+  });
+
+  it('lets "Id." follow a resolved short form', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786 (2020). Vance, 591 U. S., at 800. Id., at 801.');
+    expect(result).toContain('{{cite:591:786:801:Trump v. Vance:Id., at 801}}');
+  });
+});
+
+describe('markCitations — lower-court and parallel reporters', () => {
+  it('marks a Federal Reporter cite with court, year and pinpoint', () => {
+    const result = markCitations('Learning Resources, Inc. v. Trump, 149 F. 4th 1312, 1329 (CA Fed. 2025).');
+    expect(result).toContain('{{reporter:F.4th:149:1312:1329:CA Fed.:2025:Learning Resources, Inc. v. Trump:');
+    expect(result).toContain(', 149 F. 4th 1312, 1329 (CA Fed. 2025)}}');
+  });
+
+  it('captures the case name before a lower-court cite', () => {
+    const result = markCitations('Doe v. Roe, 12 F. 3d 100 (CA9 1994).');
+    expect(result).toBe('{{reporter:F.3d:12:100:100:CA9:1994:Doe v. Roe:Doe v. Roe, 12 F. 3d 100 (CA9 1994)}}.');
+  });
+
+  it('distinguishes F. Supp. 2d from the Federal Reporter', () => {
+    const result = markCitations('See 500 F. Supp. 2d 20, 25 (DC 2007).');
+    expect(result).toContain('{{reporter:F. Supp. 2d:500:20:25:DC:2007::500 F. Supp. 2d 20, 25 (DC 2007)}}');
+  });
+
+  it('marks a standalone S. Ct. cite with no court in the parenthetical', () => {
+    const result = markCitations('See 145 S. Ct. 753 (2025).');
+    expect(result).toContain('{{reporter:S. Ct.:145:753:753::2025::145 S. Ct. 753 (2025)}}');
+  });
+
+  it('folds parallel S. Ct. and L. Ed. cites into the U.S. cite', () => {
+    const result = markCitations('Trump v. Vance, 591 U. S. 786, 140 S. Ct. 2412, 207 L. Ed. 2d 907 (2020).');
+    expect(result).toBe(
+      '{{cite:591:786:786:Trump v. Vance:Trump v. Vance, 591 U. S. 786, 140 S. Ct. 2412, 207 L. Ed. 2d 907 (2020)}}.'
+    );
+  });
+
+  it('keeps a U.S. pinpoint before parallel cites', () => {
+    const result = markCitations('591 U. S. 786, 800, 140 S. Ct. 2412, 2425 (2020).');
+    expect(result).toContain('{{cite:591:786:800::');
+    expect(result).not.toContain('{{reporter:');
+  });
+
+  it('maps Dallas volumes straight onto U.S. Reports', () => {
+    const result = markCitations('Chisholm v. Georgia, 2 Dall. 419, 450 (1793).');
+    expect(result).toContain('{{cite:2:419:450:Chisholm v. Georgia:');
+  });
+
+  it('does not take a section number and initial for a Federal Reporter cite', () => {
+    expect(markCitations('Section 3 F. 12 applies.')).toBe('Section 3 F. 12 applies.');
+  });
+
+  it('links a first-series Federal Reporter cite with its parenthetical', () => {
+    expect(markCitations('See 85 F. 271 (CA6 1898).')).toContain('{{reporter:F.:85:271:271:CA6:1898::');
+  });
+
+  it('does not treat a year as an S. Ct. volume', () => {
+    expect(markCitations('in 1995 S. Ct. 5')).not.toContain('{{reporter:');
+  });
+
+  it('does not split a series suffix off to use as the page', () => {
+    expect(markCitations('12 F. Supp. 3d was noted')).toBe('12 F. Supp. 3d was noted');
+  });
+
+  it('resolves "Id., at N" to a preceding lower-court cite', () => {
+    const result = markCitations('Doe v. Roe, 12 F. 3d 100 (CA9 1994). Id., at 104.');
+    expect(result).toContain('{{reporter:F.3d:12:100:104:CA9:1994:Doe v. Roe:Id., at 104}}');
+  });
+});
+
+describe('markCitations — CFR', () => {
+  it('marks a CFR section with subsection', () => {
+    const result = markCitations('See 40 CFR §1502.4(b).');
+    expect(result).toContain('{{cfr:40:1502:1502.4:(b):40 CFR §1502.4(b)}}');
+  });
+
+  it('accepts the dotted "C. F. R." form', () => {
+    const result = markCitations('40 C. F. R. § 1508.7 (2019).');
+    expect(result).toContain('{{cfr:40:1508:1508.7::40 C. F. R. § 1508.7}}');
+  });
+
+  it('splits a multi-section CFR cite into separate markers', () => {
+    const result = markCitations('40 CFR §§1502.4, 1502.9(c).');
+    expect(result).toContain('{{cfr:40:1502:1502.4::40 CFR §§1502.4}}');
+    expect(result).toContain('{{cfr:40:1502:1502.9:(c):1502.9(c)}}');
+  });
+
+  it('marks a whole-part cite', () => {
+    expect(markCitations('40 CFR pt. 1502.')).toContain('{{cfr:40:1502:::40 CFR pt. 1502}}');
+  });
+
+  it('resolves a bare dotted §-ref to the preceding CFR title', () => {
+    const result = markCitations('40 CFR §1502.4. See also §1508.1(g).');
+    expect(result).toContain('{{cfr:40:1508:1508.1:(g):§1508.1(g)}}');
+  });
+
+  it('does not read a dotted section as a USC section', () => {
+    const ctx = { lastUscTitle: '42' };
+    const result = markCitations('See §1502.4.', ctx);
+    expect(result).not.toContain('{{usc:');
+  });
+});
+
+describe('markCitations — Constitution', () => {
+  it('marks an article, section and clause', () => {
+    const result = markCitations('Congress acted under Art. I, §8, cl. 3.');
+    expect(result).toContain('{{const:article:I:8:3:Art. I, §8, cl. 3}}');
+  });
+
+  it('marks an amendment section with the "U. S. Const." prefix', () => {
+    const result = markCitations('U. S. Const., Amdt. 14, §1.');
+    expect(result).toContain('{{const:amendment:14:1::U. S. Const., Amdt. 14, §1}}');
+  });
+
+  it('marks a bare clause of an unsectioned article and normalizes Roman amendments', () => {
+    expect(markCitations('Art. VI, cl. 2')).toContain('{{const:article:VI::2:Art. VI, cl. 2}}');
+    expect(markCitations('Amend. XIV')).toContain('{{const:amendment:14:::Amend. XIV}}');
+  });
+
+  it('does not read the section of an article cite as a USC section', () => {
+    const result = markCitations('Art. III, §2.', { lastUscTitle: '28' });
+    expect(result).toContain('{{const:article:III:2::Art. III, §2}}');
+    expect(result).not.toContain('{{usc:');
+  });
+
+  it('skips state constitutions and provisions the Constitution lacks', () => {
+    expect(markCitations('Tex. Const., Art. I, §3.')).not.toContain('{{const:');
+    expect(markCitations('Art. I, §12.')).not.toContain('{{const:');
+    expect(markCitations('Amdt. 28.')).not.toContain('{{const:');
+  });
+
+  it('resolves Ibid. to the preceding provision', () => {
+    const result = markCitations('Amdt. 1. Ibid.');
+    expect(result).toContain('{{const:amendment:1:::Ibid.}}');
+  });
+});
+
+describe('markCitations — Statutes at Large and Public Laws', () => {
+  it('marks a Public Law and its Statutes at Large cite', () => {
+    const result = markCitations('Pub. L. 117–169, 136 Stat. 1818.');
+    expect(result).toContain('{{pl:117:169:Pub. L. 117–169}}');
+    expect(result).toContain('{{stat:136:1818:1818:136 Stat. 1818}}');
+  });
+
+  it('accepts "Pub. L. No." and keeps a Stat. pinpoint', () => {
+    const result = markCitations('Pub. L. No. 104-104, 110 Stat. 56, 70.');
+    expect(result).toContain('{{pl:104:104:Pub. L. No. 104-104}}');
+    expect(result).toContain('{{stat:110:56:70:110 Stat. 56, 70}}');
+  });
+
+  it('does not take the next citation\'s volume for a pinpoint', () => {
+    const result = markCitations('48 Stat. 881, 15 U. S. C. §78a.');
+    expect(result).toContain('{{stat:48:881:881:48 Stat. 881}}');
+    expect(result).toContain('{{usc:15:78a::15 U. S. C. §78a}}');
+  });
+
+  it('resolves "Id., at N" to a new Stat. pinpoint', () => {
+    const result = markCitations('136 Stat. 1818. Id., at 1830.');
+    expect(result).toContain('{{stat:136:1818:1830:Id., at 1830}}');
+  });
+});
+
+describe('markCitations — internal cross-references', () => {
+  it('keeps the end of an ante/post page range', () => {
+    expect(markCitations('See ante, at 19–21; see also')).toContain('{{ref:ante:19:21:::ante, at 19–21}};');
+  });
+
+  it('moves a page break inside a range after the marker', () => {
+    expect(markCitations('See ante, at 32– {{pg:6}} 34; Part')).toContain('{{ref:ante:32:34:::ante, at 32–34}} {{pg:6}};');
+  });
+
+  it('captures the opinion a parenthetical names', () => {
+    expect(markCitations('post, at 12–14 (THOMAS, J., dissenting)'))
+      .toBe('{{ref:post:12:14:THOMAS:dissenting:post, at 12–14}} (THOMAS, J., dissenting)');
+    expect(markCitations('ante, at 16, n. 3 (SOTOMAYOR, J., dissenting)')).toContain('{{ref:ante:16::SOTOMAYOR:dissenting:');
+    expect(markCitations('ante, at 9 (opinion of the Court)')).toContain('{{ref:ante:9:::court:');
+    expect(markCitations('post, at 6, 7, n. 2 (citing The Federalist No. 69)')).toContain('{{ref:post:6::::post, at 6}}');
+  });
+
+  it('points the syllabus’s page cites at the opinion of the Court', () => {
+    expect(markCitations('is not sufficiently clear. Pp. 5–12.'))
+      .toBe('is not sufficiently clear. {{ref:post:5:12::court:Pp. 5–12}}.');
+    expect(markCitations('applies only to state prisoners. P. 20. (b) Next')).toContain('{{ref:post:20:::court:P. 20}}.');
+    expect(markCitations('The Federalist No. 70, pp. 471–472 (J. Cooke ed. 1961).')).not.toContain('{{ref:');
+  });
+
+  it('marks Part references with a normalized heading path', () => {
+    expect(markCitations('See Part III–B–1, supra.')).toBe('See {{part:III–B–1:supra:::Part III–B–1, supra}}.');
+    expect(markCitations('see Part IV– B–2, infra, the')).toContain('{{part:IV–B–2:infra:::');
+    expect(markCitations('See ante, Part II.')).toContain('{{part:II:ante:::ante, Part II}}');
+    expect(markCitations('Part II–A, post (opinion of KAGAN, J.)')).toContain('{{part:II–A:post:KAGAN::');
+  });
+
+  it('leaves Parts without a direction alone', () => {
+    expect(markCitations('I do not join Part III–C of the Court’s opinion.')).not.toContain('{{part:');
+    expect(markCitations('joined except as to Part III–C.')).not.toContain('{{part:');
+  });
+
+  it('marks footnote references within the opinion', () => {
+    expect(markCitations('See n. 3, supra.')).toBe('See {{note:3:supra:n. 3, supra}}.');
+    expect(markCitations('see nn. 4–5, infra')).toContain('{{note:4:infra:nn. 4–5, infra}}');
+  });
+
+  it('leaves a cited source’s footnotes alone', () => {
+    expect(markCitations('Fitzgerald, 457 U. S., at 752, n. 32, supra')).not.toContain('{{note:');
+    expect(markCitations('Brief for United States 29–30, n. 11')).not.toContain('{{note:');
+  });
+});
@@ -0,0 +1,329 @@
+import { describe, it, expect } from 'vitest';
+import { markersToSpans, spansToPlainText, encodeMarkerField, decodeMarkerField } from '../src/lib/spans';
+import { migrateOpinion, OPINION_SCHEMA_VERSION, servedChapter, servedOpinion } from '../src/lib/schema';
+import { markCitations } from '../src/lib/parser';
+import { chapter as makeChapter } from './factories';
+
+describe('encodeMarkerField', () => {
+  it('round-trips colons, braces and percent signs', () => {
+    const raw = 'Foo v. Bar: {Part 1} 100%';
+    const encoded = encodeMarkerField(raw);
+    expect(encoded).not.toMatch(/[:{}]/);
+    expect(decodeMarkerField(encoded)).toBe(raw);
+  });
+});
+
+describe('markersToSpans', () => {
+  it('returns a single text span for plain text', () => {
+    expect(markersToSpans('No markers here.')).toEqual([{ type: 'text', text: 'No markers here.' }]);
+  });
+
+  it('tokenizes footnote refs', () => {
+    expect(markersToSpans('implicated.{{fn:2}} Next')).toEqual([
+      { type: 'text', text: 'implicated.' },
+      { type: 'fn', id: 2 },
+      { type: 'text', text: ' Next' },
+    ]);
+  });
+
+  it('tokenizes case citations', () => {
+    expect(markersToSpans('See {{cite:553:285:290:District of Columbia v. Heller:553 U. S. 285, 290}}.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'cite', volume: '553', page: '285', pinpoint: '290', caseName: 'District of Columbia v. Heller', display: '553 U. S. 285, 290' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('tokenizes emphasis', () => {
+    expect(markersToSpans('In {{em:i:Vance}}, {{em:sc:Justice Thomas}} wrote')).toEqual([
+      { type: 'text', text: 'In ' },
+      { type: 'emphasis', style: 'italic', text: 'Vance' },
+      { type: 'text', text: ', ' },
+      { type: 'emphasis', style: 'smallcaps', text: 'Justice Thomas' },
+      { type: 'text', text: ' wrote' },
+    ]);
+    expect(markersToSpans('{{em:x:odd}}')).toEqual([{ type: 'text', text: '{{em:x:odd}}' }]);
+  });
+
+  it('tokenizes ante/post refs', () => {
+    expect(markersToSpans('{{ref:post:12:14:THOMAS:dissenting:post, at 12–14}}')).toEqual([{
+      type: 'ref', direction: 'post', page: '12', endPage: '14', author: 'THOMAS', role: 'dissenting', display: 'post, at 12–14',
+    }]);
+  });
+
+  it('still reads pre-v4 ante/post refs', () => {
+    expect(markersToSpans('{{ref:ante:4}}')).toEqual([{
+      type: 'ref', direction: 'ante', page: '4', endPage: '', author: '', role: '', display: 'ante, at 4',
+    }]);
+  });
+
+  it('tokenizes Part and footnote refs', () => {
+    expect(markersToSpans('{{part:III–B:infra:::Part III–B, infra}}')).toEqual([{
+      type: 'part', label: 'III–B', direction: 'infra', author: '', role: '', display: 'Part III–B, infra',
+    }]);
+    expect(markersToSpans('{{note:3:supra:n. 3, supra}}')).toEqual([
+      { type: 'note', id: 3, direction: 'supra', display: 'n. 3, supra' },
+    ]);
+  });
+
+  it('tokenizes U.S.C. and Federal Register markers', () => {
+    expect(markersToSpans('{{usc:50:1702:(a)(1)(B):1702(a)(1)(B)}}')).toEqual([
+      { type: 'usc', title: '50', section: '1702', subsection: '(a)(1)(B)', display: '1702(a)(1)(B)' },
+    ]);
+    expect(markersToSpans('{{fr:90:9117:2025:90 Fed. Reg. 9117}}')).toEqual([
+      { type: 'fr', volume: '90', page: '9117', year: '2025', display: '90 Fed. Reg. 9117' },
+    ]);
+  });
+
+  it('tokenizes Constitution markers', () => {
+    expect(markersToSpans('{{const:article:I:8:3:Art. I, §8, cl. 3}}')).toEqual([
+      { type: 'const', part: 'article', number: 'I', section: '8', clause: '3', display: 'Art. I, §8, cl. 3' },
+    ]);
+  });
+
+  it('tokenizes Statutes at Large and Public Law markers', () => {
+    expect(markersToSpans('{{pl:117:169:Pub. L. 117–169}}, {{stat:136:1818:1830:136 Stat. 1818, 1830}}')).toEqual([
+      { type: 'pl', congress: '117', number: '169', display: 'Pub. L. 117–169' },
+      { type: 'text', text: ', ' },
+      { type: 'stat', volume: '136', page: '1818', pinpoint: '1830', display: '136 Stat. 1818, 1830' },
+    ]);
+  });
+
+  it('leaves malformed markers as text', () => {
+    expect(markersToSpans('a {{ref:sideways:4}} b')).toEqual([{ type: 'text', text: 'a {{ref:sideways:4}} b' }]);
+  });
+
+  it('turns whole-paragraph headings into a heading span', () => {
+    expect(markersToSpans('{{h2:A}}')).toEqual([{ type: 'heading', level: 2, label: 'A' }]);
+  });
+
+  it('turns boilerplate into a boilerplate span, flattening nested markers', () => {
+    expect(markersToSpans('{{bp:NOTE: See {{cite:200:321:337::200 U. S. 321, 337}}.}}')).toEqual([
+      { type: 'boilerplate', text: 'NOTE: See 200 U. S. 321, 337.', delivery: false },
+    ]);
+    expect(markersToSpans('{{bpj:JUSTICE KAGAN delivered the opinion of the Court.}}')).toEqual([
+      { type: 'boilerplate', text: 'JUSTICE KAGAN delivered the opinion of the Court.', delivery: true },
+    ]);
+  });
+
+  it('decodes escaped fields', () => {
+    const caseName = encodeMarkerField('In re Estate: Smith');
+    expect(markersToSpans(`{{cite:1:2:2:${caseName}:1 U. S. 2}}`)[0]).toMatchObject({ caseName: 'In re Estate: Smith', display: '1 U. S. 2' });
+  });
+
+  it('reads citations emitted by markCitations', () => {
+    const marked = markCitations('See In re Estate: Smith v. Jones, 553 U. S. 285 (2008).');
+    expect(markersToSpans(marked)).toEqual([
+      { type: 'text', text: 'See In re Estate: ' },
+      { type: 'cite', volume: '553', page: '285', pinpoint: '285', caseName: 'Smith v. Jones', display: 'Smith v. Jones, 553 U. S. 285 (2008)' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('still reads unescaped legacy markers with a colon in the display', () => {
+    expect(markersToSpans('{{usc:5:552::5 U.S.C. 552: FOIA}}')).toEqual([
+      { type: 'usc', title: '5', section: '552', subsection: '', display: '5 U.S.C. 552: FOIA' },
+    ]);
+  });
+});
+
+describe('spansToPlainText', () => {
+  it('keeps link text and drops footnote refs', () => {
+    expect(spansToPlainText(markersToSpans('See {{cite:553:285:285::553 U. S. 285}}.{{fn:1}}'))).toBe('See 553 U. S. 285.');
+  });
+
+  it('keeps emphasized text', () => {
+    expect(spansToPlainText(markersToSpans('the {{em:i:amicus}} brief'))).toBe('the amicus brief');
+  });
+
+  it('drops page markers', () => {
+    const spans = markersToSpans('the {{pg:4}} statute');
+    expect(spans[1]).toEqual({ type: 'page', page: 4 });
+    expect(spansToPlainText(spans)).toBe('the  statute');
+  });
+});
+
+describe('servedOpinion', () => {
+  it('leaves the marker text off paragraphs and footnotes, and the parsed opinion as it was', () => {
+    const chapter = makeChapter('opinion-majority', ['Held.{{fn:1}}']);
+    chapter.footnotes = [{ id: 1, text: 'See {{em:i:id.}}', spans: markersToSpans('See {{em:i:id.}}') }];
+    const served = servedOpinion({ chapters: [chapter] });
+    expect(JSON.stringify(served)).not.toContain('{{');
+    expect(served.chapters[0].paragraphs[0].spans).toEqual(chapter.paragraphs[0].spans);
+    expect(servedChapter(chapter).footnotes[0]).toEqual({ id: 1, spans: chapter.footnotes[0].spans });
+    expect(chapter.paragraphs[0].text).toBe('Held.{{fn:1}}');
+  });
+});
+
+describe('migrateOpinion', () => {
+  it('adds spans to a v1 opinion', () => {
+    const v1 = {
+      caseTitle: 'Test v. Case',
+      docketNumber: '23-1',
+      decidedDate: 'June 1, 2024',
+      sourceUrl: '',
+      chapters: [{
+        id: 'majority',
+        title: 'Opinion of the Court',
+        author: null,
+        paragraphs: [{ text: 'Held.{{fn:1}}', footnotes: [] }],
+        footnotes: [{ id: 1, text: 'See {{cite:1:2:2::1 U. S. 2}}.' }],
+      }],
+    };
+    const migrated = migrateOpinion(v1);
+    expect(migrated.schemaVersion).toBe(OPINION_SCHEMA_VERSION);
+    expect(migrated.chapters[0].paragraphs[0].spans).toEqual([
+      { type: 'text', text: 'Held.' },
+      { type: 'fn', id: 1 },
+    ]);
+    expect(migrated.chapters[0].footnotes[0].spans[1]).toMatchObject({ type: 'cite', volume: '1', page: '2' });
+  });
+
+  it('splits an unescaped colon in a v1 case name from its display', () => {
+    const v1 = {
+      chapters: [{
+        paragraphs: [{ text: 'See {{cite:1:2:3:In re Estate: Smith:In re Estate: Smith, 1 U. S. 2, 3}}.', footnotes: [] }],
+        footnotes: [],
+      }],
+    };
+    expect(migrateOpinion(v1).chapters[0].paragraphs[0].spans[1]).toEqual({
+      type: 'cite', volume: '1', page: '2', pinpoint: '3',
+      caseName: 'In re Estate: Smith', display: 'In re Estate: Smith, 1 U. S. 2, 3',
+    });
+  });
+
+  it('adds empty page lists to a v2 opinion', () => {
+    const v2 = { schemaVersion: 2, chapters: [{ paragraphs: [{ text: 'x', spans: [{ type: 'text', text: 'x' }] }], footnotes: [] }] };
+    const migrated = migrateOpinion(v2);
+    expect(migrated.schemaVersion).toBe(OPINION_SCHEMA_VERSION);
+    expect(migrated.chapters[0].paragraphs[0].pages).toEqual([]);
+  });
+
+  it('fills in the range, target and display of v3 ref spans', () => {
+    const v3 = {
+      schemaVersion: 3,
+      chapters: [{
+        paragraphs: [{ text: '{{ref:ante:4}}', spans: [{ type: 'ref', direction: 'ante', page: '4' }], pages: [] }],
+        footnotes: [],
+      }],
+    };
+    expect(migrateOpinion(v3).chapters[0].paragraphs[0].spans[0]).toEqual({
+      type: 'ref', direction: 'ante', page: '4', endPage: '', author: '', role: '', display: 'ante, at 4',
+    });
+  });
+
+  it('derives paragraph kinds for a v4 opinion', () => {
+    const v4 = {
+      schemaVersion: 4,
+      chapters: [{
+        paragraphs: [
+          { text: '{{h1:I}}', spans: [{ type: 'heading', level: 1, label: 'I' }], pages: [] },
+          { text: 'x', spans: [{ type: 'text', text: 'x' }], pages: [] },
+        ],
+        footnotes: [],
+      }],
+    };
+    expect(migrateOpinion(v4).chapters[0].paragraphs.map(p => p.kind)).toEqual(['heading', 'body']);
+  });
+
+  it('reads roles and joiners back out of a v6 opinion', () => {
+    const line = 'JUSTICE GORSUCH, with whom JUSTICE THOMAS joins, dissenting.';
+    const v6 = {
+      schemaVersion: 6,
+      chapters: [{
+        id: 'dissenting-gorsuch', author: 'Gorsuch',
+        paragraphs: [{ text: `{{bpj:${line}}}`, spans: [{ type: 'boilerplate', text: line, delivery: true }], kind: 'boilerplate', pages: [] }],
+        footnotes: [],
+      }],
+    };
+    expect(migrateOpinion(v6).chapters[0]).toMatchObject({ kind: 'dissent', role: 'dissenting', joinedBy: [{ justice: 'Thomas' }] });
+  });
+
+  it('gives a v8 opinion empty holdings', () => {
+    const migrated = migrateOpinion({ schemaVersion: 8, chapters: [] });
+    expect(migrated.holdings).toEqual([]);
+    expect(migrated.disposition).toBe('');
+  });
+
+  it('gives a v9 opinion its single docket when no caption is stored', () => {
+    const migrated = migrateOpinion({ schemaVersion: 9, caseTitle: 'Test v. Case', docketNumber: '23-1', chapters: [] });
+    expect(migrated.dockets).toEqual([{ number: '23-1', caption: 'Test v. Case', lowerCourt: '', lowerCourtId: '' }]);
+  });
+
+  it('reads dates and the court below back out of a v10 opinion', () => {
+    const header = 'No. 23–1. Argued April 25, 2024—Decided July 1, 2024';
+    const migrated = migrateOpinion({
+      schemaVersion: 10,
+      decidedDate: 'July 1, 2024',
+      dockets: [{ number: '23-1', caption: 'A v. B', lowerCourt: 'United States Court of Appeals for the Ninth Circuit' }],
+      chapters: [{ paragraphs: [{ text: `{{bp:${header}}}`, spans: [{ type: 'boilerplate', text: header, delivery: false }], kind: 'boilerplate' }] }],
+    });
+    expect(migrated.dates).toEqual({ argued: '2024-04-25', reargued: '', decided: '2024-07-01' });
+    expect(migrated.dockets[0].lowerCourtId).toBe('CA9');
+    expect(migrated.lowerCourtId).toBe('CA9');
+  });
+
+  it('diagnoses a v11 opinion from its stored chapters', () => {
+    const migrated = migrateOpinion({
+      schemaVersion: 11,
+      chapters: [{
+        id: 'dissenting-gorsuch', title: 'Gorsuch, dissenting', kind: 'dissent', author: null,
+        paragraphs: [{ text: 'x{{fn:2}}', spans: [{ type: 'text', text: 'x' }, { type: 'fn', id: 2 }], kind: 'body' }],
+        footnotes: [],
+      }],
+    });
+    expect(migrated.diagnostics.warnings.map((w) => w.code)).toEqual(['missing-author', 'orphan-footnote-ref']);
+    expect(migrated.diagnostics.confidence).toBe(0.85);
+    expect(migrated.diagnostics.repairs).toEqual([]);
+  });
+
+  it('marks a v13 opinion as made by an unversioned parser', () => {
+    const migrated = migrateOpinion({ schemaVersion: 13, chapters: [] });
+    expect(migrated.parserVersion).toBe(0);
+  });
+
+  it('anchors the paragraphs of a v14 opinion', () => {
+    const para = (text: string, pages: number[]) => ({ text, spans: [{ type: 'text', text }], kind: 'body', pages, footnotes: [] });
+    const migrated = migrateOpinion({
+      schemaVersion: 14,
+      chapters: [{ id: 'opinion-majority', paragraphs: [para('One.', [3]), para('Two.', [3, 4]), para('Three.', [4])], footnotes: [] }],
+    });
+    expect(migrated.chapters[0].paragraphs.map((p) => p.anchor)).toEqual(['p-3-1', 'p-3-2', 'p-4-1']);
+    expect(migrated.chapters[0].paragraphs[0].textHash).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('drops the marker text of a v15 opinion', () => {
+    const migrated = migrateOpinion({
+      schemaVersion: 15,
+      chapters: [{ paragraphs: [{ text: 'x{{fn:1}}', spans: [] }], footnotes: [{ id: 1, text: 'y', spans: [] }] }],
+    });
+    expect(migrated.chapters[0].paragraphs[0]).toEqual({ spans: [] });
+    expect(migrated.chapters[0].footnotes[0]).toEqual({ id: 1, spans: [] });
+  });
+
+  it('reports no footnote repairs for a v12 opinion', () => {
+    const migrated = migrateOpinion({
+      schemaVersion: 12,
+      chapters: [],
+      diagnostics: { warnings: [], confidence: 1 },
+    });
+    expect(migrated.diagnostics).toEqual({ warnings: [], repairs: [], confidence: 1 });
+  });
+
+  it('treats a missing or invalid version as v1', () => {
+    const v0 = { schemaVersion: 0, chapters: [{ paragraphs: [{ text: 'x', footnotes: [] }], footnotes: [] }] };
+    const migrated = migrateOpinion(v0);
+    expect(migrated.schemaVersion).toBe(OPINION_SCHEMA_VERSION);
+    expect(migrated.chapters[0].paragraphs[0].spans).toEqual([{ type: 'text', text: 'x' }]);
+  });
+
+  it('passes through an opinion newer than this build', () => {
+    const future = { schemaVersion: OPINION_SCHEMA_VERSION + 1, chapters: [] };
+    expect(migrateOpinion(future).schemaVersion).toBe(OPINION_SCHEMA_VERSION + 1);
+  });
+
+  it('leaves a current opinion untouched', () => {
+    const current = { schemaVersion: OPINION_SCHEMA_VERSION, chapters: [{ paragraphs: [{ text: 'x', spans: [] }], footnotes: [] }] };
+    expect(migrateOpinion(current).chapters[0].paragraphs[0].spans).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { extractHoldings } from '../src/lib/syllabus';
+import type { Chapter } from '../src/lib/types';
+import { chapter, paragraph } from './factories';
+
+function syllabus(texts: string[]): Chapter {
+  return chapter('syllabus', texts.map((text) => paragraph(text, { kind: 'body' })), { title: 'Syllabus', kind: 'syllabus' });
+}
+
+const pp = (page: number, endPage?: number) =>
+  `{{ref:post:${page}:${endPage ?? ''}::court:${endPage ? `Pp. ${page}–${endPage}` : `P. ${page}`}}}.`;
+
+describe('extractHoldings', () => {
+  it('splits the holdings at their page cites and nests them by label', () => {
+    const { holdings } = extractHoldings([syllabus([
+      'Petitioner sued.',
+      `{{em:i:Held}}: The statute applies. ${pp(3, 12)}`,
+      `(a) Its text is plain. ${pp(3, 6)}`,
+      '(b) Its history agrees.',
+      `It was enacted in 1990. ${pp(6, 12)}`,
+      `(1) First, the Senate report. {{pg:2}} ${pp(7)}`,
+      `(i) Roman parts sit deeper. ${pp(8)}`,
+    ])]);
+    expect(holdings.map((h) => [h.label, h.level])).toEqual([['', 0], ['(a)', 1], ['(b)', 1], ['(1)', 2], ['(i)', 3]]);
+    expect(holdings[2].text).toBe(`Its history agrees. It was enacted in 1990. ${pp(6, 12)}`);
+    expect(holdings[3].text).toBe(`First, the Senate report. ${pp(7)}`);
+    expect(holdings[0].spans.at(-2)).toMatchObject({ type: 'ref', page: '3', endPage: '12', role: 'court' });
+  });
+
+  it('reads "(i)" after "(h)" as a letter', () => {
+    const labels = 'abcdefghi'.split('').map((l) => `(${l}) Text. ${pp(2)}`);
+    const { holdings } = extractHoldings([syllabus([`{{em:i:Held}}: ${labels.join(' ')}`])]);
+    expect(holdings.map((h) => h.level)).toEqual(Array(9).fill(1));
+  });
+
+  it('reads the disposition after the last holding', () => {
+    const { disposition } = extractHoldings([syllabus([
+      `{{em:i:Held}}: Restitution is punishment. ${pp(2, 5)} {{reporter:F.4th:113:839:839::::113 F. 4th 839}}, reversed and remanded. {{em:sc:Kavanaugh}}, J., delivered the opinion for a unanimous Court.`,
+    ])]);
+    expect(disposition).toBe('Reversed and remanded');
+  });
+
+  it('reads each docket\'s judgment in consolidated cases', () => {
+    const { disposition } = extractHoldings([syllabus([
+      `{{em:i:Held}}: IEEPA does not authorize tariffs. The judgment in No. 24–1287 is vacated, and the case is remanded with instructions to dismiss for lack of jurisdiction; the judgment in No. 25– 250 is affirmed. ${pp(1, 5)}`,
+      '{{em:sc:Roberts}}, C. J., delivered the opinion of the Court.',
+    ])]);
+    expect(disposition).toBe('No. 24–1287, vacated and remanded with instructions to dismiss for lack of jurisdiction; No. 25–250, affirmed');
+  });
+
+  it('reads the end of the syllabus that ran onto the opinion, and "affrmed"', () => {
+    const { holdings, disposition } = extractHoldings([
+      syllabus([`{{em:i:Held}}: "Mistake" includes a judge's errors of law. Kemp's worry is that the risk Kemp`]),
+      chapter('opinion-majority', [
+        `identifes would exist anyway. ${pp(536, 539)} 857 Fed. Appx. 573, affrmed. Thomas, J., delivered the opinion of the Court.`,
+        'Justice Thomas delivered the opinion of the Court.',
+        'Federal Rule of Civil Procedure 60(b)(1) allows a party to seek relief.',
+      ]),
+    ]);
+    expect(holdings.at(-1)!.text).toBe(`"Mistake" includes a judge's errors of law. Kemp's worry is that the risk Kemp identifes would exist anyway. ${pp(536, 539)}`);
+    expect(disposition).toBe('Affirmed');
+  });
+
+  it('returns nothing without a syllabus', () => {
+    expect(extractHoldings([])).toEqual({ holdings: [], disposition: '' });
+  });
+});